@@ -10,140 +10,188 @@ import {
   ResponsiveContainer,
   ComposedChart,
   Line,
-  AreaChart,
   Area,
-  LabelList,
-  Cell,
-  LineChart
+  LabelList
 } from 'recharts';
-import { Upload, Battery, AlertTriangle, Calendar, Activity, TrendingDown, TrendingUp, ZapOff, AlertOctagon, List, Settings, BarChart3, Fuel, Coins, Percent, Zap, Printer, Sun, Info, Trash2, Clock, Truck, Scale, Banknote, PieChart as PieIcon, FileText, Zap as ZapIcon, Download } from 'lucide-react';
+import JSZip from 'jszip';
+import { Upload, Battery, Calendar, Activity, TrendingDown, TrendingUp, AlertOctagon, List, Settings, BarChart3, Fuel, Zap, Printer, Sun, Trash2, Clock, Scale, Banknote, PieChart as PieIcon, FileText, Zap as ZapIcon, Download, Plus, Leaf, Save, FolderOpen, X } from 'lucide-react';
+
+import { AnalysisResult, CsvImportOptions, CsvType, POWER_PROFILE_TYPES, ValueUnit, detectCsvOptions, getCsvSignature, getDefaultUnit, parseCsv, splitCsvLine, splitCsvLines, LegacyStorage, ProfileReference, ProjectFile, ProjectLoadResult, ProjectProfile, SavedScenario, createProjectFile, migrateProject, DataPoint, EmissionPoint, FinanceParams, MultiYearParams, ScenarioSettings, getFinanceParams, getMultiYearParams, InvestmentCase, buildInvestmentCase, getBaselineParams, SizingGrid, SizingPoint, SizingRange, getRangeValues, runSizingSweep, MonteCarloYear, RestrictionModel, createRandom, fitRestrictionModel, runMonteCarlo, SensitivityOutcome, SensitivityParameter, SensitivityRange, TornadoBar, TwoWayCell, getSensitivityBaseValue, runTornado, runTwoWaySweep, GensetFuelPoint, GridCapacity, GridCapacityStep, LoadPoint, LoadProfiles, LogisticsSchedule, LogisticsShift, getSchedulePeakMW, getScheduleAverageMW, PricePoint, AncillaryPricePoint, AncillaryProductConfig, AncillaryConflictRule, SolarPoint, YearlyResult, calculateDieselCost, getDcCapacityForYear, getGridCapacityForYear, hoursInYear, TIME_ZONE, formatLocalDateTime, getLocalParts, startOfLocalYear, SolarAlignmentMode, DispatchStrategy, getGridYearData, hasGridInput, GridContract, ContractWindow, AvailabilityAllocation, YearFillStrategy, YearDataStatus, DataQualityReport, analyzeProfileQuality, runMultiYear, runSimulation, simulateYear, ExportYear, formatTableCsv, getExportTables, getXlsxParts } from './engine';
+import { ProfileData, StorageEstimate, StoredProfileInfo, clearProfileStore, deleteProfile, formatProfileCsv, getProfileFingerprint, getStorageEstimate, listProfiles, loadProfile, saveProfile, toProfileData } from './profileStore';
 
 // --- TYPES ---
-type DataPoint = {
-  datetime: Date;
-  limitMW: number;
+type CapacitySensitivityResult = {
+    capacityMW: number;
+    netExtraCost: number;
+    deficitMWh: number;
+    tradingHours: number; 
+    tradingVolume: number; 
 };
 
-type SolarPoint = {
-  datetime: Date;
-  generationMW: number;
+type DispatchComparisonResult = {
+    strategy: DispatchStrategy;
+    label: string;
+    deficitMWh: number;
+    dieselLiters: number;
+    netExtraCost: number;
+    gridToBatMWh: number;
+    batteryLossMWh: number;
+    avgSoCPercent: number;
+    arbitrageRevenue: number;
 };
 
-type SimulationStep = {
-  datetime: Date;
-  gridLimit: number;
-  dcDemand: number;
-  logisticsDemand: number; 
-  totalDemand: number;      
-  solarGeneration: number; 
-  solarUsedByLoad: number; 
-  gridToLoad: number;      
-  batToLoad: number;        
-  gridToBat: number;
-  solarToBat: number;        
-  shortage: number;
-  socEnd: number;
-  isBatteryActive: boolean; 
+type SizingMetric = 'npv' | 'netExtraCost' | 'deficitMWh';
+
+type TwoWayAxis = SizingRange & { parameter: SensitivityParameter };
+
+type ScenarioMetric = 'dcDeficitWithBat' | 'netExtraCost' | 'dieselLiters' | 'totalCo2Tonnes';
+
+// Inputs offered in the sensitivity analysis with their default low/high bounds
+const SENSITIVITY_PARAMETERS: { key: SensitivityParameter, label: string, low: number, high: number }[] = [
+    { key: 'dieselPrice', label: 'Dieselprijs (€/L)', low: 1.0, high: 2.0 },
+    { key: 'electricityPrice', label: 'Stroomprijs (€/MWh)', low: 60, high: 160 },
+    { key: 'dcUtilizationFactor', label: 'DC Benutting (%)', low: 50, high: 90 },
+    { key: 'batteryPowerMW', label: 'Batterij Vermogen (MW)', low: 5, high: 15 },
+    { key: 'batteryCapacityMWh', label: 'Batterij Energie (MWh)', low: 20, high: 60 },
+    { key: 'solarMWp', label: 'Zon (MWp)', low: 0, high: 8 },
+    { key: 'cscEndYear', label: 'Einde CSC (jaar)', low: 2030, high: 2040 },
+    { key: 'logisticsPercent', label: 'Logistiek Last (% rooster)', low: 50, high: 150 }
+];
+
+const getSensitivityLabel = (parameter: SensitivityParameter) => SENSITIVITY_PARAMETERS.find(p => p.key === parameter)?.label || parameter;
+
+const PROFILE_LABELS: Record<CsvType, string> = {
+    grid: 'Grid Profiel',
+    solar: 'Zon Profiel',
+    price: 'Day-ahead Prijzen',
+    ancillary: 'FCR/aFRR Prijzen',
+    dcload: 'DC Last',
+    logisticsload: 'Logistiek Last',
+    emission: 'CO2 Intensiteit'
 };
 
-type RestrictionEvent = {
-  start: Date;
-  end: Date;
-  durationHours: number;
-  totalDeficitMWh: number; 
-  totalGridRestrictedMWh: number;
-  mitigated: boolean;
-  batteryStartSoC: number;
+// Badges for years of the grid profile that are not (completely) measured
+const YEAR_STATUS_LABELS: Record<YearDataStatus, { label: string, short: string, className: string }> = {
+    measured: { label: 'Gemeten', short: '', className: '' },
+    partial: { label: 'Gedeeltelijk', short: 'G', className: 'bg-amber-100 text-amber-700' },
+    synthetic: { label: 'Synthetisch', short: 'S', className: 'bg-slate-200 text-slate-600' },
+    extrapolated: { label: 'Geëxtrapoleerd', short: 'E', className: 'bg-purple-100 text-purple-700' },
+    missing: { label: 'Geen data', short: '-', className: 'bg-red-100 text-red-700' },
+    contract: { label: 'Contract', short: 'C', className: 'bg-blue-100 text-blue-700' }
 };
 
-type OutageEvent = {
-  start: Date;
-  end: Date;
-  durationHours: number;
-  totalMissedMWh: number;
-  maxShortageMW: number;
+const CONTRACT_MONTHS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+// Browser storage: the inputs and scenarios as a versioned project (see migrateProject),
+// the profiles in IndexedDB (see profileStore) with the profile used per type
+const PROJECT_STORAGE_KEY = 'bess_project';
+const ACTIVE_PROFILES_KEY = 'bess_active_profiles';
+
+// Earlier versions kept the profiles as CSV text in localStorage, under
+// bess_<type>_csv_v<n> (highest n wins) and later bess_profile_<type>
+const CSV_STORAGE_PATTERN = /^bess_\w+?_(csv|name)_v\d+$|^bess_profile_\w+$|^bess_scenarios_v\d+$/;
+
+const readStoredCsvProfiles = (): ProjectProfile[] => {
+    const found: Partial<Record<CsvType, ProjectProfile & { version: number }>> = {};
+    Object.keys(localStorage).forEach(key => {
+        const legacy = key.match(/^bess_(\w+?)_csv_v(\d+)$/);
+        const current = key.match(/^bess_profile_(\w+)$/);
+        const match = legacy
+            ? { type: legacy[1], version: Number(legacy[2]), nameKey: `bess_${legacy[1]}_name_v${legacy[2]}` }
+            : current ? { type: current[1], version: Infinity, nameKey: `${key}_name` } : null;
+        if (!match || !(match.type in PROFILE_LABELS)) return;
+        const type = match.type as CsvType;
+        if (match.version <= (found[type]?.version ?? -1)) return;
+        found[type] = { type, version: match.version, fileName: localStorage.getItem(match.nameKey) || '', csv: localStorage.getItem(key) || '', unit: getDefaultUnit(type) };
+    });
+    // Earlier versions also stored the generated demo profile; it is generated again instead
+    if (found.grid && !found.grid.fileName && found.grid.csv.startsWith('datetime;profiel')) {
+        delete found.grid;
+    }
+    return Object.values(found).map(({ type, fileName, csv, unit }) => ({ type, fileName, csv, unit }));
 };
 
-type DistributionBucket = {
-  duration: number;
-  frequency: number;
-  avgMWhCurtailed: number;
-  totalMWhCurtailed: number;
+// The storage before project files, read as a version 0 project
+const readLegacyStorage = (): LegacyStorage => {
+    const legacy: LegacyStorage = { profiles: {}, fileNames: {}, scenarios: [] };
+    readStoredCsvProfiles().forEach(({ type, fileName, csv }) => {
+        legacy.profiles[type] = csv;
+        legacy.fileNames[type] = fileName;
+    });
+    try {
+        legacy.scenarios = JSON.parse(localStorage.getItem('bess_scenarios_v8') || '[]');
+    } catch (e) {
+        console.error("Scenario Parse Error", e);
+    }
+    return legacy;
 };
 
-type MonthlyStat = {
-  month: string;
-  restrictedMWh: number;
-  restrictedHours: number;
-  solarGeneration: number; 
-  solarUsed: number;
-  deficitMitigatedBySolar: number;
-  deficitMitigatedByBat: number;
-  deficitNet: number;
+const clearCsvStorage = () => {
+    Object.keys(localStorage).forEach(key => {
+        if (CSV_STORAGE_PATTERN.test(key)) localStorage.removeItem(key);
+    });
 };
 
-type YearlyResult = {
-  year: number;
-  dcDeficitWithBat: number;
-  totalHoursRestricted: number;
-  totalMWhRestricted: number; 
-  cscPercentage: number;        
-  grossDieselCost: number; 
-  avoidedGridCost: number;
-  netExtraCost: number; 
-  solarSelfConsumption: number; 
-  totalSolarGeneration: number; 
-  totalLoadConsumption: number; 
-  deficitAfterSolar: number;
-  restrictedVolumeLoad: number; 
-  dieselPercentage: number;
-  dieselLiters: number;
-  tradingVolumePotentialMWh: number; 
-  tradingVolumePercent: number;
-  // Mix data for table
-  totalGridToLoad: number;
-  totalSolarToLoad: number;
-  totalBatToLoad: number;
-  // Capacity Trend Data (MW)
-  capLogisticsMW: number;
-  capDcActualMW: number;
-  capDcContractMW: number;
-  capBatterySpaceMW: number;
+// Import settings per file layout (see getCsvSignature), so the next export from the
+// same source opens with the settings chosen last time
+const CSV_MAPPINGS_KEY = 'bess_csv_mappings';
+
+const readCsvMappings = (): Record<string, CsvImportOptions> => {
+    try {
+        return JSON.parse(localStorage.getItem(CSV_MAPPINGS_KEY) || '{}');
+    } catch (e) {
+        console.error("CSV Mappings Parse Error", e);
+        return {};
+    }
 };
 
-type CapacitySensitivityResult = {
-    capacityMW: number;
-    netExtraCost: number;
-    deficitMWh: number;
-    tradingHours: number; 
-    tradingVolume: number; 
+// An uploaded file waiting in the import dialog. The signature is taken from the
+// detected layout, before the user changes anything.
+type CsvImportDraft = {
+    type: CsvType;
+    fileName: string;
+    lines: string[];
+    signature: string;
+    remembered: boolean;
+    options: CsvImportOptions;
 };
 
-type AnalysisResult = {
-  totalHoursRestricted: number;
-  totalMWhRestrictedGrid: number;
-  curtailmentPercentageVolume: number;
-  loadDeficitMWhNoBat: number; 
-  loadDeficitMWhWithBat: number;
-  totalSolarGeneration: number; 
-  totalSolarUsed: number;        
-  totalLoadConsumption: number; 
-  deficitAfterSolar: number;
-  restrictedVolumeLoad: number;
-  totalGridToLoad: number;
-  totalSolarToLoad: number;
-  totalBatToLoad: number;
-  events: RestrictionEvent[];
-  outageEvents: OutageEvent[]; 
-  distribution: DistributionBucket[];
-  monthlyStats: MonthlyStat[];
-  simulationSteps: SimulationStep[];
-  worstWeekData: SimulationStep[];
-  batteryAutonomyHours: number;
-  tradingHoursAvailable: number; 
-  tradingVolumePotentialMWh: number;
+const VALUE_UNITS: { value: ValueUnit, label: string }[] = [
+    { value: 'W', label: 'W' },
+    { value: 'kW', label: 'kW' },
+    { value: 'MW', label: 'MW' },
+    { value: 'Wh', label: 'Wh per interval' },
+    { value: 'kWh', label: 'kWh per interval' },
+    { value: 'MWh', label: 'MWh per interval' }
+];
+
+// Tables of getExportTables, in that order
+const EXPORT_TABLE_LABELS = ['Simulatie per stap', 'Maanden', 'Beperkingen', 'Storingen', 'Meerjaren'];
+
+const readActiveProfiles = (): Partial<Record<CsvType, string>> => {
+    try {
+        return JSON.parse(localStorage.getItem(ACTIVE_PROFILES_KEY) || '{}');
+    } catch (e) {
+        console.error("Active Profiles Parse Error", e);
+        return {};
+    }
 };
 
+const SCENARIO_METRICS: { key: ScenarioMetric, label: string }[] = [
+    { key: 'netExtraCost', label: 'Netto Kosten (€)' },
+    { key: 'dcDeficitWithBat', label: 'Tekort (MWh)' },
+    { key: 'dieselLiters', label: 'Diesel (L)' },
+    { key: 'totalCo2Tonnes', label: 'CO2 (ton)' }
+];
+
+const SCENARIO_COLORS = ['#2563eb', '#f97316', '#10b981', '#8b5cf6', '#ef4444', '#0891b2'];
+
+// Schedule editor rows in Dutch week order; keys are LocalParts weekdays (0 = Sunday)
+const SCHEDULE_DAYS = [
+    { key: 1, label: 'Ma' }, { key: 2, label: 'Di' }, { key: 3, label: 'Wo' }, { key: 4, label: 'Do' },
+    { key: 5, label: 'Vr' }, { key: 6, label: 'Za' }, { key: 0, label: 'Zo' }
+];
+
 // --- CUSTOM LABEL COMPONENT ---
 const CustomizedLabel = (props: any) => {
   const { x, y, width, height, value, total } = props;
@@ -186,391 +234,26 @@ const CustomizedLabel = (props: any) => {
   );
 };
 
-// --- HELPER: DATA GENERATION ---
-const getYearDataOrFallback = (targetYear: number, sourceData: DataPoint[]) => {
-    const specificYearData = sourceData.filter(d => d.datetime.getFullYear() === targetYear);
-    
-    if (specificYearData.length > 24) { 
-        return specificYearData;
-    }
-    
-    const data: DataPoint[] = [];
-    const start = new Date(targetYear, 0, 1, 0, 0, 0);
-    const end = new Date(targetYear, 11, 31, 23, 0, 0);
-    
-    for (let d = new Date(start); d <= end; d.setHours(d.getHours() + 1)) {
-        data.push({
-            datetime: new Date(d),
-            limitMW: 10 
-        });
-    }
-    return data;
-};
-
-// --- HELPER: SIMULATION LOGIC ---
-const runSimulation = (
-  yearData: DataPoint[], 
-  solarData: SolarPoint[], 
-  dcCapacityMW: number, 
-  batteryCapacityMWh: number,
-  batteryPowerMW: number,
-  dcUtilizationFactor: number,
-  logisticsMW: number,
-  logisticsStartHour: number,
-  logisticsEndHour: number,
-  solarScaleFactor: number,
-  cscEndDate: Date
-): AnalysisResult => {
-  if (yearData.length === 0) {
-      const hoursInYear = 8760;
-      const totalTradingPotential = hoursInYear * batteryPowerMW;
-      
-      return {
-        totalHoursRestricted: 0,
-        totalMWhRestrictedGrid: 0,
-        curtailmentPercentageVolume: 0,
-        loadDeficitMWhNoBat: 0,
-        loadDeficitMWhWithBat: 0,
-        totalSolarGeneration: 0,
-        totalSolarUsed: 0,
-        totalLoadConsumption: 0,
-        deficitAfterSolar: 0,
-        restrictedVolumeLoad: 0,
-        totalGridToLoad: 0,
-        totalSolarToLoad: 0,
-        totalBatToLoad: 0,
-        events: [],
-        outageEvents: [],
-        distribution: [],
-        monthlyStats: [],
-        simulationSteps: [],
-        worstWeekData: [],
-        batteryAutonomyHours: 0,
-        tradingHoursAvailable: hoursInYear,
-        tradingVolumePotentialMWh: totalTradingPotential 
-      };
-  }
-
-  yearData.sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
-  if(solarData.length > 0) solarData.sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
-
-  const solarMap = new Map<string, number>();
-  const getKey = (d: Date) => `${d.getMonth()}-${d.getDate()}-${d.getHours()}`;
-  
-  solarData.forEach(s => solarMap.set(getKey(s.datetime), s.generationMW));
-
-  let currentSoC = batteryCapacityMWh;
-  const maxChargeRate = batteryPowerMW;
-  const maxDischargeRate = batteryPowerMW;
-  const connectionMax = 10;
-  const cscEndTime = cscEndDate.getTime();
-  
-  const effectiveDcDemandMW = dcCapacityMW * (dcUtilizationFactor / 100);
-  
-  const logisticsHoursPerDay = Math.max(0, logisticsEndHour - logisticsStartHour);
-  const avgLogisticsMW = (logisticsMW * logisticsHoursPerDay) / 24;
-  const totalAvgDemandMW = effectiveDcDemandMW + avgLogisticsMW;
-  
-  const batteryAutonomyHours = totalAvgDemandMW > 0 ? batteryCapacityMWh / totalAvgDemandMW : 999;
-
-  let totalHoursRestricted = 0;
-  let totalMWhRestrictedGrid = 0;
-  let loadDeficitMWhNoBat = 0;
-  let loadDeficitMWhWithBat = 0;
-  let totalSolarGeneration = 0;
-  let totalSolarUsed = 0;
-  let totalLoadConsumption = 0;
-  let deficitAfterSolarTotal = 0;
-  let restrictedVolumeLoadTotal = 0;
-  let totalGridToLoad = 0;
-  let totalSolarToLoad = 0;
-  let totalBatToLoad = 0;
-  let batteryBusyHours = 0; 
-  let tradingVolumePotentialMWh = 0; 
-  
-  const steps: SimulationStep[] = [];
-
-  const monthlyData: MonthlyStat[] = Array.from({ length: 12 }, (_, i) => ({
-    month: new Date(2000, i, 1).toLocaleString('nl-NL', { month: 'short' }),
-    restrictedMWh: 0,
-    restrictedHours: 0,
-    solarGeneration: 0,
-    solarUsed: 0,
-    deficitMitigatedBySolar: 0,
-    deficitMitigatedByBat: 0,
-    deficitNet: 0
-  }));
-
-  for (let i = 0; i < yearData.length; i++) {
-      const point = yearData[i];
-      const monthIndex = point.datetime.getMonth();
-      const hour = point.datetime.getHours();
-      
-      let gridLimit = Math.max(0, point.limitMW);
-      if (point.datetime.getTime() >= cscEndTime) {
-          gridLimit = 10; 
-      }
-
-      const availableGrid = Math.min(gridLimit, connectionMax);
-      
-      let rawSolarGen = 0;
-      const key = getKey(point.datetime);
-      if (solarMap.has(key)) {
-          rawSolarGen = solarMap.get(key) || 0;
-      }
-      
-      const solarGen = rawSolarGen * solarScaleFactor;
-
-      let logisticsDemand = 0;
-      if (hour >= logisticsStartHour && hour < logisticsEndHour) {
-          logisticsDemand = logisticsMW;
-      }
-      
-      const totalDemand = effectiveDcDemandMW + logisticsDemand;
-      totalLoadConsumption += totalDemand; 
-
-      const theoreticalDeficitNoSolar = Math.max(0, totalDemand - availableGrid);
-
-      const solarToLoad = Math.min(solarGen, totalDemand);
-      const demandAfterSolar = totalDemand - solarToLoad;
-      const gridToLoad = Math.min(availableGrid, demandAfterSolar);
-      const shortagePreBat = demandAfterSolar - gridToLoad; 
-
-      const deficitMitigatedBySolar = Math.max(0, theoreticalDeficitNoSolar - shortagePreBat);
-
-      loadDeficitMWhNoBat += shortagePreBat;
-      deficitAfterSolarTotal += shortagePreBat;
-      totalGridToLoad += gridToLoad;
-      totalSolarToLoad += solarToLoad;
-
-      if (gridLimit < 9.99) {
-          const restrictedAmount = (10 - gridLimit);
-          totalHoursRestricted++;
-          totalMWhRestrictedGrid += restrictedAmount;
-          monthlyData[monthIndex].restrictedHours += 1;
-          monthlyData[monthIndex].restrictedMWh += restrictedAmount;
-          
-          restrictedVolumeLoadTotal += theoreticalDeficitNoSolar;
-      }
-
-      let batToLoad = 0;
-      let gridToBat = 0;
-      let solarToBat = 0;
-      let finalShortage = 0;
-      let isBatteryActive = false;
-
-      if (shortagePreBat > 0) {
-          const dischargePotential = Math.min(shortagePreBat, currentSoC, maxDischargeRate);
-          batToLoad = dischargePotential;
-          currentSoC -= dischargePotential;
-          finalShortage = shortagePreBat - dischargePotential;
-          if (batToLoad > 0) isBatteryActive = true;
-      } else {
-          const solarSurplus = solarGen - solarToLoad;
-          const gridSurplus = availableGrid - gridToLoad;
-          const spaceInBat = batteryCapacityMWh - currentSoC;
-          
-          if (spaceInBat > 0) {
-              const chargeFromSolar = Math.min(solarSurplus, spaceInBat, maxChargeRate);
-              solarToBat = chargeFromSolar;
-              
-              const remainingChargeCap = Math.min(spaceInBat - solarToBat, maxChargeRate - solarToBat);
-              const chargeFromGrid = Math.min(gridSurplus, remainingChargeCap);
-              gridToBat = chargeFromGrid;
-              
-              currentSoC += (solarToBat + gridToBat);
-              
-              if (solarToBat > 0 || gridToBat > 0) isBatteryActive = true;
-          }
-      }
-      
-      const deficitMitigatedByBat = Math.max(0, shortagePreBat - finalShortage);
-
-      monthlyData[monthIndex].deficitMitigatedBySolar += deficitMitigatedBySolar;
-      monthlyData[monthIndex].deficitMitigatedByBat += deficitMitigatedByBat;
-      monthlyData[monthIndex].deficitNet += finalShortage;
-
-      totalBatToLoad += batToLoad;
-
-      if (isBatteryActive) {
-          batteryBusyHours++;
-      } else {
-          const unusedGridCapacity = Math.max(0, gridLimit - gridToLoad);
-          const tradingPotential = Math.min(batteryPowerMW, unusedGridCapacity);
-          tradingVolumePotentialMWh += tradingPotential;
-      }
-      
-      loadDeficitMWhWithBat += finalShortage;
-      
-      const usedSolarThisHour = solarToLoad + solarToBat;
-      totalSolarGeneration += solarGen;
-      totalSolarUsed += usedSolarThisHour;
-
-      monthlyData[monthIndex].solarGeneration += solarGen;
-      monthlyData[monthIndex].solarUsed += usedSolarThisHour;
-
-      steps.push({
-          datetime: point.datetime,
-          gridLimit,
-          dcDemand: effectiveDcDemandMW,
-          logisticsDemand,
-          totalDemand,
-          solarGeneration: solarGen,
-          solarUsedByLoad: solarToLoad,
-          gridToLoad,
-          batToLoad,
-          gridToBat,
-          solarToBat,
-          shortage: finalShortage,
-          socEnd: currentSoC,
-          isBatteryActive
-      });
-  }
-
-  const events: RestrictionEvent[] = [];
-  let currentEvent: Partial<RestrictionEvent> | null = null;
-
-  for (let i = 0; i < steps.length; i++) {
-      const s = steps[i];
-      const isRestricted = s.gridLimit < 9.99;
-      
-      if (isRestricted) {
-          const restrictedMWh = 10 - s.gridLimit;
-          const deficitMWh = Math.max(0, (s.totalDemand - s.solarUsedByLoad) - s.gridToLoad); 
-
-          if (!currentEvent) {
-              currentEvent = {
-                  start: s.datetime,
-                  end: s.datetime,
-                  durationHours: 1,
-                  totalDeficitMWh: deficitMWh,
-                  totalGridRestrictedMWh: restrictedMWh,
-                  batteryStartSoC: i > 0 ? steps[i-1].socEnd : batteryCapacityMWh,
-                  mitigated: true
-              };
-          } else {
-              currentEvent.durationHours = (currentEvent.durationHours || 0) + 1;
-              currentEvent.totalDeficitMWh = (currentEvent.totalDeficitMWh || 0) + deficitMWh;
-              currentEvent.totalGridRestrictedMWh = (currentEvent.totalGridRestrictedMWh || 0) + restrictedMWh;
-              currentEvent.end = s.datetime;
-          }
-          if (s.shortage > 0.001) {
-              currentEvent.mitigated = false;
-          }
-      } else {
-          if (currentEvent) {
-              events.push(currentEvent as RestrictionEvent);
-              currentEvent = null;
-          }
-      }
-  }
-  if (currentEvent) events.push(currentEvent as RestrictionEvent);
-
-  const outageEvents: OutageEvent[] = [];
-  let currentOutage: Partial<OutageEvent> | null = null;
-
-  for (let i = 0; i < steps.length; i++) {
-      const s = steps[i];
-      const hasShortage = s.shortage > 0.001; 
-      
-      if (hasShortage) {
-          if (!currentOutage) {
-              currentOutage = {
-                  start: s.datetime,
-                  end: s.datetime,
-                  durationHours: 1,
-                  totalMissedMWh: s.shortage,
-                  maxShortageMW: s.shortage
-              };
-          } else {
-              currentOutage.durationHours = (currentOutage.durationHours || 0) + 1;
-              currentOutage.totalMissedMWh = (currentOutage.totalMissedMWh || 0) + s.shortage;
-              currentOutage.maxShortageMW = Math.max(currentOutage.maxShortageMW || 0, s.shortage);
-              currentOutage.end = s.datetime;
-          }
-      } else {
-          if (currentOutage) {
-              outageEvents.push(currentOutage as OutageEvent);
-              currentOutage = null;
-          }
-      }
-  }
-  if (currentOutage) outageEvents.push(currentOutage as OutageEvent);
-
-  const distMap = new Map<number, { count: number, totalDeficit: number }>();
-  events.forEach(e => {
-      const d = e.durationHours;
-      const current = distMap.get(d) || { count: 0, totalDeficit: 0 };
-      distMap.set(d, {
-          count: current.count + 1,
-          totalDeficit: current.totalDeficit + e.totalDeficitMWh 
-      });
-  });
-
-  const distribution: DistributionBucket[] = Array.from(distMap.entries()).map(([duration, data]) => ({
-      duration,
-      frequency: data.count,
-      totalMWhCurtailed: data.totalDeficit,
-      avgMWhCurtailed: data.totalDeficit / data.count
-  })).sort((a, b) => a.duration - b.duration);
-
-  let minSoC = batteryCapacityMWh;
-  let minIndex = 0;
-  for(let i=0; i<steps.length; i++) {
-      if(steps[i].socEnd < minSoC) {
-          minSoC = steps[i].socEnd;
-          minIndex = i;
-      }
-  }
-  const startIndex = Math.max(0, minIndex - (24*3));
-  const endIndex = Math.min(steps.length, minIndex + (24*4));
-  const worstWeekData = steps.slice(startIndex, endIndex);
-
-  const totalYearlyCapacityMWh = 10 * 8760;
-  const volumePercentage = (totalMWhRestrictedGrid / totalYearlyCapacityMWh) * 100;
-  
-  const tradingHoursAvailable = Math.max(0, 8760 - batteryBusyHours);
-
-  return {
-    totalHoursRestricted,
-    totalMWhRestrictedGrid,
-    curtailmentPercentageVolume: volumePercentage,
-    loadDeficitMWhNoBat,
-    loadDeficitMWhWithBat,
-    totalSolarGeneration,
-    totalSolarUsed,
-    totalLoadConsumption,
-    deficitAfterSolar: deficitAfterSolarTotal,
-    restrictedVolumeLoad: restrictedVolumeLoadTotal,
-    totalGridToLoad,
-    totalSolarToLoad,
-    totalBatToLoad,
-    events,
-    outageEvents,
-    distribution,
-    monthlyStats: monthlyData,
-    simulationSteps: steps,
-    worstWeekData,
-    batteryAutonomyHours,
-    tradingHoursAvailable,
-    tradingVolumePotentialMWh
-  };
-};
-
 // --- MOCK DATA ---
+// Fixed seed: the demo profile is the same on every reload
+const MOCK_DATA_SEED = 2024;
+
 const generateMockData = (): string => {
+  const random = createRandom(MOCK_DATA_SEED);
   const lines = ["datetime;profiel"];
-  const startDate = new Date('2024-01-01T00:00:00'); // Changed start to 2024 to cover all years
-  const endDate = new Date('2036-12-31T23:00:00'); 
+  const startTime = startOfLocalYear(2024).getTime(); // Changed start to 2024 to cover all years
+  const endTime = startOfLocalYear(2037).getTime(); 
   
-  for (let d = new Date(startDate); d <= endDate; d.setHours(d.getHours() + 1)) {
-    const dateStr = d.toISOString().replace('T', ' ').substring(0, 19);
+  // Step in UTC and write Dutch wall-clock time, so DST days have 23/25 rows like operator files
+  for (let t = startTime; t < endTime; t += 3600000) {
+    const d = new Date(t);
+    const dateStr = formatLocalDateTime(d);
     let val = 10;
-    const yearMod = (d.getFullYear() - 2026) * 0.02;
-    const month = d.getMonth();
+    const { year, month } = getLocalParts(d);
+    const yearMod = (year - 2026) * 0.02;
     const isWinter = month < 2 || month > 9;
-    if (Math.random() < ((isWinter ? 0.08 : 0.02) + yearMod)) {
-        val = Math.max(0, 10 - (Math.random() * 8)); 
+    if (random() < ((isWinter ? 0.08 : 0.02) + yearMod)) {
+        val = Math.max(0, 10 - (random() * 8)); 
     }
     const valStr = val.toFixed(3).replace('.', ',');
     lines.push(`${dateStr};${valStr}`);
@@ -582,15 +265,59 @@ const App = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [rawData, setRawData] = useState<DataPoint[]>([]);
   const [solarData, setSolarData] = useState<SolarPoint[]>([]); 
+  const [priceData, setPriceData] = useState<PricePoint[]>([]);
+  const [ancillaryPriceData, setAncillaryPriceData] = useState<AncillaryPricePoint[]>([]);
+  const [dcLoadData, setDcLoadData] = useState<LoadPoint[]>([]);
+  const [logisticsLoadData, setLogisticsLoadData] = useState<LoadPoint[]>([]);
+  const [emissionData, setEmissionData] = useState<EmissionPoint[]>([]);
   const [hasLoadedFromStorage, setHasLoadedFromStorage] = useState(false);
+  // Loaded profiles as stored, written into exported project files
+  const profileDataRef = useRef<Partial<Record<CsvType, ProfileData>>>({});
+  const [storedProfiles, setStoredProfiles] = useState<StoredProfileInfo[]>([]);
+  const [activeProfileIds, setActiveProfileIds] = useState<Partial<Record<CsvType, string>>>(readActiveProfiles);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [storageError, setStorageError] = useState<string>('');
+  const [csvImport, setCsvImport] = useState<CsvImportDraft | null>(null);
+  const [showQualityReport, setShowQualityReport] = useState<boolean>(false);
   
   const [selectedYear, setSelectedYear] = useState<number>(2027);
   const [startYear, setStartYear] = useState<number>(2027); 
   const [cscEndDateStr, setCscEndDateStr] = useState<string>('2036-01-01'); 
   
+  // Grid connection & contracted transport capacity (per year via upgrade steps)
+  const [gridCapacitySteps, setGridCapacitySteps] = useState<GridCapacityStep[]>([{ fromYear: 2024, connectionMW: 10, contractedMW: 10, firmMW: 0 }]);
+  const [profileNominalMW, setProfileNominalMW] = useState<number>(10);
+  const [yearFillStrategy, setYearFillStrategy] = useState<YearFillStrategy>('unrestricted');
+  const [referenceYear, setReferenceYear] = useState<number>(2024);
+  // Winter weekday peaks, as in a typical capacity-limiting contract offer
+  const [gridContract, setGridContract] = useState<GridContract>({
+    mode: 'off',
+    windows: [
+      { months: [0, 1, 2, 10, 11], weekdays: [1, 2, 3, 4, 5], startHour: 7, endHour: 9 },
+      { months: [0, 1, 2, 10, 11], weekdays: [1, 2, 3, 4, 5], startHour: 16, endHour: 20 }
+    ],
+    guaranteedMW: 4,
+    maxActivationsPerYear: 0,
+    maxHoursPerYear: 0,
+    leadTimeHours: 24,
+    availabilityPercent: 85,
+    allocation: 'worst'
+  });
+  
   const [dcCapacityMW, setDcCapacityMW] = useState<number>(2);
   const [batteryCapacityMWh, setBatteryCapacityMWh] = useState<number>(40); 
   const [batteryPowerMW, setBatteryPowerMW] = useState<number>(10);
+  
+  // Battery technology (datasheet values)
+  const [chargeEfficiency, setChargeEfficiency] = useState<number>(95);
+  const [dischargeEfficiency, setDischargeEfficiency] = useState<number>(95);
+  const [minSoCPercent, setMinSoCPercent] = useState<number>(5);
+  const [maxSoCPercent, setMaxSoCPercent] = useState<number>(95);
+  const [initialSoCPercent, setInitialSoCPercent] = useState<number>(95);
+  const [auxiliaryMW, setAuxiliaryMW] = useState<number>(0.02);
+  const [dispatchStrategy, setDispatchStrategy] = useState<DispatchStrategy>('greedy');
+  const [lookAheadHours, setLookAheadHours] = useState<number>(24);
+  const [standbySoCPercent, setStandbySoCPercent] = useState<number>(50);
   const [dcUtilizationFactor, setDcUtilizationFactor] = useState<number>(65); 
   const [isUsingMockData, setIsUsingMockData] = useState<boolean>(true);
   const [isPrintPreview, setIsPrintPreview] = useState(false);
@@ -598,88 +325,229 @@ const App = () => {
   // Growth Profile
   const [growthProfile, setGrowthProfile] = useState<number[]>([2, 4, 6, 7]);
   
-  // Logistics
-  const [logisticsMW, setLogisticsMW] = useState<number>(0.5);
-  // Restore setters for usage
-  const [logisticsStartHour, setLogisticsStartHour] = useState<number>(6);
-  const [logisticsEndHour, setLogisticsEndHour] = useState<number>(18);
+  // Logistics: weekly shift schedule (index 0 = Sunday) with an optional holiday pattern
+  const [logisticsSchedule, setLogisticsSchedule] = useState<LogisticsSchedule>({
+    weekdays: Array.from({ length: 7 }, () => [{ startHour: 6, endHour: 18, powerMW: 0.5 }]),
+    holiday: [],
+    holidaysEnabled: false
+  });
+  const [loadAlignment, setLoadAlignment] = useState<SolarAlignmentMode>('typical');
   
   // Solar Scaling
   const [baseSolarMWp, setBaseSolarMWp] = useState<number>(4.0); 
   const [targetSolarMWp, setTargetSolarMWp] = useState<number>(4.0);
   const [showSolarWarning, setShowSolarWarning] = useState<boolean>(false);
+  const [solarAlignment, setSolarAlignment] = useState<SolarAlignmentMode>('typical');
+
+  // Day-ahead arbitrage
+  const [arbitrageEnabled, setArbitrageEnabled] = useState<boolean>(true);
+  const [priceAlignment, setPriceAlignment] = useState<SolarAlignmentMode>('typical');
+
+  // Balancing services (capacity bids per block)
+  const [ancillaryProducts, setAncillaryProducts] = useState<AncillaryProductConfig[]>([
+    { product: 'fcr', powerMW: 0, capacityPriceEurMWh: 15, headroomHours: 0.25 },
+    { product: 'afrr', powerMW: 0, capacityPriceEurMWh: 10, headroomHours: 0.25 }
+  ]);
+  const [ancillaryBlockHours, setAncillaryBlockHours] = useState<number>(4);
+  const [ancillaryConflictRule, setAncillaryConflictRule] = useState<AncillaryConflictRule>('exclude-block');
   
   // Restore setters for usage
-  const [dieselKwhPerLiter, setDieselKwhPerLiter] = useState<number>(3.5);
   const [dieselPrice, setDieselPrice] = useState<number>(1.50);
   const [electricityPrice, setElectricityPrice] = useState<number>(100);
 
-  const availableYears = [2024, 2025, 2026, 2027, 2028, 2029, 2030, 2031, 2032, 2033, 2034, 2035, 2036]; 
+  // Diesel gensets (per unit; fuel curve from the datasheet at 25/50/75/100% load)
+  const [gensetUnits, setGensetUnits] = useState<number>(4);
+  const [gensetRatedMW, setGensetRatedMW] = useState<number>(1.5);
+  const [gensetMinLoadPercent, setGensetMinLoadPercent] = useState<number>(30);
+  const [gensetFuelCurve, setGensetFuelCurve] = useState<GensetFuelPoint[]>([
+    { loadPercent: 25, litersPerHour: 115 },
+    { loadPercent: 50, litersPerHour: 205 },
+    { loadPercent: 75, litersPerHour: 295 },
+    { loadPercent: 100, litersPerHour: 390 }
+  ]);
+  const [gensetStartFuelL, setGensetStartFuelL] = useState<number>(5);
+  const [gensetStartCost, setGensetStartCost] = useState<number>(25);
+  const [gensetMaintenancePerRunHour, setGensetMaintenancePerRunHour] = useState<number>(15);
+  const [gensetMaxRunHoursPerYear, setGensetMaxRunHoursPerYear] = useState<number>(500);
+
+  // Emission factors and CO2 price
+  const [dieselCo2KgPerL, setDieselCo2KgPerL] = useState<number>(2.68);
+  const [dieselNoxGPerL, setDieselNoxGPerL] = useState<number>(40);
+  const [dieselPmGPerL, setDieselPmGPerL] = useState<number>(1);
+  const [gridCo2KgPerMWh, setGridCo2KgPerMWh] = useState<number>(270);
+  const [emissionAlignment, setEmissionAlignment] = useState<SolarAlignmentMode>('typical');
+  const [co2PricePerTonne, setCo2PricePerTonne] = useState<number>(80);
+
+  // Investment case (CAPEX, OPEX, replacement, discounting)
+  const [batteryCapexPerMW, setBatteryCapexPerMW] = useState<number>(100000);
+  const [batteryCapexPerMWh, setBatteryCapexPerMWh] = useState<number>(200000);
+  const [solarCapexPerMWp, setSolarCapexPerMWp] = useState<number>(600000);
+  const [solarInInvestment, setSolarInInvestment] = useState<boolean>(false);
+  const [fixedOpexPercent, setFixedOpexPercent] = useState<number>(1.5);
+  const [variableOpexPerMWh, setVariableOpexPerMWh] = useState<number>(2);
+  const [batteryReplacementYear, setBatteryReplacementYear] = useState<number>(10);
+  const [batteryReplacementPercent, setBatteryReplacementPercent] = useState<number>(60);
+  const [discountRatePercent, setDiscountRatePercent] = useState<number>(7);
+  const [inflationPercent, setInflationPercent] = useState<number>(2);
+
+  // Battery sizing sweep (runs on request: one multi-year simulation per size)
+  const [sizingPowerRange, setSizingPowerRange] = useState<SizingRange>({ min: 2, max: 10, step: 2 });
+  const [sizingCapacityRange, setSizingCapacityRange] = useState<SizingRange>({ min: 10, max: 50, step: 10 });
+  const [sizingSolarEnabled, setSizingSolarEnabled] = useState<boolean>(false);
+  const [sizingSolarRange, setSizingSolarRange] = useState<SizingRange>({ min: 0, max: 8, step: 4 });
+  const [sizingMetric, setSizingMetric] = useState<SizingMetric>('npv');
+  const [sizingResults, setSizingResults] = useState<SizingPoint[]>([]);
+  const [sizingSolarView, setSizingSolarView] = useState<number>(0);
+  const [isSizingRunning, setIsSizingRunning] = useState<boolean>(false);
+
+  // Sensitivity analysis: one-at-a-time (tornado) and two-variable sweep, on request
+  const [sensitivityRanges, setSensitivityRanges] = useState<SensitivityRange[]>(SENSITIVITY_PARAMETERS.map(({ key, low, high }) => ({ parameter: key, low, high })));
+  const [sensitivityMetric, setSensitivityMetric] = useState<keyof SensitivityOutcome>('netExtraCost');
+  const [tornadoResults, setTornadoResults] = useState<TornadoBar[]>([]);
+  const [twoWayX, setTwoWayX] = useState<TwoWayAxis>({ parameter: 'dieselPrice', min: 1, max: 2, step: 0.5 });
+  const [twoWayY, setTwoWayY] = useState<TwoWayAxis>({ parameter: 'batteryCapacityMWh', min: 20, max: 60, step: 20 });
+  const [twoWayResults, setTwoWayResults] = useState<{ x: SensitivityParameter, y: SensitivityParameter, cells: TwoWayCell[] } | null>(null);
+  const [isSensitivityRunning, setIsSensitivityRunning] = useState<boolean>(false);
+
+  // Monte Carlo: restriction scenarios generated from a model fitted to the uploaded profile
+  const [monteCarloScenarios, setMonteCarloScenarios] = useState<number>(20);
+  const [monteCarloSeed, setMonteCarloSeed] = useState<number>(42);
+  const [monteCarloResults, setMonteCarloResults] = useState<{ model: RestrictionModel, scenarios: number, seed: number, years: MonteCarloYear[] } | null>(null);
+  const [isMonteCarloRunning, setIsMonteCarloRunning] = useState<boolean>(false);
+
+  // Named scenarios: stored settings plus references to the profiles they were made with
+  const [profileSources, setProfileSources] = useState<Partial<Record<CsvType, ProfileReference>>>({});
+  const [savedScenarios, setSavedScenarios] = useState<SavedScenario[]>([]);
+  const [scenarioName, setScenarioName] = useState<string>('');
+  const [comparedScenarioIds, setComparedScenarioIds] = useState<string[]>([]);
+  const [scenarioMetric, setScenarioMetric] = useState<ScenarioMetric>('netExtraCost');
+  const [scenarioComparison, setScenarioComparison] = useState<{ id: string, name: string, years: YearlyResult[] }[]>([]);
+  const [isComparisonRunning, setIsComparisonRunning] = useState<boolean>(false);
+
+  // Current grid contract against the uploaded CSC profile, on request
+  const [contractComparison, setContractComparison] = useState<{ csc: YearlyResult[], contract: YearlyResult[] } | null>(null);
+  const [isContractComparisonRunning, setIsContractComparisonRunning] = useState<boolean>(false);
+
+  // Datacenter size sensitivity of the selected year, on request
+  const [capacitySensitivity, setCapacitySensitivity] = useState<{ year: number, rows: CapacitySensitivityResult[] } | null>(null);
+  const [isCapacitySensitivityRunning, setIsCapacitySensitivityRunning] = useState<boolean>(false);
+
+  // Dispatch strategies compared on the selected year, on request
+  const [dispatchComparison, setDispatchComparison] = useState<{ year: number, rows: DispatchComparisonResult[] } | null>(null);
+  const [isDispatchComparisonRunning, setIsDispatchComparisonRunning] = useState<boolean>(false);
+
+  // Investment case: the no-battery baseline it compares against, simulated on request
+  const [baselineRun, setBaselineRun] = useState<{ key: string, years: YearlyResult[] } | null>(null);
+  const [isBaselineRunning, setIsBaselineRunning] = useState<boolean>(false);
+
+  // Export of the simulation per step, monthly stats, events and the multi-year table
+  const [exportScope, setExportScope] = useState<'year' | 'all'>('year');
+  const [exportCsvTable, setExportCsvTable] = useState<number>(0);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  const availableYears = useMemo(() => [2024, 2025, 2026, 2027, 2028, 2029, 2030, 2031, 2032, 2033, 2034, 2035, 2036], []); 
   
   // --- AUTO LOAD LOGIC ---
   useEffect(() => {
-    // FORCE RELOAD WITH NEW KEY _v8 (Cleaned code version)
-    const storedGrid = localStorage.getItem('bess_grid_csv_v8');
-    const storedSolar = localStorage.getItem('bess_solar_csv_v8');
-    
-    let loaded = false;
-    
-    if (storedGrid) {
-        if (storedGrid.includes("2036-12")) {
-             handleCSVContent(storedGrid, 'grid', false);
-             setIsUsingMockData(false);
-             loaded = true;
-        } else {
-             handleCSVContent(generateMockData(), 'grid', true); 
-             setIsUsingMockData(true);
-             loaded = true;
-        }
-    } else {
-        handleCSVContent(generateMockData(), 'grid', true); 
-        setIsUsingMockData(true);
-        loaded = true;
+    const storedProject = localStorage.getItem(PROJECT_STORAGE_KEY);
+    let loaded: ProjectLoadResult = { error: 'De opgeslagen invoer kon niet worden gelezen.' };
+    try {
+        loaded = migrateProject(storedProject ? JSON.parse(storedProject) : readLegacyStorage());
+    } catch (e) {
+        console.error("Project Parse Error", e);
     }
+    // A damaged project in the browser is not applied; the defaults are used and it is
+    // overwritten with the next change
+    if ('project' in loaded) applyProjectSettings(loaded.project);
+    else setStorageError(`${loaded.error} De standaardinvoer wordt gebruikt.`);
+
+    // Profiles still held as CSV text in localStorage (also those of a legacy project)
+    // move to IndexedDB; the old keys are removed once all of them are stored
+    const csvProfiles = readStoredCsvProfiles();
+    const moved = csvProfiles.map(p => {
+        const data = handleCSVContent(p.csv, p.type, p.fileName, p.unit);
+        return data ? storeProfile(p.type, p.fileName, data) : Promise.resolve(true);
+    });
+    Promise.all(moved).then(results => {
+        if (results.every(Boolean)) clearCsvStorage();
+    });
 
-    if (storedSolar) {
-        handleCSVContent(storedSolar, 'solar', false);
-    }
-    
-    if (loaded) setHasLoadedFromStorage(true);
+    const loadStoredProfiles = async () => {
+        let hasGrid = csvProfiles.some(p => p.type === 'grid');
+        try {
+            const infos = await listProfiles();
+            setStoredProfiles(prev => [...infos.filter(i => !prev.some(p => p.id === i.id)), ...prev]);
+            for (const info of infos) {
+                if (csvProfiles.some(p => p.type === info.type) || activeProfileIds[info.type] !== info.id) continue;
+                if (await activateStoredProfile(info) && info.type === 'grid') hasGrid = true;
+            }
+        } catch (e) {
+            console.error("Profile Storage Error", e);
+            setStorageError(`De opgeslagen profielen konden niet worden gelezen (${e instanceof Error ? e.message : String(e)}).`);
+        }
+        if (!hasGrid) handleCSVContent(generateMockData(), 'grid', 'Voorbeelddata');
+        setIsUsingMockData(!hasGrid);
+        if ('project' in loaded && loaded.project.settings.baseSolarMWp !== undefined) setShowSolarWarning(false);
+        refreshStorageEstimate();
+        setHasLoadedFromStorage(true);
+    };
+    loadStoredProfiles();
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_PROFILES_KEY, JSON.stringify(activeProfileIds));
+  }, [activeProfileIds]);
+
   // Update DC Capacity based on selected year relative to start year
   useEffect(() => {
-    let newCap = 0;
-    if (selectedYear < startYear) {
-        newCap = 0;
-    } else {
-        const offset = selectedYear - startYear;
-        if (offset === 0) newCap = growthProfile[0];
-        else if (offset === 1) newCap = growthProfile[1];
-        else if (offset === 2) newCap = growthProfile[2];
-        else newCap = growthProfile[3];
-    }
-    setDcCapacityMW(newCap);
+    setDcCapacityMW(getDcCapacityForYear(selectedYear, startYear, growthProfile));
   }, [selectedYear, startYear, growthProfile]);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>, type: 'grid' | 'solar') => {
+  // Opens the import dialog with the detected layout, or with the settings last used
+  // for a file with the same columns
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>, type: CsvType) => {
     const file = event.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (e) => {
-      const content = e.target?.result as string;
-      handleCSVContent(content, type, true); 
-      if (type === 'grid') setIsUsingMockData(false);
+      const lines = splitCsvLines(e.target?.result as string);
+      const detected = detectCsvOptions(lines, type);
+      const signature = getCsvSignature(lines, detected, type);
+      const remembered = readCsvMappings()[signature];
+      // Rows come from the detection, as metadata above the data can vary between exports
+      const options = remembered ? { ...detected, ...remembered, headerRow: detected.headerRow, firstDataRow: detected.firstDataRow } : detected;
+      setCsvImport({ type, fileName: file.name, lines, signature, remembered: !!remembered, options });
     };
     event.target.value = '';
     reader.readAsText(file);
   };
 
-  const handleHardReset = () => {
+  const updateCsvImport = (changes: Partial<CsvImportOptions>) => {
+      setCsvImport(prev => prev && { ...prev, options: { ...prev.options, ...changes } });
+  };
+
+  const handleConfirmCsvImport = () => {
+      if (!csvImport || !csvImportPreview) return;
+      const { type, fileName, signature, options } = csvImport;
+      const data = toProfileData(csvImportPreview.parsed.times, csvImportPreview.parsed.columns);
+      applyProfileData(type, data, fileName);
+      storeProfile(type, fileName, data);
+      if (type === 'grid') setIsUsingMockData(false);
+      localStorage.setItem(CSV_MAPPINGS_KEY, JSON.stringify({ ...readCsvMappings(), [signature]: options }));
+      setCsvImport(null);
+      setShowQualityReport(true);
+  };
+
+  const handleHardReset = async () => {
       // Clear all versions of keys to be safe
       Object.keys(localStorage).forEach(key => {
           if (key.startsWith('bess_')) localStorage.removeItem(key);
       });
+      try {
+          await clearProfileStore();
+      } catch (e) {
+          console.error("Profile Storage Error", e);
+      }
       window.location.reload();
   };
 
@@ -688,158 +556,319 @@ const App = () => {
       handleHardReset();
   };
 
-  const handleCSVContent = (csvString: string, type: 'grid' | 'solar', saveToStorage: boolean) => {
+  // Parses a CSV with the detected layout into the typed-array form that is stored and
+  // puts it into use; the caller decides whether to store it. Uploads go through the
+  // import dialog instead, where the layout can be checked first.
+  const handleCSVContent = (csvString: string, type: CsvType, fileName = '', unit = getDefaultUnit(type)): ProfileData | null => {
     try {
-      if (saveToStorage) {
-          localStorage.setItem(type === 'grid' ? 'bess_grid_csv_v8' : 'bess_solar_csv_v8', csvString);
-      }
+      const lines = splitCsvLines(csvString);
+      const parsed = parseCsv(lines, { ...detectCsvOptions(lines, type), unit });
+      const data = toProfileData(parsed.times, parsed.columns);
+      applyProfileData(type, data, fileName);
+      return data;
+    } catch (e) {
+      console.error("CSV Parse Error", e);
+      return null;
+    }
+  };
 
-      const lines = csvString.split(/\r?\n/);
-      let startIndex = 0;
-      if (type === 'solar') {
-          const headerRow = lines.findIndex(l => l.toLowerCase().includes('date') || l.toLowerCase().includes('time') || l.toLowerCase().includes('kwh'));
-          startIndex = headerRow !== -1 ? headerRow + 1 : 0;
-      } else {
-          const headerRow = lines.findIndex(l => l.toLowerCase().includes('datetime') || l.toLowerCase().includes('datum'));
-          startIndex = headerRow !== -1 ? headerRow + 1 : 0;
-      }
-      
-      const parsedGrid: DataPoint[] = [];
-      const parsedSolar: SolarPoint[] = [];
-      
-      for (let i = startIndex; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        const parts = line.includes(';') ? line.split(';') : line.split(','); 
-        if (parts.length < 2) continue;
-        
-        const dateStr = parts[0].trim();
-        const valStr = parts[1].trim();
-        const valNum = parseFloat(valStr.replace(',', '.'));
-        const dateObj = new Date(dateStr);
-        
-        if (!isNaN(valNum) && !isNaN(dateObj.getTime())) {
-            if (type === 'grid') {
-                parsedGrid.push({ datetime: dateObj, limitMW: valNum });
-            } else {
-                const mw = valNum / 1000;
-                parsedSolar.push({ datetime: dateObj, generationMW: mw });
-            }
-        }
-      }
-      
-      if (type === 'grid') setRawData(parsedGrid);
+  const applyProfileData = (type: CsvType, data: ProfileData, fileName: string) => {
+      const dates = Array.from(data.times, t => new Date(t));
+      const [values, afrr] = data.columns;
+      if (type === 'grid') setRawData(dates.map((datetime, i) => ({ datetime, limitMW: values[i] })));
+      else if (type === 'price') setPriceData(dates.map((datetime, i) => ({ datetime, priceEurMWh: values[i] })));
+      else if (type === 'ancillary') setAncillaryPriceData(dates.map((datetime, i) => ({ datetime, fcrEurMWh: values[i], afrrEurMWh: afrr ? afrr[i] : 0 })));
+      // Only the shape of load profiles is used, so their unit does not matter
+      else if (type === 'dcload') setDcLoadData(dates.map((datetime, i) => ({ datetime, loadMW: values[i] })));
+      else if (type === 'logisticsload') setLogisticsLoadData(dates.map((datetime, i) => ({ datetime, loadMW: values[i] })));
+      else if (type === 'emission') setEmissionData(dates.map((datetime, i) => ({ datetime, co2KgPerMWh: values[i] })));
       else {
+          const parsedSolar: SolarPoint[] = dates.map((datetime, i) => ({ datetime, generationMW: values[i] }));
+          parsedSolar.sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
           setSolarData(parsedSolar);
           setShowSolarWarning(true);
       }
+      profileDataRef.current[type] = data;
+      setProfileSources(prev => ({ ...prev, [type]: { type, fileName, rows: data.times.length, fingerprint: getProfileFingerprint(data) } }));
+  };
 
-    } catch (e) {
-      console.error("CSV Parse Error", e);
-    }
+  const refreshStorageEstimate = () => {
+      getStorageEstimate().then(setStorageEstimate).catch(e => console.error("Storage Estimate Error", e));
   };
 
-  const solarScaleFactor = (targetSolarMWp >= 0 && baseSolarMWp > 0) ? targetSolarMWp / baseSolarMWp : 0;
-  const cscEndDate = new Date(cscEndDateStr);
+  // Saves a profile in IndexedDB and makes it the stored profile of its type. A failed
+  // save is reported; the data stays in use until the page is reloaded.
+  const storeProfile = async (type: CsvType, fileName: string, data: ProfileData): Promise<boolean> => {
+      try {
+          const info = await saveProfile(type, fileName, data);
+          setStoredProfiles(prev => [...prev, info]);
+          setActiveProfileIds(prev => ({ ...prev, [type]: info.id }));
+          setStorageError('');
+          return true;
+      } catch (e) {
+          console.error("Profile Storage Error", e);
+          setStorageError(`${PROFILE_LABELS[type]} kon niet in de browser worden opgeslagen (${e instanceof Error ? e.message : String(e)}). De gegevens worden nu wel gebruikt, maar zijn na herladen niet meer beschikbaar.`);
+          return false;
+      } finally {
+          refreshStorageEstimate();
+      }
+  };
+
+  const activateStoredProfile = async (info: StoredProfileInfo): Promise<boolean> => {
+      try {
+          const data = await loadProfile(info.id);
+          if (!data) return false;
+          applyProfileData(info.type, data, info.fileName);
+          setActiveProfileIds(prev => ({ ...prev, [info.type]: info.id }));
+          if (info.type === 'grid') setIsUsingMockData(false);
+          return true;
+      } catch (e) {
+          console.error("Profile Storage Error", e);
+          setStorageError(`${PROFILE_LABELS[info.type]} "${info.fileName}" kon niet uit de browseropslag worden gelezen (${e instanceof Error ? e.message : String(e)}).`);
+          return false;
+      }
+  };
+
+  const handleDeleteStoredProfile = async (info: StoredProfileInfo) => {
+      try {
+          await deleteProfile(info.id);
+          setStoredProfiles(prev => prev.filter(p => p.id !== info.id));
+          // The data stays in use for this session
+          if (activeProfileIds[info.type] === info.id) {
+              setActiveProfileIds(prev => {
+                  const next = { ...prev };
+                  delete next[info.type];
+                  return next;
+              });
+          }
+      } catch (e) {
+          console.error("Profile Storage Error", e);
+          setStorageError(`${PROFILE_LABELS[info.type]} "${info.fileName}" kon niet worden verwijderd.`);
+      }
+      refreshStorageEstimate();
+  };
+
+  const logisticsPeakMW = useMemo(() => getSchedulePeakMW(logisticsSchedule), [logisticsSchedule]);
+  const loadProfiles: LoadProfiles = useMemo(() => ({ dc: dcLoadData, logistics: logisticsLoadData }), [dcLoadData, logisticsLoadData]);
+
+  // All inputs that affect the results, as stored with a saved scenario
+  const currentSettings: ScenarioSettings = useMemo(() => ({
+    startYear,
+    cscEndDateStr,
+    growthProfile,
+    gridCapacitySteps,
+    profileNominalMW,
+    yearFillStrategy,
+    referenceYear,
+    gridContract,
+    batteryCapacityMWh,
+    batteryPowerMW,
+    chargeEfficiency,
+    dischargeEfficiency,
+    minSoCPercent,
+    maxSoCPercent,
+    initialSoCPercent,
+    auxiliaryMW,
+    dispatchStrategy,
+    lookAheadHours,
+    standbySoCPercent,
+    dcUtilizationFactor,
+    logisticsSchedule,
+    loadAlignment,
+    baseSolarMWp,
+    targetSolarMWp,
+    solarAlignment,
+    arbitrageEnabled,
+    priceAlignment,
+    ancillaryProducts,
+    ancillaryBlockHours,
+    ancillaryConflictRule,
+    dieselPrice,
+    electricityPrice,
+    co2PricePerTonne,
+    gensetUnits,
+    gensetRatedMW,
+    gensetMinLoadPercent,
+    gensetFuelCurve,
+    gensetStartFuelL,
+    gensetStartCost,
+    gensetMaintenancePerRunHour,
+    gensetMaxRunHoursPerYear,
+    dieselCo2KgPerL,
+    dieselNoxGPerL,
+    dieselPmGPerL,
+    gridCo2KgPerMWh,
+    emissionAlignment,
+    batteryCapexPerMW,
+    batteryCapexPerMWh,
+    solarCapexPerMWp,
+    solarInInvestment,
+    fixedOpexPercent,
+    variableOpexPerMWh,
+    batteryReplacementYear,
+    batteryReplacementPercent,
+    discountRatePercent,
+    inflationPercent
+  }), [startYear, cscEndDateStr, growthProfile, gridCapacitySteps, profileNominalMW, yearFillStrategy, referenceYear, gridContract, batteryCapacityMWh, batteryPowerMW, chargeEfficiency, dischargeEfficiency, minSoCPercent, maxSoCPercent, initialSoCPercent, auxiliaryMW, dispatchStrategy, lookAheadHours, standbySoCPercent, dcUtilizationFactor, logisticsSchedule, loadAlignment, baseSolarMWp, targetSolarMWp, solarAlignment, arbitrageEnabled, priceAlignment, ancillaryProducts, ancillaryBlockHours, ancillaryConflictRule, dieselPrice, electricityPrice, co2PricePerTonne, gensetUnits, gensetRatedMW, gensetMinLoadPercent, gensetFuelCurve, gensetStartFuelL, gensetStartCost, gensetMaintenancePerRunHour, gensetMaxRunHoursPerYear, dieselCo2KgPerL, dieselNoxGPerL, dieselPmGPerL, gridCo2KgPerMWh, emissionAlignment, batteryCapexPerMW, batteryCapexPerMWh, solarCapexPerMWp, solarInInvestment, fixedOpexPercent, variableOpexPerMWh, batteryReplacementYear, batteryReplacementPercent, discountRatePercent, inflationPercent]);
+
+  // Shared engine inputs; the grid and DC capacity are filled in per year or per scenario.
+  const multiYearParams: MultiYearParams = useMemo(() => getMultiYearParams(currentSettings), [currentSettings]);
+  const financeParams: FinanceParams = useMemo(() => getFinanceParams(currentSettings), [currentSettings]);
+  const { solarScaleFactor, cscEndDate } = multiYearParams;
+
+  // Inputs and scenarios are stored as a project without profiles (those have their own keys)
+  useEffect(() => {
+    if (!hasLoadedFromStorage) return;
+    localStorage.setItem(PROJECT_STORAGE_KEY, JSON.stringify(createProjectFile(currentSettings, [], savedScenarios)));
+  }, [currentSettings, savedScenarios, hasLoadedFromStorage]);
+
+  const selectedGrid: GridCapacity = useMemo(() => getGridCapacityForYear(selectedYear, gridCapacitySteps), [selectedYear, gridCapacitySteps]);
+  const maxConnectionMW = Math.max(...gridCapacitySteps.map(s => s.connectionMW), 0);
 
   const stats: AnalysisResult = useMemo(() => {
-    const yearData = getYearDataOrFallback(selectedYear, rawData);
-    return runSimulation(yearData, solarData, dcCapacityMW, batteryCapacityMWh, batteryPowerMW, dcUtilizationFactor, logisticsMW, logisticsStartHour, logisticsEndHour, solarScaleFactor, cscEndDate);
-  }, [rawData, solarData, selectedYear, dcCapacityMW, batteryCapacityMWh, batteryPowerMW, dcUtilizationFactor, logisticsMW, logisticsStartHour, logisticsEndHour, solarScaleFactor, cscEndDate]);
+    const yearData = getGridYearData(selectedYear, rawData, multiYearParams, solarData, loadProfiles).rows;
+    return runSimulation(yearData, solarData, { ...multiYearParams, ...selectedGrid, dcCapacityMW }, priceData, ancillaryPriceData, loadProfiles, emissionData, selectedYear);
+  }, [rawData, solarData, priceData, ancillaryPriceData, loadProfiles, emissionData, selectedYear, dcCapacityMW, multiYearParams, selectedGrid]);
 
   const multiYearStats: YearlyResult[] = useMemo(() => {
-    if (rawData.length === 0) return [];
-    
-    const filteredYears = availableYears.filter(y => y >= startYear);
+    return runMultiYear(availableYears, rawData, solarData, multiYearParams, priceData, ancillaryPriceData, loadProfiles, emissionData);
+  }, [rawData, solarData, priceData, ancillaryPriceData, loadProfiles, emissionData, availableYears, multiYearParams]);
 
-    return filteredYears.map(year => {
-        const yearData = getYearDataOrFallback(year, rawData);
-        
-        let cap = 0;
-        if (year < startYear) {
-            cap = 0;
-        } else {
-            const offset = year - startYear;
-            if (offset === 0) cap = growthProfile[0];
-            else if (offset === 1) cap = growthProfile[1];
-            else if (offset === 2) cap = growthProfile[2];
-            else cap = growthProfile[3];
-        }
+  // Same horizon without the battery (and without solar when it is part of the investment).
+  // The baseline is simulated on request; it stays valid while its own inputs are unchanged,
+  // so battery size and finance edits reuse it.
+  const baselineParams = useMemo(() => getBaselineParams(multiYearParams, solarInInvestment), [multiYearParams, solarInInvestment]);
+  const baselineKey = useMemo(() => JSON.stringify({ years: availableYears, params: baselineParams }), [availableYears, baselineParams]);
 
-        const res = runSimulation(yearData, solarData, cap, batteryCapacityMWh, batteryPowerMW, dcUtilizationFactor, logisticsMW, logisticsStartHour, logisticsEndHour, solarScaleFactor, cscEndDate);
-        
-        const totalMissedMWh = res.loadDeficitMWhWithBat;
-        const totalMissedKWh = totalMissedMWh * 1000;
-        const dieselLiters = totalMissedKWh / (dieselKwhPerLiter || 1); 
-        const grossDieselCost = dieselLiters * dieselPrice;
-        const avoidedGridCost = totalMissedMWh * electricityPrice;
-        const netExtraCost = grossDieselCost - avoidedGridCost;
-        
-        const dieselPercentage = res.totalLoadConsumption > 0 ? (res.loadDeficitMWhWithBat / res.totalLoadConsumption) * 100 : 0;
-        
-        const maxTradingVolume = 8760 * batteryPowerMW; 
-        const tradingVolumePercent = maxTradingVolume > 0 ? (res.tradingVolumePotentialMWh / maxTradingVolume) * 100 : 0;
-
-        const connectionMax = 10; 
-        const dcActual = cap * (dcUtilizationFactor / 100);
-        const logisticsActual = year >= startYear ? logisticsMW : 0;
-        
-        const capLogisticsMW = logisticsActual;
-        const capDcActualMW = dcActual;
-        const capBatterySpaceMW = Math.max(0, connectionMax - logisticsActual - dcActual);
-        const capDcContractMW = cap;
-
-        return {
-            year,
-            dcDeficitWithBat: res.loadDeficitMWhWithBat,
-            totalHoursRestricted: res.totalHoursRestricted,
-            totalMWhRestricted: res.totalMWhRestrictedGrid, 
-            cscPercentage: res.curtailmentPercentageVolume, 
-            dcCapacityUsed: cap,
-            grossDieselCost,
-            avoidedGridCost,
-            netExtraCost,
-            dieselLiters, 
-            solarSelfConsumption: res.totalSolarUsed,
-            totalSolarGeneration: res.totalSolarGeneration,
-            totalLoadConsumption: res.totalLoadConsumption,
-            deficitAfterSolar: res.deficitAfterSolar,
-            restrictedVolumeLoad: res.restrictedVolumeLoad,
-            dieselPercentage,
-            tradingVolumePotentialMWh: res.tradingVolumePotentialMWh,
-            tradingVolumePercent,
-            totalGridToLoad: res.totalGridToLoad,
-            totalSolarToLoad: res.totalSolarToLoad,
-            totalBatToLoad: res.totalBatToLoad,
-            capLogisticsMW,
-            capDcActualMW,
-            capBatterySpaceMW,
-            capDcContractMW
-        };
-    });
-  }, [rawData, solarData, availableYears, startYear, growthProfile, batteryCapacityMWh, batteryPowerMW, dcUtilizationFactor, dieselKwhPerLiter, dieselPrice, electricityPrice, logisticsMW, logisticsStartHour, logisticsEndHour, solarScaleFactor, cscEndDate]);
-
-  // SENSITIVITY ANALYSIS DATA
-  const capacitySensitivityData: CapacitySensitivityResult[] = useMemo(() => {
-      if (rawData.length === 0) return [];
-      const yearData = getYearDataOrFallback(selectedYear, rawData);
-
-      const caps = [2, 3, 4, 5, 6, 7];
-      return caps.map(cap => {
-          const res = runSimulation(yearData, solarData, cap, batteryCapacityMWh, batteryPowerMW, dcUtilizationFactor, logisticsMW, logisticsStartHour, logisticsEndHour, solarScaleFactor, cscEndDate);
-          const totalMissedMWh = res.loadDeficitMWhWithBat;
-          const totalMissedKWh = totalMissedMWh * 1000;
-          const grossDieselCost = (totalMissedKWh / (dieselKwhPerLiter || 1)) * dieselPrice;
-          const avoidedGridCost = totalMissedMWh * electricityPrice;
-          return {
-              capacityMW: cap,
-              deficitMWh: totalMissedMWh,
-              netExtraCost: grossDieselCost - avoidedGridCost,
-              tradingHours: res.tradingHoursAvailable,
-              tradingVolume: res.tradingVolumePotentialMWh 
-          };
+  useEffect(() => {
+    setBaselineRun(null);
+  }, [rawData, solarData, priceData, ancillaryPriceData, loadProfiles, emissionData]);
+
+  const investmentCase: InvestmentCase | null = useMemo(() => (
+    baselineRun && baselineRun.key === baselineKey
+      ? buildInvestmentCase(multiYearStats, baselineRun.years, { batteryPowerMW, batteryCapacityMWh, solarMWp: targetSolarMWp }, financeParams)
+      : null
+  ), [multiYearStats, baselineRun, baselineKey, batteryPowerMW, batteryCapacityMWh, targetSolarMWp, financeParams]);
+
+  // Sizing heatmap for one solar size: rows are energy (MWh), columns power (MW), with a
+  // 0-1 score per cell from the worst to the best value of the selected metric
+  const sizingHeatmap = useMemo(() => {
+      const points = sizingResults.filter(p => p.solarMWp === sizingSolarView);
+      const powers = Array.from(new Set(points.map(p => p.batteryPowerMW))).sort((a, b) => a - b);
+      const capacities = Array.from(new Set(points.map(p => p.batteryCapacityMWh))).sort((a, b) => a - b);
+      const values = points.map(p => p[sizingMetric]);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      const score = (p: SizingPoint) => {
+          if (max <= min) return 1;
+          return sizingMetric === 'npv' ? (p.npv - min) / (max - min) : (max - p[sizingMetric]) / (max - min);
+      };
+      const rows = capacities.map(capacityMWh => ({
+          capacityMWh,
+          cells: powers.map(powerMW => {
+              const point = points.find(p => p.batteryPowerMW === powerMW && p.batteryCapacityMWh === capacityMWh);
+              return point ? { point, score: score(point) } : null;
+          })
+      }));
+      return { powers, rows };
+  }, [sizingResults, sizingSolarView, sizingMetric]);
+
+  const currentProfiles: ProfileReference[] = useMemo(() => (
+      Object.values(profileSources).filter((p): p is ProfileReference => !!p)
+  ), [profileSources]);
+
+  // The whole file is parsed again on every change, so the dialog shows what will be loaded
+  const csvImportPreview = useMemo(() => {
+      if (!csvImport) return null;
+      const { lines, options } = csvImport;
+      const parsed = parseCsv(lines, options);
+      const header = options.headerRow >= 0 ? splitCsvLine(lines[options.headerRow] || '', options.delimiter) : [];
+      const rawRows = lines.slice(Math.max(0, options.firstDataRow), options.firstDataRow + 50).filter(l => l.trim()).slice(0, 6).map(l => splitCsvLine(l, options.delimiter));
+      const columnCount = Math.max(header.length, ...rawRows.map(r => r.length));
+      const columnNames = Array.from({ length: columnCount }, (_, c) => header[c] || `Kolom ${c + 1}`);
+      let first = Infinity;
+      let last = -Infinity;
+      let peak = -Infinity;
+      parsed.times.forEach((t, i) => {
+          first = Math.min(first, t);
+          last = Math.max(last, t);
+          peak = Math.max(peak, parsed.columns[0][i]);
+      });
+      return { parsed, columnNames, rawRows, first, last, peak };
+  }, [csvImport]);
+
+  // Quality of every loaded profile; grid limits above the largest connection are flagged
+  const qualityReports = useMemo(() => currentProfiles.flatMap(source => {
+      const data = profileDataRef.current[source.type];
+      if (!data) return [];
+      const report: DataQualityReport = analyzeProfileQuality(data.times, data.columns[0], source.type === 'grid' ? maxConnectionMW : null);
+      const issues = report.gapCount + report.duplicateRows + report.unsortedRows + report.dstAnomalies.length + report.negativeRows + report.aboveLimitRows;
+      return [{ source, report, issues }];
+  }), [currentProfiles, maxConnectionMW]);
+
+  // Scenario comparison: one row per year with the selected metric of every scenario
+  // (keyed by id) and its difference to the first, reference scenario
+  const scenarioComparisonTable = useMemo(() => {
+      const years = Array.from(new Set(scenarioComparison.flatMap(c => c.years.map(y => y.year)))).sort((a, b) => a - b);
+      const valueOf = (index: number, year: number) => scenarioComparison[index].years.find(y => y.year === year)?.[scenarioMetric];
+      const rows = years.map(year => {
+          const values = scenarioComparison.map((_, i) => valueOf(i, year));
+          const row: Record<string, number> = { year };
+          scenarioComparison.forEach(({ id }, i) => {
+              if (values[i] !== undefined) row[id] = values[i] as number;
+          });
+          return { year, values, deltas: values.map(v => v !== undefined && values[0] !== undefined ? v - values[0] : undefined), row };
       });
-  }, [rawData, solarData, selectedYear, batteryCapacityMWh, batteryPowerMW, dcUtilizationFactor, dieselKwhPerLiter, dieselPrice, electricityPrice, logisticsMW, logisticsStartHour, logisticsEndHour, solarScaleFactor, cscEndDate]);
+      const totals = scenarioComparison.map(c => c.years.reduce((sum, y) => sum + y[scenarioMetric], 0));
+      return { rows, totals, chartData: rows.map(r => r.row) };
+  }, [scenarioComparison, scenarioMetric]);
+
+  // Multi-year rows with the Monte Carlo bands (P10-P90 as [low, high]) once they are computed
+  const multiYearChartData = useMemo(() => multiYearStats.map(stat => {
+      const mc = monteCarloResults?.years.find(y => y.year === stat.year);
+      if (!mc) return stat;
+      return {
+          ...stat,
+          mcDeficitBand: [mc.deficitMWh.p10, mc.deficitMWh.p90],
+          mcDeficitP50: mc.deficitMWh.p50,
+          mcCostBand: [mc.netExtraCost.p10, mc.netExtraCost.p90],
+          mcCostP50: mc.netExtraCost.p50,
+          mcDieselBand: [mc.dieselLiters.p10, mc.dieselLiters.p90],
+          mcDieselP50: mc.dieselLiters.p50
+      };
+  }), [multiYearStats, monteCarloResults]);
+
+  // Tornado bars as change against the current configuration (same horizon as multiYearStats)
+  const tornadoChartData = useMemo(() => {
+      const base = multiYearStats.reduce((sum, y) => sum + (sensitivityMetric === 'netExtraCost' ? y.netExtraCost : y.dcDeficitWithBat), 0);
+      return tornadoResults
+          .map(bar => ({
+              label: `${getSensitivityLabel(bar.parameter)} [${bar.low} – ${bar.high}]`,
+              lowDelta: bar.atLow[sensitivityMetric] - base,
+              highDelta: bar.atHigh[sensitivityMetric] - base
+          }))
+          .sort((a, b) => Math.abs(b.highDelta - b.lowDelta) - Math.abs(a.highDelta - a.lowDelta));
+  }, [tornadoResults, multiYearStats, sensitivityMetric]);
+
+  // Two-way sweep as a table (rows y, columns x) with a 0-1 score from worst to best
+  const twoWayTable = useMemo(() => {
+      if (!twoWayResults) return null;
+      const { cells } = twoWayResults;
+      const xs = Array.from(new Set(cells.map(c => c.x)));
+      const ys = Array.from(new Set(cells.map(c => c.y)));
+      const values = cells.map(c => c[sensitivityMetric]);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      const rows = ys.map(y => ({
+          y,
+          cells: xs.map(x => {
+              const cell = cells.find(c => c.x === x && c.y === y);
+              return cell ? { cell, score: max > min ? (max - cell[sensitivityMetric]) / (max - min) : 1 } : null;
+          })
+      }));
+      return { xLabel: getSensitivityLabel(twoWayResults.x), yLabel: getSensitivityLabel(twoWayResults.y), xs, rows };
+  }, [twoWayResults, sensitivityMetric]);
+
 
 
   // Robust formatting functions
@@ -854,21 +883,32 @@ const App = () => {
     return n.toLocaleString('nl-NL', { minimumFractionDigits: digits, maximumFractionDigits: digits });
   };
 
+  // Timestamps are UTC instants; always show them in Dutch local time
+  const fmtDateTime = (d: Date) => d.toLocaleString('nl-NL', { timeZone: TIME_ZONE, day: 'numeric', month: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
   const fmtEuro = (n: number | undefined | null) => {
     if (n == null || isNaN(n)) return '€0';
     return n.toLocaleString('nl-NL', { style: 'currency', currency: 'EUR', minimumFractionDigits: 0, maximumFractionDigits: 0 });
   };
 
+  // Year axis label with the badge of years whose grid profile is not fully measured
+  const fmtYearTick = (year: number) => {
+      const stat = multiYearStats.find(y => y.year === year);
+      const short = stat ? YEAR_STATUS_LABELS[stat.dataStatus].short : '';
+      return short ? `${year} (${short})` : String(year);
+  };
+
+  const fmtBytes = (bytes: number) => `${(bytes / 1024 / 1024).toLocaleString('nl-NL', { maximumFractionDigits: 1 })} MB`;
+
+  const fmtScenarioValue = (v: number) => scenarioMetric === 'netExtraCost' ? fmtEuro(v) : Math.round(v).toLocaleString('nl-NL');
+  const fmtScenarioDelta = (v: number) => `${v > 0 ? '+' : ''}${fmtScenarioValue(v)}`;
+
   // Current year diesel stats
-  const totalMissedKWh = stats.loadDeficitMWhWithBat * 1000;
-  const dieselLitersNeeded = totalMissedKWh / (dieselKwhPerLiter || 1);
-  const grossDieselCost = dieselLitersNeeded * dieselPrice;
-  const avoidedGridCost = stats.loadDeficitMWhWithBat * electricityPrice;
-  const netExtraCost = grossDieselCost - avoidedGridCost;
+  const { grossDieselCost, lostLoadCost, avoidedGridCost, netExtraCost } = calculateDieselCost(stats, multiYearParams);
   const effectiveMW = dcCapacityMW * (dcUtilizationFactor / 100);
 
   // Trading percentages
-  const maxTradingVolume = 8760 * batteryPowerMW; 
+  const maxTradingVolume = hoursInYear(selectedYear) * batteryPowerMW; 
   const tradingVolumePercent = (stats.tradingVolumePotentialMWh / maxTradingVolume) * 100;
 
   // Energy Mix Data for Chart (Stacked)
@@ -879,6 +919,12 @@ const App = () => {
       'Direct Zon': stats.totalSolarToLoad,
       'Uit Batterij': stats.totalBatToLoad,
       'Diesel/Tekort': stats.loadDeficitMWhWithBat,
+    },
+    {
+      name: 'Batterijverliezen',
+      'Laadverlies': stats.chargeLossMWh,
+      'Ontlaadverlies': stats.dischargeLossMWh,
+      'Hulpverbruik': stats.auxiliaryLossMWh,
     }
   ];
 
@@ -982,9 +1028,6 @@ const App = () => {
 
   const handleDownloadProject = async () => {
     try {
-      // @ts-ignore
-      const { default: JSZip } = await import('https://cdn.skypack.dev/jszip');
-      
       const zip = new JSZip();
       
       // 1. package.json
@@ -999,6 +1042,7 @@ const App = () => {
           "preview": "vite preview"
         },
         "dependencies": {
+          "jszip": "^3.10.2",
           "lucide-react": "^0.294.0",
           "react": "^18.2.0",
           "react-dom": "^18.2.0",
@@ -1102,49 +1146,483 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
 // 3. Plak het hier (vervang alles in dit bestand).
 // 4. Push naar GitHub en Vercel doet de rest.
 
-import React from 'react';
+import React from 'react';
+
+export default function App() {
+  return (
+    <div style={{fontFamily: 'sans-serif', textAlign: 'center', padding: '50px'}}>
+      <h1>Klaar voor Vercel!</h1>
+      <p>Je hebt het project gedownload.</p>
+      <p style={{color: 'red', fontWeight: 'bold'}}>
+        Vergeet niet de code uit de editor in dit bestand (src/App.tsx) te plakken voordat je naar GitHub uploadt!
+      </p>
+    </div>
+  );
+}`;
+      zip.file("src/App.tsx", placeholderApp);
+
+      // Generate blob
+      const content = await zip.generateAsync({ type: "blob" });
+      
+      // Trigger download
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(content);
+      link.download = `bess-analysis-${selectedYear}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+    } catch (error) {
+      console.error("Failed to create zip:", error);
+      alert(`Kon het ZIP-archief niet maken. ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleInputChange = (setter: (v: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = e.target.value;
+      setter(val === '' ? 0 : Number(val));
+      if (setter === setBaseSolarMWp) setShowSolarWarning(false);
+  };
+  
+  const handleGrowthChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = Number(e.target.value);
+      const newProfile = [...growthProfile];
+      newProfile[index] = val;
+      setGrowthProfile(newProfile);
+  };
+
+  const handleGridStepChange = (index: number, field: keyof GridCapacityStep) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = Number(e.target.value);
+      setGridCapacitySteps(gridCapacitySteps.map((step, i) => i === index ? { ...step, [field]: val } : step));
+  };
+
+  const handleContractChange = (field: 'guaranteedMW' | 'maxActivationsPerYear' | 'maxHoursPerYear' | 'leadTimeHours' | 'availabilityPercent') => (e: React.ChangeEvent<HTMLInputElement>) => {
+      setGridContract({ ...gridContract, [field]: Number(e.target.value) });
+  };
+
+  const updateContractWindow = (index: number, update: Partial<ContractWindow>) => {
+      setGridContract({ ...gridContract, windows: gridContract.windows.map((w, i) => i === index ? { ...w, ...update } : w) });
+  };
+
+  const toggleListValue = (list: number[], value: number) =>
+      list.includes(value) ? list.filter(v => v !== value) : [...list, value].sort((a, b) => a - b);
+
+  const handleAncillaryChange = (index: number, field: 'powerMW' | 'capacityPriceEurMWh' | 'headroomHours') => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = Number(e.target.value);
+      setAncillaryProducts(ancillaryProducts.map((p, i) => i === index ? { ...p, [field]: val } : p));
+  };
+
+  const updateShifts = (day: number | 'holiday', update: (shifts: LogisticsShift[]) => LogisticsShift[]) => {
+      if (day === 'holiday') {
+          setLogisticsSchedule({ ...logisticsSchedule, holiday: update(logisticsSchedule.holiday) });
+      } else {
+          setLogisticsSchedule({ ...logisticsSchedule, weekdays: logisticsSchedule.weekdays.map((shifts, i) => i === day ? update(shifts) : shifts) });
+      }
+  };
+
+  const handleShiftChange = (day: number | 'holiday', index: number, field: keyof LogisticsShift) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = Number(e.target.value);
+      updateShifts(day, shifts => shifts.map((shift, i) => i === index ? { ...shift, [field]: val } : shift));
+  };
+
+  // Copies the Monday shifts to Tuesday through Friday
+  const handleCopyMondaySchedule = () => {
+      const monday = logisticsSchedule.weekdays[1];
+      setLogisticsSchedule({ ...logisticsSchedule, weekdays: logisticsSchedule.weekdays.map((shifts, i) => i >= 2 && i <= 5 ? monday.map(s => ({ ...s })) : shifts) });
+  };
+
+  const handleSizingRangeChange = (range: SizingRange, setter: (r: SizingRange) => void, field: keyof SizingRange) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      setter({ ...range, [field]: Number(e.target.value) });
+  };
+
+  const handleRunSizing = () => {
+      setIsSizingRunning(true);
+      // Let the busy state render before the sweep blocks the main thread
+      setTimeout(() => {
+          const grid: SizingGrid = {
+              powerMW: getRangeValues(sizingPowerRange),
+              capacityMWh: getRangeValues(sizingCapacityRange),
+              solarMWp: sizingSolarEnabled ? getRangeValues(sizingSolarRange) : [targetSolarMWp]
+          };
+          setSizingResults(runSizingSweep(grid, availableYears, rawData, solarData, multiYearParams, financeParams, baseSolarMWp, priceData, ancillaryPriceData, loadProfiles, emissionData));
+          setSizingSolarView(grid.solarMWp[0]);
+          setIsSizingRunning(false);
+      }, 50);
+  };
+
+  const handleSensitivityRangeChange = (index: number, field: 'low' | 'high') => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = Number(e.target.value);
+      setSensitivityRanges(sensitivityRanges.map((r, i) => i === index ? { ...r, [field]: val } : r));
+  };
+
+  const handleTwoWayAxisChange = (axis: TwoWayAxis, setter: (a: TwoWayAxis) => void, field: keyof SizingRange) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      setter({ ...axis, [field]: Number(e.target.value) });
+  };
+
+  const handleTwoWayParameterChange = (setter: (a: TwoWayAxis) => void) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const option = SENSITIVITY_PARAMETERS.find(p => p.key === e.target.value) || SENSITIVITY_PARAMETERS[0];
+      setter({ parameter: option.key, min: option.low, max: option.high, step: (option.high - option.low) / 2 });
+  };
+
+  const handleRunSensitivity = (mode: 'tornado' | 'twoway') => {
+      setIsSensitivityRunning(true);
+      // Let the busy state render before the runs block the main thread
+      setTimeout(() => {
+          if (mode === 'tornado') {
+              setTornadoResults(runTornado(sensitivityRanges, availableYears, rawData, solarData, multiYearParams, baseSolarMWp, priceData, ancillaryPriceData, loadProfiles, emissionData));
+          } else {
+              const cells = runTwoWaySweep(
+                  { parameter: twoWayX.parameter, values: getRangeValues(twoWayX) },
+                  { parameter: twoWayY.parameter, values: getRangeValues(twoWayY) },
+                  availableYears, rawData, solarData, multiYearParams, baseSolarMWp, priceData, ancillaryPriceData, loadProfiles, emissionData
+              );
+              setTwoWayResults({ x: twoWayX.parameter, y: twoWayY.parameter, cells });
+          }
+          setIsSensitivityRunning(false);
+      }, 50);
+  };
+
+  const handleRunMonteCarlo = () => {
+      setIsMonteCarloRunning(true);
+      // Let the busy state render before the scenarios block the main thread
+      setTimeout(() => {
+          const model = fitRestrictionModel(rawData, profileNominalMW);
+          const scenarios = Math.max(1, Math.round(monteCarloScenarios));
+          const years = runMonteCarlo(model, scenarios, monteCarloSeed, availableYears, solarData, multiYearParams, priceData, ancillaryPriceData, loadProfiles, emissionData);
+          setMonteCarloResults({ model, scenarios, seed: monteCarloSeed, years });
+          setIsMonteCarloRunning(false);
+      }, 50);
+  };
+
+  const handleSaveScenario = () => {
+      const name = scenarioName.trim() || `Scenario ${savedScenarios.length + 1}`;
+      const scenario: SavedScenario = { id: `${Date.now()}-${savedScenarios.length}`, name, createdAt: new Date().toISOString(), settings: currentSettings, profiles: currentProfiles };
+      setSavedScenarios([...savedScenarios, scenario]);
+      setScenarioName('');
+  };
+
+  // Overwrites a scenario with the current inputs (edit: load, change, update)
+  const handleUpdateScenario = (id: string) => {
+      setSavedScenarios(savedScenarios.map(s => s.id === id ? { ...s, settings: currentSettings, profiles: currentProfiles } : s));
+  };
+
+  const handleDuplicateScenario = (scenario: SavedScenario) => {
+      const copy: SavedScenario = { ...scenario, id: `${Date.now()}-${savedScenarios.length}`, name: `${scenario.name} (kopie)`, createdAt: new Date().toISOString() };
+      setSavedScenarios([...savedScenarios, copy]);
+  };
+
+  const handleRenameScenario = (id: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      setSavedScenarios(savedScenarios.map(s => s.id === id ? { ...s, name: e.target.value } : s));
+  };
+
+  const handleDeleteScenario = (id: string) => {
+      setSavedScenarios(savedScenarios.filter(s => s.id !== id));
+      setComparedScenarioIds(comparedScenarioIds.filter(c => c !== id));
+      setScenarioComparison(scenarioComparison.filter(c => c.id !== id));
+  };
+
+  const handleToggleCompared = (id: string) => {
+      setComparedScenarioIds(comparedScenarioIds.includes(id) ? comparedScenarioIds.filter(c => c !== id) : [...comparedScenarioIds, id]);
+  };
+
+  // Puts the stored settings back into the inputs
+  const applySettings = (settings: ScenarioSettings) => {
+      setStartYear(settings.startYear);
+      setCscEndDateStr(settings.cscEndDateStr);
+      setGrowthProfile(settings.growthProfile);
+      setGridCapacitySteps(settings.gridCapacitySteps);
+      setProfileNominalMW(settings.profileNominalMW);
+      setYearFillStrategy(settings.yearFillStrategy);
+      setReferenceYear(settings.referenceYear);
+      // Contracts saved before a field existed keep its current value
+      setGridContract({ ...gridContract, ...settings.gridContract });
+      setBatteryCapacityMWh(settings.batteryCapacityMWh);
+      setBatteryPowerMW(settings.batteryPowerMW);
+      setChargeEfficiency(settings.chargeEfficiency);
+      setDischargeEfficiency(settings.dischargeEfficiency);
+      setMinSoCPercent(settings.minSoCPercent);
+      setMaxSoCPercent(settings.maxSoCPercent);
+      setInitialSoCPercent(settings.initialSoCPercent);
+      setAuxiliaryMW(settings.auxiliaryMW);
+      setDispatchStrategy(settings.dispatchStrategy);
+      setLookAheadHours(settings.lookAheadHours);
+      setStandbySoCPercent(settings.standbySoCPercent);
+      setDcUtilizationFactor(settings.dcUtilizationFactor);
+      setLogisticsSchedule(settings.logisticsSchedule);
+      setLoadAlignment(settings.loadAlignment);
+      setBaseSolarMWp(settings.baseSolarMWp);
+      setTargetSolarMWp(settings.targetSolarMWp);
+      setSolarAlignment(settings.solarAlignment);
+      setArbitrageEnabled(settings.arbitrageEnabled);
+      setPriceAlignment(settings.priceAlignment);
+      setAncillaryProducts(settings.ancillaryProducts);
+      setAncillaryBlockHours(settings.ancillaryBlockHours);
+      setAncillaryConflictRule(settings.ancillaryConflictRule);
+      setDieselPrice(settings.dieselPrice);
+      setElectricityPrice(settings.electricityPrice);
+      setCo2PricePerTonne(settings.co2PricePerTonne);
+      setGensetUnits(settings.gensetUnits);
+      setGensetRatedMW(settings.gensetRatedMW);
+      setGensetMinLoadPercent(settings.gensetMinLoadPercent);
+      setGensetFuelCurve(settings.gensetFuelCurve);
+      setGensetStartFuelL(settings.gensetStartFuelL);
+      setGensetStartCost(settings.gensetStartCost);
+      setGensetMaintenancePerRunHour(settings.gensetMaintenancePerRunHour);
+      setGensetMaxRunHoursPerYear(settings.gensetMaxRunHoursPerYear);
+      setDieselCo2KgPerL(settings.dieselCo2KgPerL);
+      setDieselNoxGPerL(settings.dieselNoxGPerL);
+      setDieselPmGPerL(settings.dieselPmGPerL);
+      setGridCo2KgPerMWh(settings.gridCo2KgPerMWh);
+      setEmissionAlignment(settings.emissionAlignment);
+      setBatteryCapexPerMW(settings.batteryCapexPerMW);
+      setBatteryCapexPerMWh(settings.batteryCapexPerMWh);
+      setSolarCapexPerMWp(settings.solarCapexPerMWp);
+      setSolarInInvestment(settings.solarInInvestment);
+      setFixedOpexPercent(settings.fixedOpexPercent);
+      setVariableOpexPerMWh(settings.variableOpexPerMWh);
+      setBatteryReplacementYear(settings.batteryReplacementYear);
+      setBatteryReplacementPercent(settings.batteryReplacementPercent);
+      setDiscountRatePercent(settings.discountRatePercent);
+      setInflationPercent(settings.inflationPercent);
+  };
+
+  // Inputs missing from older project files keep their current value
+  const applyProjectSettings = (project: ProjectFile) => {
+      applySettings({ ...currentSettings, ...project.settings });
+      setSavedScenarios(project.scenarios.map(s => ({ ...s, settings: { ...currentSettings, ...s.settings } })));
+      setComparedScenarioIds([]);
+      setScenarioComparison([]);
+  };
+
+  const clearProfile = (type: CsvType) => {
+      setActiveProfileIds(prev => {
+          const next = { ...prev };
+          delete next[type];
+          return next;
+      });
+      delete profileDataRef.current[type];
+      setProfileSources(prev => {
+          const next = { ...prev };
+          delete next[type];
+          return next;
+      });
+      if (type === 'solar') setSolarData([]);
+      else if (type === 'price') setPriceData([]);
+      else if (type === 'ancillary') setAncillaryPriceData([]);
+      else if (type === 'dcload') setDcLoadData([]);
+      else if (type === 'logisticsload') setLogisticsLoadData([]);
+      else if (type === 'emission') setEmissionData([]);
+  };
+
+  const handleExportProject = () => {
+      const profiles = currentProfiles
+          .filter(p => !(p.type === 'grid' && isUsingMockData))
+          .map(p => {
+              const data = profileDataRef.current[p.type];
+              return { type: p.type, fileName: p.fileName, csv: data ? formatProfileCsv(data) : '', unit: getDefaultUnit(p.type) ? 'MW' as const : null };
+          });
+      const project = createProjectFile(currentSettings, profiles, savedScenarios);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([JSON.stringify(project)], { type: 'application/json' }));
+      link.download = `bess-project-${new Date().toISOString().slice(0, 10)}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+  };
+
+  // A project replaces the inputs, the scenarios and all profiles; without a grid
+  // profile the demo profile is used again
+  const handleImportProject = (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (e) => {
+          let loaded: ProjectLoadResult = { error: 'Het bestand is geen geldige JSON.' };
+          try {
+              loaded = migrateProject(JSON.parse(e.target?.result as string));
+          } catch (err) {
+              console.error("Project Parse Error", err);
+          }
+          if ('error' in loaded) {
+              alert(`Kon het projectbestand niet openen. ${loaded.error}`);
+              return;
+          }
+
+          const { project } = loaded;
+          applyProjectSettings(project);
+          const profiles = project.profiles;
+          (Object.keys(PROFILE_LABELS) as CsvType[]).forEach(type => {
+              const profile = profiles.find(p => p.type === type);
+              const data = profile ? handleCSVContent(profile.csv, type, profile.fileName, profile.unit) : null;
+              if (profile && data) storeProfile(type, profile.fileName, data);
+              else if (type !== 'grid') clearProfile(type);
+          });
+          const hasGrid = profiles.some(p => p.type === 'grid');
+          if (!hasGrid) {
+              clearProfile('grid');
+              handleCSVContent(generateMockData(), 'grid', 'Voorbeelddata');
+          }
+          setIsUsingMockData(!hasGrid);
+          setShowSolarWarning(false);
+      };
+      event.target.value = '';
+      reader.readAsText(file);
+  };
+
+  // Profiles of a scenario that differ from the loaded ones (changed, missing or extra)
+  const getProfileMismatches = (scenario: SavedScenario): CsvType[] => {
+      const types = new Set([...scenario.profiles, ...currentProfiles].map(p => p.type));
+      return Array.from(types).filter(type => scenario.profiles.find(p => p.type === type)?.fingerprint !== profileSources[type]?.fingerprint);
+  };
+
+  const handleRunComparison = () => {
+      setIsComparisonRunning(true);
+      // Let the busy state render before the runs block the main thread
+      setTimeout(() => {
+          const compared = savedScenarios.filter(s => comparedScenarioIds.includes(s.id));
+          setScenarioComparison(compared.map(({ id, name, settings }) => ({
+              id,
+              name,
+              years: runMultiYear(availableYears, rawData, solarData, getMultiYearParams(settings), priceData, ancillaryPriceData, loadProfiles, emissionData)
+          })));
+          setIsComparisonRunning(false);
+      }, 50);
+  };
+
+  const handleRunBaseline = () => {
+      setIsBaselineRunning(true);
+      // Let the busy state render before the runs block the main thread
+      setTimeout(() => {
+          setBaselineRun({
+              key: baselineKey,
+              years: runMultiYear(availableYears, rawData, solarData, baselineParams, priceData, ancillaryPriceData, loadProfiles, emissionData)
+          });
+          setIsBaselineRunning(false);
+      }, 50);
+  };
+
+  // DISPATCH COMPARISON: same year, greedy vs forecast-aware vs LP-optimal dispatch
+  const handleRunDispatchComparison = () => {
+      setIsDispatchComparisonRunning(true);
+      // Let the busy state render before the runs block the main thread
+      setTimeout(() => {
+          const yearData = getGridYearData(selectedYear, rawData, multiYearParams, solarData, loadProfiles).rows;
+          const strategies: { strategy: DispatchStrategy, label: string }[] = [
+              { strategy: 'greedy', label: 'Greedy' },
+              { strategy: 'forecast', label: `Forecast (${lookAheadHours}u)` },
+              { strategy: 'optimal', label: 'Optimaal (LP, ondergrens)' }
+          ];
+          const rows = strategies.map(({ strategy, label }): DispatchComparisonResult => {
+              const res = runSimulation(yearData, solarData, { ...multiYearParams, ...selectedGrid, dcCapacityMW, dispatchStrategy: strategy }, priceData, ancillaryPriceData, loadProfiles, emissionData, selectedYear);
+              const { dieselLiters, netExtraCost } = calculateDieselCost(res, multiYearParams);
+              const steps = res.simulationSteps;
+              const avgSoC = steps.length > 0 ? steps.reduce((sum, s) => sum + s.socEnd, 0) / steps.length : 0;
+              return {
+                  strategy,
+                  label,
+                  deficitMWh: res.loadDeficitMWhWithBat,
+                  dieselLiters,
+                  netExtraCost,
+                  gridToBatMWh: steps.reduce((sum, s) => sum + s.gridToBat * s.durationHours, 0),
+                  batteryLossMWh: res.totalBatteryLossMWh,
+                  avgSoCPercent: batteryCapacityMWh > 0 ? (avgSoC / batteryCapacityMWh) * 100 : 0,
+                  arbitrageRevenue: res.arbitrageRevenue
+              };
+          });
+          setDispatchComparison({ year: selectedYear, rows });
+          setIsDispatchComparisonRunning(false);
+      }, 50);
+  };
+
+  // SENSITIVITY ANALYSIS DATA: the selected year at six datacenter sizes
+  const handleRunCapacitySensitivity = () => {
+      setIsCapacitySensitivityRunning(true);
+      // Let the busy state render before the runs block the main thread
+      setTimeout(() => {
+          const yearData = getGridYearData(selectedYear, rawData, multiYearParams, solarData, loadProfiles).rows;
+
+          const caps = [2, 3, 4, 5, 6, 7];
+          const rows = caps.map((cap): CapacitySensitivityResult => {
+              const res = runSimulation(yearData, solarData, { ...multiYearParams, ...selectedGrid, dcCapacityMW: cap }, [], [], loadProfiles);
+              const { netExtraCost } = calculateDieselCost(res, multiYearParams);
+              return {
+                  capacityMW: cap,
+                  deficitMWh: res.loadDeficitMWhWithBat,
+                  netExtraCost,
+                  tradingHours: res.tradingHoursAvailable,
+                  tradingVolume: res.tradingVolumePotentialMWh 
+              };
+          });
+          setCapacitySensitivity({ year: selectedYear, rows });
+          setIsCapacitySensitivityRunning(false);
+      }, 50);
+  };
 
-export default function App() {
-  return (
-    <div style={{fontFamily: 'sans-serif', textAlign: 'center', padding: '50px'}}>
-      <h1>Klaar voor Vercel!</h1>
-      <p>Je hebt het project gedownload.</p>
-      <p style={{color: 'red', fontWeight: 'bold'}}>
-        Vergeet niet de code uit de editor in dit bestand (src/App.tsx) te plakken voordat je naar GitHub uploadt!
-      </p>
-    </div>
-  );
-}`;
-      zip.file("src/App.tsx", placeholderApp);
+  const handleRunContractComparison = () => {
+      setIsContractComparisonRunning(true);
+      // Let the busy state render before the runs block the main thread
+      setTimeout(() => {
+          const cscParams = getMultiYearParams({ ...currentSettings, gridContract: { ...gridContract, mode: 'off' } });
+          setContractComparison({
+              csc: runMultiYear(availableYears, rawData, solarData, cscParams, priceData, ancillaryPriceData, loadProfiles, emissionData),
+              contract: multiYearStats
+          });
+          setIsContractComparisonRunning(false);
+      }, 50);
+  };
 
-      // Generate blob
-      const content = await zip.generateAsync({ type: "blob" });
-      
-      // Trigger download
+  // The selected year as shown, or every year of the horizon simulated again (their
+  // steps are not kept by runMultiYear)
+  const getExportYears = (): ExportYear[] => exportScope === 'year'
+      ? [{ year: selectedYear, res: stats }]
+      : multiYearStats.map(({ year }) => ({ year, res: simulateYear(year, rawData, solarData, multiYearParams, priceData, ancillaryPriceData, loadProfiles, emissionData).res }));
+
+  const downloadFile = (content: Blob, fileName: string) => {
       const link = document.createElement('a');
       link.href = URL.createObjectURL(content);
-      link.download = `bess-analysis-${selectedYear}.zip`;
+      link.download = fileName;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-
-    } catch (error) {
-      console.error("Failed to create zip:", error);
-      alert("Kon het project niet inpakken. Mogelijk blokkeert de browser externe scripts.");
-    }
   };
 
-  const handleInputChange = (setter: (v: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
-      const val = e.target.value;
-      setter(val === '' ? 0 : Number(val));
-      if (setter === setBaseSolarMWp) setShowSolarWarning(false);
+  const handleExport = (format: 'csv' | 'xlsx') => {
+      setIsExporting(true);
+      const fileName = `bess-simulatie-${exportScope === 'year' ? selectedYear : 'alle-jaren'}`;
+      // Let the busy state render before the simulations block the main thread
+      setTimeout(async () => {
+          try {
+              const tables = getExportTables(getExportYears(), multiYearStats);
+              if (format === 'csv') {
+                  const table = tables[exportCsvTable] || tables[0];
+                  downloadFile(new Blob([formatTableCsv(table)], { type: 'text/csv' }), `${fileName}-${table.name.toLowerCase()}.csv`);
+              } else {
+                  const zip = new JSZip();
+                  Object.entries(getXlsxParts(tables)).forEach(([path, xml]) => zip.file(path, xml));
+                  const content = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+                  downloadFile(content, `${fileName}.xlsx`);
+              }
+          } catch (error) {
+              console.error("Export Error", error);
+              alert("Kon de export niet maken.");
+          }
+          setIsExporting(false);
+      }, 50);
   };
-  
-  const handleGrowthChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+
+  const handleFuelCurveChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
       const val = Number(e.target.value);
-      const newProfile = [...growthProfile];
-      newProfile[index] = val;
-      setGrowthProfile(newProfile);
+      setGensetFuelCurve(gensetFuelCurve.map((point, i) => i === index ? { ...point, litersPerHour: val } : point));
+  };
+
+  const handleAddGridStep = () => {
+      const last = gridCapacitySteps[gridCapacitySteps.length - 1];
+      setGridCapacitySteps([...gridCapacitySteps, { ...last, fromYear: last.fromYear + 1 }]);
+  };
+
+  const handleRemoveGridStep = (index: number) => {
+      if (gridCapacitySteps.length <= 1) return;
+      setGridCapacitySteps(gridCapacitySteps.filter((_, i) => i !== index));
   };
   
   // Create summary text function
@@ -1205,6 +1683,13 @@ export default function App() {
                 <Download size={16} /><span>Project (ZIP)</span>
              </button>
              
+             <button type="button" onClick={handleExportProject} className="flex items-center gap-2 cursor-pointer bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview" title="Instellingen, profielen en scenario's opslaan als projectbestand (JSON)">
+                <Save size={16} /><span>Project Opslaan</span>
+             </button>
+             <label className="flex items-center gap-2 cursor-pointer bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview" title="Projectbestand (JSON) openen">
+                <FolderOpen size={16} /><span>Project Openen</span><input type="file" accept=".json, application/json" onChange={handleImportProject} className="hidden" onClick={(e) => (e.target as HTMLInputElement).value = ''} />
+             </label>
+
              {/* Combined Reset Functionality in Trash Icon */}
              {hasLoadedFromStorage && !isUsingMockData && (<button onClick={handleClearStorage} className="text-slate-400 hover:text-red-500 transition-colors hide-in-preview" title="Reset data (Wist alle data)"><Trash2 size={16}/></button>)}
 
@@ -1214,10 +1699,243 @@ export default function App() {
              <label className="flex items-center gap-2 cursor-pointer bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview">
                 <Sun size={16} /><span>Zon Profiel</span><input type="file" accept=".csv, text/csv" onChange={(e) => handleFileUpload(e, 'solar')} className="hidden" onClick={(e) => (e.target as HTMLInputElement).value = ''} />
              </label>
+             <label className="flex items-center gap-2 cursor-pointer bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview">
+                <Banknote size={16} /><span>Day-ahead Prijzen</span><input type="file" accept=".csv, text/csv" onChange={(e) => handleFileUpload(e, 'price')} className="hidden" onClick={(e) => (e.target as HTMLInputElement).value = ''} />
+             </label>
+             <label className="flex items-center gap-2 cursor-pointer bg-slate-600 hover:bg-slate-700 text-white px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview">
+                <Zap size={16} /><span>DC Last</span><input type="file" accept=".csv, text/csv" onChange={(e) => handleFileUpload(e, 'dcload')} className="hidden" onClick={(e) => (e.target as HTMLInputElement).value = ''} />
+             </label>
+             <label className="flex items-center gap-2 cursor-pointer bg-slate-500 hover:bg-slate-600 text-white px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview">
+                <Clock size={16} /><span>Logistiek Last</span><input type="file" accept=".csv, text/csv" onChange={(e) => handleFileUpload(e, 'logisticsload')} className="hidden" onClick={(e) => (e.target as HTMLInputElement).value = ''} />
+             </label>
+             <label className="flex items-center gap-2 cursor-pointer bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview">
+                <Activity size={16} /><span>FCR/aFRR Prijzen</span><input type="file" accept=".csv, text/csv" onChange={(e) => handleFileUpload(e, 'ancillary')} className="hidden" onClick={(e) => (e.target as HTMLInputElement).value = ''} />
+             </label>
+             <label className="flex items-center gap-2 cursor-pointer bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-md transition-colors text-sm font-medium hide-in-preview">
+                <Leaf size={16} /><span>CO2 Intensiteit</span><input type="file" accept=".csv, text/csv" onChange={(e) => handleFileUpload(e, 'emission')} className="hidden" onClick={(e) => (e.target as HTMLInputElement).value = ''} />
+             </label>
              {isUsingMockData && <span className="text-xs text-amber-600 font-medium bg-amber-50 px-2 py-1 rounded hide-in-preview">Demo Data</span>}
         </div>
       </div>
 
+      {/* STORED PROFILES (IndexedDB) */}
+      {storageError && (
+          <div className="max-w-7xl mx-auto mb-4 bg-red-50 border border-red-200 text-red-700 rounded-lg px-4 py-2 text-sm flex justify-between items-start gap-4 hide-in-preview">
+              <span className="flex items-start gap-2"><AlertOctagon size={16} className="mt-0.5 shrink-0"/> {storageError}</span>
+              <button onClick={() => setStorageError('')} className="text-red-400 hover:text-red-600 text-xs">Sluiten</button>
+          </div>
+      )}
+      {/* CSV IMPORT DIALOG */}
+      {csvImport && csvImportPreview && (
+          <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4 hide-in-preview">
+              <div className="bg-white rounded-xl shadow-xl border border-slate-200 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                  <div className="p-4 border-b border-slate-200 flex justify-between items-start gap-4">
+                      <div>
+                          <h3 className="font-bold text-slate-900">{PROFILE_LABELS[csvImport.type]} importeren</h3>
+                          <p className="text-xs text-slate-500">{csvImport.fileName}{csvImport.remembered && ' · instellingen van een eerder bestand met dezelfde kolommen'}</p>
+                      </div>
+                      <button onClick={() => setCsvImport(null)} className="text-slate-400 hover:text-slate-600"><X size={18}/></button>
+                  </div>
+                  <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+                      <label className="block"><span className="text-slate-500">Scheidingsteken</span>
+                          <select value={csvImport.options.delimiter} onChange={(e) => updateCsvImport({ delimiter: e.target.value as CsvImportOptions['delimiter'] })} className="w-full p-1 border rounded bg-white">
+                              <option value=";">Puntkomma (;)</option><option value=",">Komma (,)</option><option value={'\t'}>Tab</option>
+                          </select>
+                      </label>
+                      <label className="block"><span className="text-slate-500">Decimaalteken</span>
+                          <select value={csvImport.options.decimal} onChange={(e) => updateCsvImport({ decimal: e.target.value as CsvImportOptions['decimal'] })} className="w-full p-1 border rounded bg-white">
+                              <option value=",">Komma (1,5)</option><option value=".">Punt (1.5)</option>
+                          </select>
+                      </label>
+                      <label className="block"><span className="text-slate-500">Datumformaat</span>
+                          <select value={csvImport.options.dateFormat} onChange={(e) => updateCsvImport({ dateFormat: e.target.value as CsvImportOptions['dateFormat'] })} className="w-full p-1 border rounded bg-white">
+                              <option value="auto">Automatisch</option><option value="ymd">JJJJ-MM-DD</option><option value="dmy">DD-MM-JJJJ</option><option value="mdy">MM/DD/JJJJ</option>
+                          </select>
+                      </label>
+                      <label className="block"><span className="text-slate-500">Tijdzone</span>
+                          <select value={csvImport.options.timeZone} onChange={(e) => updateCsvImport({ timeZone: e.target.value as CsvImportOptions['timeZone'] })} className="w-full p-1 border rounded bg-white">
+                              <option value="local">Nederlandse tijd (zomer/winter)</option><option value="utc">UTC</option>
+                          </select>
+                      </label>
+                      <label className="block"><span className="text-slate-500">Kopregel (0 = geen)</span>
+                          <input type="number" min="0" value={csvImport.options.headerRow + 1} onChange={(e) => updateCsvImport({ headerRow: Math.max(0, Number(e.target.value)) - 1 })} className="w-full p-1 border rounded" />
+                      </label>
+                      <label className="block"><span className="text-slate-500">Eerste datarij</span>
+                          <input type="number" min="1" value={csvImport.options.firstDataRow + 1} onChange={(e) => updateCsvImport({ firstDataRow: Math.max(1, Number(e.target.value)) - 1 })} className="w-full p-1 border rounded" />
+                      </label>
+                      <label className="block"><span className="text-slate-500">Tijdkolom</span>
+                          <select value={csvImport.options.timeColumn} onChange={(e) => updateCsvImport({ timeColumn: Number(e.target.value) })} className="w-full p-1 border rounded bg-white">
+                              {csvImportPreview.columnNames.map((name, c) => <option key={c} value={c}>{name}</option>)}
+                          </select>
+                      </label>
+                      <label className="block"><span className="text-slate-500">Tijd van de dag (aparte kolom)</span>
+                          <select value={csvImport.options.clockColumn} onChange={(e) => updateCsvImport({ clockColumn: Number(e.target.value) })} className="w-full p-1 border rounded bg-white">
+                              <option value={-1}>Geen</option>
+                              {csvImportPreview.columnNames.map((name, c) => <option key={c} value={c}>{name}</option>)}
+                          </select>
+                      </label>
+                      {csvImport.options.valueColumns.map((column, k) => (
+                          <label key={k} className="block"><span className="text-slate-500">{csvImport.type === 'ancillary' ? (k === 0 ? 'FCR kolom' : 'aFRR kolom') : 'Waardekolom'}</span>
+                              <select value={column} onChange={(e) => updateCsvImport({ valueColumns: csvImport.options.valueColumns.map((c, j) => j === k ? Number(e.target.value) : c) })} className="w-full p-1 border rounded bg-white">
+                                  {k > 0 && <option value={-1}>Geen</option>}
+                                  {csvImportPreview.columnNames.map((name, c) => <option key={c} value={c}>{name}</option>)}
+                              </select>
+                          </label>
+                      ))}
+                      {POWER_PROFILE_TYPES.includes(csvImport.type) && (
+                          <label className="block"><span className="text-slate-500">Eenheid</span>
+                              <select value={csvImport.options.unit || 'MW'} onChange={(e) => updateCsvImport({ unit: e.target.value as ValueUnit })} className="w-full p-1 border rounded bg-white">
+                                  {VALUE_UNITS.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+                              </select>
+                          </label>
+                      )}
+                  </div>
+                  <div className="px-4 pb-4 grid md:grid-cols-2 gap-4 text-xs">
+                      <div className="overflow-x-auto">
+                          <div className="font-bold text-slate-700 mb-1">Bestand</div>
+                          <table className="w-full text-left">
+                              <thead className="bg-slate-50 text-slate-500"><tr>{csvImportPreview.columnNames.map((name, c) => (
+                                  <th key={c} className={`px-2 py-1 whitespace-nowrap ${c === csvImport.options.timeColumn || c === csvImport.options.clockColumn || csvImport.options.valueColumns.includes(c) ? 'text-blue-700' : ''}`}>{name}</th>
+                              ))}</tr></thead>
+                              <tbody className="divide-y divide-slate-100">
+                                  {csvImportPreview.rawRows.map((row, r) => (
+                                      <tr key={r}>{csvImportPreview.columnNames.map((_, c) => (
+                                          <td key={c} className={`px-2 py-1 whitespace-nowrap ${c === csvImport.options.timeColumn || c === csvImport.options.clockColumn || csvImport.options.valueColumns.includes(c) ? 'bg-blue-50' : 'text-slate-400'}`}>{row[c] ?? ''}</td>
+                                      ))}</tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+                      <div>
+                          <div className="font-bold text-slate-700 mb-1">Resultaat</div>
+                          <table className="w-full text-left">
+                              <thead className="bg-slate-50 text-slate-500"><tr>
+                                  <th className="px-2 py-1">Tijd (NL)</th>
+                                  {csvImport.options.valueColumns.map((_, k) => <th key={k} className="px-2 py-1 text-right">{csvImport.type === 'ancillary' ? (k === 0 ? 'FCR' : 'aFRR') : POWER_PROFILE_TYPES.includes(csvImport.type) ? 'MW' : 'Waarde'}</th>)}
+                              </tr></thead>
+                              <tbody className="divide-y divide-slate-100">
+                                  {csvImportPreview.parsed.times.slice(0, 6).map((t, i) => (
+                                      <tr key={i}>
+                                          <td className="px-2 py-1 whitespace-nowrap">{formatLocalDateTime(new Date(t))}</td>
+                                          {csvImportPreview.parsed.columns.map((values, k) => <td key={k} className="px-2 py-1 text-right">{values[i].toLocaleString('nl-NL', { maximumFractionDigits: 4 })}</td>)}
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                          {csvImportPreview.parsed.times.length > 0 ? (
+                              <p className="mt-2 text-slate-600">
+                                  {csvImportPreview.parsed.times.length.toLocaleString('nl-NL')} rijen van {formatLocalDateTime(new Date(csvImportPreview.first)).slice(0, 10)} tot {formatLocalDateTime(new Date(csvImportPreview.last)).slice(0, 10)}, stap {Math.round(csvImportPreview.parsed.timestepHours * 60)} min
+                                  {POWER_PROFILE_TYPES.includes(csvImport.type) && `, piek ${fmtNum(csvImportPreview.peak)} MW`}
+                                  {csvImportPreview.parsed.skipped > 0 && <span className="text-amber-600"> · {csvImportPreview.parsed.skipped.toLocaleString('nl-NL')} rijen overgeslagen (geen geldige tijd of waarde)</span>}
+                              </p>
+                          ) : (
+                              <p className="mt-2 text-red-600">Geen rijen gelezen; controleer scheidingsteken, kolommen en datumformaat.</p>
+                          )}
+                      </div>
+                  </div>
+                  <div className="p-4 border-t border-slate-200 flex justify-end gap-2">
+                      <button onClick={() => setCsvImport(null)} className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded">Annuleren</button>
+                      <button onClick={handleConfirmCsvImport} disabled={csvImportPreview.parsed.times.length === 0} className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">Importeren</button>
+                  </div>
+              </div>
+          </div>
+      )}
+      {storedProfiles.length > 0 && (
+          <details className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden hide-in-preview">
+              <summary className="p-4 cursor-pointer flex flex-wrap justify-between items-center gap-4">
+                  <span className="font-bold text-slate-900 text-sm">Opgeslagen Profielen ({storedProfiles.length})</span>
+                  <span className="flex items-center gap-2 text-xs text-slate-500">
+                      Profielen: {fmtBytes(storedProfiles.reduce((sum, p) => sum + p.bytes, 0))}
+                      {storageEstimate && storageEstimate.quota > 0 && (
+                          <>
+                              <span className="w-32 h-2 bg-slate-100 rounded-full overflow-hidden inline-block">
+                                  <span className="h-full bg-blue-500 block" style={{ width: `${Math.min(100, storageEstimate.usage / storageEstimate.quota * 100)}%` }}></span>
+                              </span>
+                              Browseropslag: {fmtBytes(storageEstimate.usage)} van {fmtBytes(storageEstimate.quota)}
+                          </>
+                      )}
+                  </span>
+              </summary>
+              <table className="w-full text-xs text-left">
+                  <thead className="bg-slate-50 text-slate-500 font-medium">
+                      <tr><th className="px-3 py-1">Type</th><th className="px-3 py-1">Bestand</th><th className="px-3 py-1 text-right">Rijen</th><th className="px-3 py-1 text-right">Grootte</th><th className="px-3 py-1">Opgeslagen</th><th className="px-3 py-1"></th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {[...storedProfiles].sort((a, b) => a.type.localeCompare(b.type) || b.savedAt.localeCompare(a.savedAt)).map(info => (
+                          <tr key={info.id} className="hover:bg-slate-50">
+                              <td className="px-3 py-1 font-medium text-slate-700">{PROFILE_LABELS[info.type]}</td>
+                              <td className="px-3 py-1">{info.fileName || '-'}</td>
+                              <td className="px-3 py-1 text-right">{info.rows.toLocaleString('nl-NL')}</td>
+                              <td className="px-3 py-1 text-right">{fmtBytes(info.bytes)}</td>
+                              <td className="px-3 py-1 text-slate-500">{new Date(info.savedAt).toLocaleString('nl-NL', { timeZone: TIME_ZONE, dateStyle: 'short', timeStyle: 'short' })}</td>
+                              <td className="px-3 py-1">
+                                  <div className="flex gap-2 justify-end items-center">
+                                      {activeProfileIds[info.type] === info.id
+                                          ? <span className="text-emerald-600 font-medium">In gebruik</span>
+                                          : <button onClick={() => activateStoredProfile(info)} className="text-blue-600 hover:underline">Gebruiken</button>}
+                                      <button onClick={() => handleDeleteStoredProfile(info)} className="text-red-500 hover:text-red-700" title="Verwijderen"><Trash2 size={14}/></button>
+                                  </div>
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </details>
+      )}
+
+      {qualityReports.length > 0 && (
+          <details open={showQualityReport} onToggle={(e) => setShowQualityReport((e.target as HTMLDetailsElement).open)} className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden hide-in-preview">
+              <summary className="p-4 cursor-pointer flex flex-wrap justify-between items-center gap-4">
+                  <span className="font-bold text-slate-900 text-sm">Datakwaliteit</span>
+                  <span className={`text-xs ${qualityReports.some(q => q.issues > 0) ? 'text-amber-600' : 'text-emerald-600'}`}>
+                      {qualityReports.some(q => q.issues > 0) ? `Aandachtspunten in ${qualityReports.filter(q => q.issues > 0).length} van ${qualityReports.length} profielen` : 'Geen aandachtspunten'}
+                  </span>
+              </summary>
+              <div className="overflow-x-auto">
+                  <table className="w-full text-xs text-left">
+                      <thead className="bg-slate-50 text-slate-500 font-medium">
+                          <tr><th className="px-3 py-1">Profiel</th><th className="px-3 py-1 text-right">Rijen</th><th className="px-3 py-1 text-right">Stap</th><th className="px-3 py-1 text-right">Gaten (stappen)</th><th className="px-3 py-1 text-right">Dubbel</th><th className="px-3 py-1 text-right">Niet op volgorde</th><th className="px-3 py-1 text-right">Zomer/wintertijd</th><th className="px-3 py-1 text-right">Negatief</th><th className="px-3 py-1 text-right">Boven aansluiting</th><th className="px-3 py-1">Dekking per jaar</th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          {qualityReports.map(({ source, report }) => {
+                              const warn = (n: number) => n > 0 ? 'text-amber-600 font-bold' : 'text-slate-400';
+                              return (
+                                  <tr key={source.type} className="hover:bg-slate-50 align-top">
+                                      <td className="px-3 py-1"><span className="font-medium text-slate-700">{PROFILE_LABELS[source.type]}</span> <span className="text-slate-400">{source.fileName}</span></td>
+                                      <td className="px-3 py-1 text-right">{report.rows.toLocaleString('nl-NL')}</td>
+                                      <td className="px-3 py-1 text-right">{Math.round(report.timestepHours * 60)} min</td>
+                                      <td className={`px-3 py-1 text-right ${warn(report.gapCount)}`}>{report.gapCount.toLocaleString('nl-NL')} ({report.missingSteps.toLocaleString('nl-NL')})</td>
+                                      <td className={`px-3 py-1 text-right ${warn(report.duplicateRows)}`}>{report.duplicateRows.toLocaleString('nl-NL')}</td>
+                                      <td className={`px-3 py-1 text-right ${warn(report.unsortedRows)}`}>{report.unsortedRows.toLocaleString('nl-NL')}</td>
+                                      <td className={`px-3 py-1 text-right ${warn(report.dstAnomalies.length)}`}>{report.dstAnomalies.length}</td>
+                                      <td className={`px-3 py-1 text-right ${warn(report.negativeRows)}`}>{report.negativeRows.toLocaleString('nl-NL')}</td>
+                                      <td className={`px-3 py-1 text-right ${warn(report.aboveLimitRows)}`}>{report.upperLimit === null ? '-' : report.aboveLimitRows.toLocaleString('nl-NL')}</td>
+                                      <td className="px-3 py-1">
+                                          <div className="flex flex-wrap gap-1">
+                                              {report.coverage.map(c => (
+                                                  <span key={c.year} className={`px-1 rounded ${c.percent >= 99 ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`} title={`${c.rows.toLocaleString('nl-NL')} van ${c.expectedRows.toLocaleString('nl-NL')} stappen`}>{c.year}: {fmtNum(c.percent)}%</span>
+                                              ))}
+                                          </div>
+                                      </td>
+                                  </tr>
+                              );
+                          })}
+                      </tbody>
+                  </table>
+              </div>
+              <div className="p-4 space-y-1 text-xs text-slate-600">
+                  {qualityReports.filter(q => q.report.gaps.length > 0 || q.report.dstAnomalies.length > 0).map(({ source, report }) => (
+                      <div key={source.type}>
+                          <span className="font-medium text-slate-700">{PROFILE_LABELS[source.type]}:</span>
+                          {report.gaps.length > 0 && <> gaten {report.gaps.slice(0, 5).map(g => `${formatLocalDateTime(g.from).slice(0, 16)} → ${formatLocalDateTime(g.to).slice(0, 16)} (${g.missingSteps})`).join(', ')}{report.gapCount > 5 && ` en ${report.gapCount - 5} meer`}.</>}
+                          {report.dstAnomalies.length > 0 && <> Zomer/wintertijd: {report.dstAnomalies.slice(0, 5).map(d => `${d.date} (${d.rows} rijen, verwacht ${d.expectedRows})`).join(', ')}.</>}
+                      </div>
+                  ))}
+                  <p className="text-[10px] text-slate-400">Jaren met minder dan 99% dekking in het grid profiel worden aangevuld volgens de instelling Ontbrekende data en in de meerjarentabellen gemarkeerd.</p>
+              </div>
+          </details>
+      )}
+
       {/* PRINT HEADER SUMMARY */}
       <div className="print-only mb-6 border-b-2 border-slate-800 pb-4">
           <h1 className="text-2xl font-bold text-slate-900">Datacenter 's-Gravendeel - Analyse Rapport</h1>
@@ -1226,7 +1944,7 @@ export default function App() {
               <div><span className="block text-slate-500 text-xs">Start Datacenter</span><span className="font-bold">{startYear}</span></div>
               <div><span className="block text-slate-500 text-xs">Datacenter (Contract)</span><span className="font-bold">{fmtNum(dcCapacityMW)} MW</span></div>
               <div><span className="block text-slate-500 text-xs">Datacenter (Benutting)</span><span className="font-bold">{dcUtilizationFactor}% ({fmtNum(effectiveMW)} MW)</span></div>
-              <div><span className="block text-slate-500 text-xs">Logistiek</span><span className="font-bold">{logisticsMW} MW</span></div>
+              <div><span className="block text-slate-500 text-xs">Logistiek</span><span className="font-bold">{fmtNum(logisticsPeakMW)} MW (piek)</span></div>
               <div><span className="block text-slate-500 text-xs">BESS</span><span className="font-bold">{batteryPowerMW} MW / {batteryCapacityMWh} MWh</span></div>
           </div>
       </div>
@@ -1245,18 +1963,28 @@ export default function App() {
                       <li>Groeipad (Jaar 1-4+): {growthProfile.join(', ')} MW</li>
                       <li>DC Contract: {dcCapacityMW} MW</li>
                       <li>DC Benutting: {dcUtilizationFactor}%</li>
-                      <li>Logistiek: {logisticsMW} MW ({logisticsStartHour}u - {logisticsEndHour}u)</li>
-                      <li>Einde CSC: {cscEndDate.toLocaleDateString('nl-NL')}</li>
+                      <li>Logistiek: rooster met piek {fmtNum(logisticsPeakMW)} MW, gemiddeld {fmtNum(getScheduleAverageMW(logisticsSchedule))} MW ({logisticsSchedule.holidaysEnabled ? 'feestdagen eigen rooster' : 'feestdagen als gewone dag'})</li>
+                      <li>Einde CSC: {cscEndDate.toLocaleDateString('nl-NL', { timeZone: TIME_ZONE })}</li>
+                      <li>Netaansluiting ({selectedYear}): {selectedGrid.connectionMW} MW, contract {selectedGrid.contractedMW} MW (firm {selectedGrid.firmMW} MW)</li>
                   </ul>
               </div>
               <div>
                   <h4 className="font-semibold text-slate-700 mb-1">Energie & Batterij</h4>
                   <ul className="list-disc list-inside text-slate-600">
                       <li>Batterij: {batteryPowerMW} MW / {batteryCapacityMWh} MWh</li>
+                      <li>Rendement laden/ontladen: {chargeEfficiency}% / {dischargeEfficiency}% (SoC {minSoCPercent}-{maxSoCPercent}%, start {initialSoCPercent}%)</li>
+                      <li>Hulpverbruik batterij: {auxiliaryMW} MW</li>
+                      <li>Day-ahead arbitrage: {arbitrageEnabled && priceData.length > 0 ? `aan (${priceAlignment === 'exact' ? 'exacte tijdstempels' : 'typisch jaar'})` : 'uit'}</li>
+                      <li>Balanceringsdiensten: {ancillaryProducts.filter(p => p.powerMW > 0).map(p => `${p.product === 'fcr' ? 'FCR' : 'aFRR'} ${p.powerMW} MW`).join(', ') || 'geen'} (blokken {ancillaryBlockHours}u, {ancillaryConflictRule === 'reduce-power' ? 'vermogen reduceren' : 'blok uitsluiten'} bij congestie)</li>
+                      <li>Dispatch: {dispatchStrategy === 'forecast' ? `forecast, vooruitblik ${lookAheadHours}u, standby ${standbySoCPercent}%` : dispatchStrategy === 'optimal' ? 'optimaal (LP)' : 'greedy'}</li>
+                      <li>Lastprofiel: DC {dcLoadData.length > 0 ? 'geüpload profiel' : 'vlak'}, logistiek {logisticsLoadData.length > 0 ? 'geüpload profiel' : 'weekrooster'}</li>
                       <li>Zon Basis: {baseSolarMWp} MWp</li>
                       <li>Zon Gewenst: {targetSolarMWp} MWp (Schaal: x{solarScaleFactor.toFixed(2)})</li>
                       {/* FIX: Diesel price now uses explicit formatting for 2 decimal places */}
+                      <li>Generatoren: {gensetUnits} × {gensetRatedMW} MW (min. last {gensetMinLoadPercent}%, max {gensetMaxRunHoursPerYear > 0 ? `${gensetMaxRunHoursPerYear} draaiuren/jaar` : 'onbeperkt'})</li>
                       <li>Dieselprijs: {dieselPrice.toLocaleString('nl-NL', { style: 'currency', currency: 'EUR', minimumFractionDigits: 2, maximumFractionDigits: 2 })}/L</li>
+                      <li>Investering: batterij {fmtEuro(batteryCapexPerMW)}/MW + {fmtEuro(batteryCapexPerMWh)}/MWh{solarInInvestment ? `, zon ${fmtEuro(solarCapexPerMWp)}/MWp` : ''}, OPEX {fixedOpexPercent}% + {fmtEuro(variableOpexPerMWh)}/MWh, disconto {discountRatePercent}%, inflatie {inflationPercent}%</li>
+                      <li>Emissies: diesel {dieselCo2KgPerL} kg CO2/L, net {emissionData.length > 0 ? `uurprofiel (${emissionAlignment === 'exact' ? 'exacte tijdstempels' : 'typisch jaar'})` : `${gridCo2KgPerMWh} kg CO2/MWh`}, CO2-prijs {fmtEuro(co2PricePerTonne)}/t</li>
                   </ul>
               </div>
           </div>
@@ -1292,13 +2020,128 @@ export default function App() {
                     <label className="block text-sm font-medium text-slate-600 mb-1">Einde CSC Beperking</label>
                     <input type="date" value={cscEndDateStr} onChange={(e) => setCscEndDateStr(e.target.value)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" />
                 </div>
+                <div>
+                    <div className="flex justify-between items-center mb-1">
+                        <label className="text-sm font-medium text-slate-600">Netaansluiting & Transport (MW)</label>
+                        <button type="button" onClick={handleAddGridStep} className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1"><Plus size={12}/> Stap</button>
+                    </div>
+                    <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-1 text-[10px] text-slate-400">
+                        <span>Vanaf jaar</span><span>Aansluiting</span><span>Contract</span><span>Firm</span><span></span>
+                    </div>
+                    {gridCapacitySteps.map((step, i) => (
+                        <div key={i} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-1 mb-1 items-center">
+                            <input type="number" min="2024" max="2036" value={step.fromYear} onChange={handleGridStepChange(i, 'fromYear')} className="w-full p-1 border rounded text-xs" />
+                            <input type="number" min="0" step="0.5" value={step.connectionMW} onChange={handleGridStepChange(i, 'connectionMW')} className="w-full p-1 border rounded text-xs" />
+                            <input type="number" min="0" step="0.5" value={step.contractedMW} onChange={handleGridStepChange(i, 'contractedMW')} className="w-full p-1 border rounded text-xs" />
+                            <input type="number" min="0" step="0.5" value={step.firmMW} onChange={handleGridStepChange(i, 'firmMW')} className="w-full p-1 border rounded text-xs" />
+                            <button type="button" onClick={() => handleRemoveGridStep(i)} disabled={gridCapacitySteps.length <= 1} className="text-slate-400 hover:text-red-500 disabled:opacity-30"><Trash2 size={12}/></button>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-2 mt-1">
+                        <span className="text-[10px] text-slate-400">Profiel nominaal</span>
+                        <input type="number" min="0" step="0.5" value={profileNominalMW} onChange={handleInputChange(setProfileNominalMW)} className="w-16 p-1 border rounded text-xs" />
+                        <span className="text-[10px] text-slate-400">MW</span>
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                        <span className="text-[10px] text-slate-400">Ontbrekende data</span>
+                        <select value={yearFillStrategy} onChange={(e) => setYearFillStrategy(e.target.value as YearFillStrategy)} className="p-1 border rounded text-xs bg-white">
+                            <option value="none">Niet aanvullen</option>
+                            <option value="unrestricted">Onbeperkt ({fmtNum(profileNominalMW)} MW)</option>
+                            <option value="interpolate">Interpoleren</option>
+                            <option value="reference">Referentiejaar</option>
+                        </select>
+                        {yearFillStrategy === 'reference' && (
+                            <select value={referenceYear} onChange={(e) => setReferenceYear(Number(e.target.value))} className="p-1 border rounded text-xs bg-white">
+                                {availableYears.map(y => <option key={y} value={y}>{y}</option>)}
+                            </select>
+                        )}
+                    </div>
+                    <div className="mt-2 border-t border-slate-100 pt-2">
+                        <div className="flex items-center gap-2">
+                            <span className="text-[10px] text-slate-400">Contractregels</span>
+                            <select value={gridContract.mode} onChange={(e) => setGridContract({ ...gridContract, mode: e.target.value as GridContract['mode'] })} className="p-1 border rounded text-xs bg-white">
+                                <option value="off">Uit (geüpload profiel)</option>
+                                <option value="contract">Alleen contract</option>
+                                <option value="combined">Profiel + contract</option>
+                                <option value="availability">Tijdsduurgebonden (beschikbaarheid %)</option>
+                            </select>
+                        </div>
+                        {gridContract.mode === 'availability' && (
+                            <div className="mt-1 space-y-1">
+                                <div className="grid grid-cols-4 gap-1">
+                                    <div><span className="text-[10px] text-slate-400">Beschikbaarheid (%)</span><input type="number" min="0" max="100" step="1" value={gridContract.availabilityPercent} onChange={handleContractChange('availabilityPercent')} className="w-full p-1 border rounded text-xs" /></div>
+                                    <div><span className="text-[10px] text-slate-400">Toewijzing</span>
+                                        <select value={gridContract.allocation} onChange={(e) => setGridContract({ ...gridContract, allocation: e.target.value as AvailabilityAllocation })} className="w-full p-1 border rounded text-xs bg-white">
+                                            <option value="worst">Worst case</option>
+                                            <option value="random">Willekeurig</option>
+                                            <option value="seasonal">Seizoen</option>
+                                        </select>
+                                    </div>
+                                    <div><span className="text-[10px] text-slate-400">Garantie (MW)</span><input type="number" min="0" step="0.5" value={gridContract.guaranteedMW} onChange={handleContractChange('guaranteedMW')} className="w-full p-1 border rounded text-xs" /></div>
+                                    <div><span className="text-[10px] text-slate-400">Vooraankondiging (u)</span><input type="number" min="0" step="1" value={gridContract.leadTimeHours} onChange={handleContractChange('leadTimeHours')} className="w-full p-1 border rounded text-xs" /></div>
+                                </div>
+                                <p className="text-[10px] text-slate-400">Het volledige contract is beschikbaar gedurende het percentage van de tijd; de rest van het jaar blijft alleen de garantie over. Worst case legt de beperking op de uren met de hoogste vraag na zon, Willekeurig op verspreide blokken van 4 uur en Seizoen op winteravonden en -ochtenden.</p>
+                            </div>
+                        )}
+                        {(gridContract.mode === 'contract' || gridContract.mode === 'combined') && (
+                            <div className="mt-1 space-y-1">
+                                <div className="grid grid-cols-4 gap-1">
+                                    <div><span className="text-[10px] text-slate-400">Garantie (MW)</span><input type="number" min="0" step="0.5" value={gridContract.guaranteedMW} onChange={handleContractChange('guaranteedMW')} className="w-full p-1 border rounded text-xs" /></div>
+                                    <div><span className="text-[10px] text-slate-400">Max. activaties</span><input type="number" min="0" step="1" value={gridContract.maxActivationsPerYear} onChange={handleContractChange('maxActivationsPerYear')} className="w-full p-1 border rounded text-xs" /></div>
+                                    <div><span className="text-[10px] text-slate-400">Max. uren/jaar</span><input type="number" min="0" step="1" value={gridContract.maxHoursPerYear} onChange={handleContractChange('maxHoursPerYear')} className="w-full p-1 border rounded text-xs" /></div>
+                                    <div><span className="text-[10px] text-slate-400">Vooraankondiging (u)</span><input type="number" min="0" step="1" value={gridContract.leadTimeHours} onChange={handleContractChange('leadTimeHours')} className="w-full p-1 border rounded text-xs" /></div>
+                                </div>
+                                {gridContract.windows.map((w, i) => (
+                                    <div key={i} className="border border-slate-100 rounded p-1 space-y-1">
+                                        <div className="flex gap-0.5">
+                                            {CONTRACT_MONTHS.map((label, m) => (
+                                                <button key={m} type="button" onClick={() => updateContractWindow(i, { months: toggleListValue(w.months, m) })} className={`flex-1 text-[9px] rounded ${w.months.includes(m) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+                                            ))}
+                                        </div>
+                                        <div className="flex gap-0.5 items-center">
+                                            {SCHEDULE_DAYS.map(({ key, label }) => (
+                                                <button key={key} type="button" onClick={() => updateContractWindow(i, { weekdays: toggleListValue(w.weekdays, key) })} className={`flex-1 text-[9px] rounded ${w.weekdays.includes(key) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}>{label}</button>
+                                            ))}
+                                            <input type="number" min="0" max="24" step="0.25" value={w.startHour} onChange={(e) => updateContractWindow(i, { startHour: Number(e.target.value) })} className="w-12 p-0.5 border rounded text-xs ml-1" title="Van (uur)" />
+                                            <input type="number" min="0" max="24" step="0.25" value={w.endHour} onChange={(e) => updateContractWindow(i, { endHour: Number(e.target.value) })} className="w-12 p-0.5 border rounded text-xs" title="Tot (uur)" />
+                                            <button type="button" onClick={() => setGridContract({ ...gridContract, windows: gridContract.windows.filter((_, j) => j !== i) })} className="text-slate-400 hover:text-red-500 px-1"><Trash2 size={12}/></button>
+                                        </div>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => setGridContract({ ...gridContract, windows: [...gridContract.windows, gridContract.windows[gridContract.windows.length - 1] || { months: [0, 1, 2, 10, 11], weekdays: [1, 2, 3, 4, 5], startHour: 7, endHour: 9 }] })} className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1"><Plus size={12}/> Venster</button>
+                                <p className="text-[10px] text-slate-400">Elk aaneengesloten venster is één mogelijke activatie; tijdens een activatie blijft de garantie van het contract over. Limieten 0 = onbeperkt; met limieten wordt de volledige ruimte benut (gespreid, of bij Profiel + contract waar het profiel het meest beperkt). De vooraankondiging begrenst de vooruitblik van de forecast-sturing.</p>
+                            </div>
+                        )}
+                        {gridContract.mode !== 'off' && (
+                            <div className="mt-1 space-y-1">
+                                <button type="button" onClick={handleRunContractComparison} disabled={isContractComparisonRunning} className="text-xs text-blue-600 hover:text-blue-800 disabled:text-slate-400">{isContractComparisonRunning ? 'Bezig...' : 'Vergelijk met CSC-profiel'}</button>
+                                {contractComparison && (
+                                    <table className="w-full text-[10px]">
+                                        <thead><tr className="text-slate-400"><th className="text-left font-normal"></th><th className="text-right font-normal">Meerkosten</th><th className="text-right font-normal">Diesel (L)</th><th className="text-right font-normal">Tekort (MWh)</th></tr></thead>
+                                        <tbody>
+                                            {[{ label: 'CSC-profiel', years: contractComparison.csc }, { label: 'Contract', years: contractComparison.contract }].map(({ label, years }) => (
+                                                <tr key={label} className="border-t border-slate-100">
+                                                    <td className="text-slate-500">{label}</td>
+                                                    <td className="text-right">{fmtEuro(years.reduce((sum, y) => sum + y.netExtraCost, 0))}</td>
+                                                    <td className="text-right">{fmtNum(years.reduce((sum, y) => sum + y.dieselLiters, 0))}</td>
+                                                    <td className="text-right">{fmtNum(years.reduce((sum, y) => sum + y.dcDeficitWithBat, 0))}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    <p className="text-[10px] text-slate-400 mt-1">Het CSC-profiel beperkt alleen het niet-firm deel van het contract. Profielwaarden onder de nominale waarde worden als beperking toegepast.</p>
+                </div>
                 <div>
                     <div className="flex justify-between items-center mb-1">
                         <label className="text-sm font-medium text-slate-600">Datacenter Capaciteit</label>
                         <span className="text-xs font-bold text-blue-600">Werkelijk: {fmtNum(effectiveMW)} MW</span>
                     </div>
                     <div className="grid grid-cols-2 gap-2">
-                        <div><div className="flex items-center gap-2"><input type="number" min="0" max="10" step="0.5" value={dcCapacityMW} onChange={handleInputChange(setDcCapacityMW)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" /><span className="text-slate-400 text-xs">MW</span></div><span className="text-[10px] text-slate-400">Contract</span></div>
+                        <div><div className="flex items-center gap-2"><input type="number" min="0" max={selectedGrid.connectionMW} step="0.5" value={dcCapacityMW} onChange={handleInputChange(setDcCapacityMW)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" /><span className="text-slate-400 text-xs">MW</span></div><span className="text-[10px] text-slate-400">Contract</span></div>
                         <div><div className="flex items-center gap-2"><input type="number" min="10" max="100" step="5" value={dcUtilizationFactor} onChange={handleInputChange(setDcUtilizationFactor)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" /><span className="text-slate-400 text-xs">%</span></div><span className="text-[10px] text-slate-400">Benutting</span></div>
                     </div>
                 </div>
@@ -1311,18 +2154,162 @@ export default function App() {
                         <input type="number" min="0" step="0.01" value={dieselPrice} onChange={handleInputChange(setDieselPrice)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" />
                     </div>
                      <div>
-                        <label className="block text-sm font-medium text-slate-600 mb-1">Conversie (kWh/L)</label>
-                        <input type="number" min="0" step="0.1" value={dieselKwhPerLiter} onChange={handleInputChange(setDieselKwhPerLiter)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" />
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Diesel Generatoren</label>
+                        <div className="grid grid-cols-3 gap-1">
+                            <div><span className="text-[10px] text-slate-400">Aantal</span><input type="number" min="0" step="1" value={gensetUnits} onChange={handleInputChange(setGensetUnits)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">MW / unit</span><input type="number" min="0" step="0.1" value={gensetRatedMW} onChange={handleInputChange(setGensetRatedMW)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Min last %</span><input type="number" min="0" max="100" step="5" value={gensetMinLoadPercent} onChange={handleInputChange(setGensetMinLoadPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Start (L)</span><input type="number" min="0" step="1" value={gensetStartFuelL} onChange={handleInputChange(setGensetStartFuelL)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Start (€)</span><input type="number" min="0" step="1" value={gensetStartCost} onChange={handleInputChange(setGensetStartCost)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Onderh. €/u</span><input type="number" min="0" step="1" value={gensetMaintenancePerRunHour} onChange={handleInputChange(setGensetMaintenancePerRunHour)} className="w-full p-1 border rounded text-xs" /></div>
+                        </div>
+                        <span className="text-[10px] text-slate-400 block mt-1">Brandstof per unit (L/u) bij 25 / 50 / 75 / 100% last</span>
+                        <div className="grid grid-cols-4 gap-1">
+                            {gensetFuelCurve.map((point, i) => (
+                                <input key={point.loadPercent} type="number" min="0" step="1" value={point.litersPerHour} onChange={handleFuelCurveChange(i)} className="w-full p-1 border rounded text-xs" />
+                            ))}
+                        </div>
+                        <div className="mt-1"><span className="text-[10px] text-slate-400">Max draaiuren per unit per jaar (vergunning, 0 = geen)</span><input type="number" min="0" step="50" value={gensetMaxRunHoursPerYear} onChange={handleInputChange(setGensetMaxRunHoursPerYear)} className="w-full p-1 border rounded text-xs" /></div>
                     </div>
                      <div>
                         <label className="block text-sm font-medium text-slate-600 mb-1">Stroomprijs (€/MWh)</label>
                         <input type="number" min="0" step="1" value={electricityPrice} onChange={handleInputChange(setElectricityPrice)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" />
                     </div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Emissies</label>
+                        <div className="grid grid-cols-3 gap-1">
+                            <div><span className="text-[10px] text-slate-400">kg CO2/L</span><input type="number" min="0" step="0.01" value={dieselCo2KgPerL} onChange={handleInputChange(setDieselCo2KgPerL)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">g NOx/L</span><input type="number" min="0" step="1" value={dieselNoxGPerL} onChange={handleInputChange(setDieselNoxGPerL)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">g PM/L</span><input type="number" min="0" step="0.1" value={dieselPmGPerL} onChange={handleInputChange(setDieselPmGPerL)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Net kg/MWh</span><input type="number" min="0" step="10" value={gridCo2KgPerMWh} onChange={handleInputChange(setGridCo2KgPerMWh)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">CO2 €/ton</span><input type="number" min="0" step="5" value={co2PricePerTonne} onChange={handleInputChange(setCo2PricePerTonne)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Profiel</span><select value={emissionAlignment} onChange={(e) => setEmissionAlignment(e.target.value as SolarAlignmentMode)} className="w-full p-1 border rounded text-xs bg-white"><option value="typical">Typisch jaar</option><option value="exact">Exact</option></select></div>
+                        </div>
+                        <span className="text-[10px] text-slate-400 block mt-1">{emissionData.length > 0 ? `Uurlijkse netintensiteit geladen (${emissionData.length.toLocaleString('nl-NL')} punten); vaste waarde alleen waar data ontbreekt.` : 'Geen uurprofiel geladen: vaste netintensiteit voor alle uren.'}</span>
+                    </div>
+                     <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-slate-600 mb-1"><input type="checkbox" checked={arbitrageEnabled} onChange={(e) => setArbitrageEnabled(e.target.checked)} /> Day-ahead arbitrage</label>
+                        <select value={priceAlignment} onChange={(e) => setPriceAlignment(e.target.value as SolarAlignmentMode)} disabled={!arbitrageEnabled} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm">
+                            <option value="typical">Prijzen: typisch jaar herhalen</option>
+                            <option value="exact">Prijzen: exacte tijdstempels</option>
+                        </select>
+                        <p className="text-[10px] text-slate-400 mt-1">{priceData.length > 0 ? `${priceData.length.toLocaleString('nl-NL')} prijzen geladen.` : 'Upload een day-ahead prijs CSV (datum;€/MWh).'}</p>
+                    </div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Balanceringsdiensten (MW / €/MW/u / Reserve u)</label>
+                        {ancillaryProducts.map((p, i) => (
+                            <div key={p.product} className="grid grid-cols-[3rem_1fr_1fr_1fr] gap-1 items-center mb-1">
+                                <span className="text-xs font-medium text-slate-500">{p.product === 'fcr' ? 'FCR' : 'aFRR'}</span>
+                                <input type="number" min="0" step="0.5" value={p.powerMW} onChange={handleAncillaryChange(i, 'powerMW')} className="w-full p-1 border rounded text-xs" />
+                                <input type="number" min="0" step="0.5" value={p.capacityPriceEurMWh} onChange={handleAncillaryChange(i, 'capacityPriceEurMWh')} disabled={ancillaryPriceData.length > 0} className="w-full p-1 border rounded text-xs" />
+                                <input type="number" min="0" step="0.25" value={p.headroomHours} onChange={handleAncillaryChange(i, 'headroomHours')} className="w-full p-1 border rounded text-xs" />
+                            </div>
+                        ))}
+                        <div className="grid grid-cols-2 gap-1 mt-1">
+                            <div><span className="text-[10px] text-slate-400">Blok (uur)</span><input type="number" min="1" max="24" step="1" value={ancillaryBlockHours} onChange={handleInputChange(setAncillaryBlockHours)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Bij congestie</span>
+                                <select value={ancillaryConflictRule} onChange={(e) => setAncillaryConflictRule(e.target.value as AncillaryConflictRule)} className="w-full p-1 border rounded text-xs bg-white">
+                                    <option value="exclude-block">Blok uitsluiten</option>
+                                    <option value="reduce-power">Vermogen reduceren</option>
+                                </select>
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">{ancillaryPriceData.length > 0 ? `${ancillaryPriceData.length.toLocaleString('nl-NL')} capaciteitsprijzen geladen (vervangt vaste prijs).` : 'Vaste capaciteitsprijs, of upload een CSV (datum;FCR €/MW/u;aFRR €/MW/u).'}</p>
+                    </div>
+                </div>
+
+                <div className="border-t border-slate-100 pt-4 space-y-4">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Investering</h3>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">CAPEX</label>
+                        <div className="grid grid-cols-3 gap-1">
+                            <div><span className="text-[10px] text-slate-400">Batterij €/MW</span><input type="number" min="0" step="10000" value={batteryCapexPerMW} onChange={handleInputChange(setBatteryCapexPerMW)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Batterij €/MWh</span><input type="number" min="0" step="10000" value={batteryCapexPerMWh} onChange={handleInputChange(setBatteryCapexPerMWh)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Zon €/MWp</span><input type="number" min="0" step="10000" value={solarCapexPerMWp} onChange={handleInputChange(setSolarCapexPerMWp)} disabled={!solarInInvestment} className="w-full p-1 border rounded text-xs" /></div>
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-slate-600 mt-1"><input type="checkbox" checked={solarInInvestment} onChange={(e) => setSolarInInvestment(e.target.checked)} /> Zonnepark ({targetSolarMWp} MWp) is onderdeel van de investering</label>
+                    </div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">OPEX & Vervanging</label>
+                        <div className="grid grid-cols-2 gap-1">
+                            <div><span className="text-[10px] text-slate-400">Vast (% CAPEX/jaar)</span><input type="number" min="0" step="0.1" value={fixedOpexPercent} onChange={handleInputChange(setFixedOpexPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Variabel (€/MWh ontladen)</span><input type="number" min="0" step="0.5" value={variableOpexPerMWh} onChange={handleInputChange(setVariableOpexPerMWh)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Vervanging na (jaar, 0 = nooit)</span><input type="number" min="0" step="1" value={batteryReplacementYear} onChange={handleInputChange(setBatteryReplacementYear)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Vervanging (% batterij CAPEX)</span><input type="number" min="0" step="5" value={batteryReplacementPercent} onChange={handleInputChange(setBatteryReplacementPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                        </div>
+                    </div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Disconto & Inflatie (%)</label>
+                        <div className="grid grid-cols-2 gap-1">
+                            <div><span className="text-[10px] text-slate-400">Discontovoet</span><input type="number" min="0" step="0.5" value={discountRatePercent} onChange={handleInputChange(setDiscountRatePercent)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Inflatie</span><input type="number" step="0.5" value={inflationPercent} onChange={handleInputChange(setInflationPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                        </div>
+                    </div>
                 </div>
 
                 <div className="border-t border-slate-100 pt-4 space-y-4">
-                     <div><label className="block text-sm font-medium text-slate-600 mb-1">Logistiek (MW)</label><input type="number" min="0" step="0.1" value={logisticsMW} onChange={handleInputChange(setLogisticsMW)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" /></div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Logistiek Rooster (Van / Tot uur / MW)</label>
+                        {[...SCHEDULE_DAYS, { key: 'holiday' as const, label: 'Fd' }].filter(d => d.key !== 'holiday' || logisticsSchedule.holidaysEnabled).map(({ key, label }) => {
+                            const shifts = key === 'holiday' ? logisticsSchedule.holiday : logisticsSchedule.weekdays[key];
+                            return (
+                                <div key={key} className="flex items-start gap-1 mb-1">
+                                    <span className="text-xs font-medium text-slate-500 w-6 pt-1">{label}</span>
+                                    <div className="flex-1 space-y-1">
+                                        {shifts.length === 0 && <span className="text-[10px] text-slate-400 block pt-1">Geen diensten</span>}
+                                        {shifts.map((shift, k) => (
+                                            <div key={k} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1">
+                                                <input type="number" min="0" max="24" step="0.5" value={shift.startHour} onChange={handleShiftChange(key, k, 'startHour')} className="w-full p-1 border rounded text-xs" />
+                                                <input type="number" min="0" max="24" step="0.5" value={shift.endHour} onChange={handleShiftChange(key, k, 'endHour')} className="w-full p-1 border rounded text-xs" />
+                                                <input type="number" min="0" step="0.1" value={shift.powerMW} onChange={handleShiftChange(key, k, 'powerMW')} className="w-full p-1 border rounded text-xs" />
+                                                <button onClick={() => updateShifts(key, list => list.filter((_, i) => i !== k))} className="text-slate-400 hover:text-red-600 px-1"><Trash2 size={12} /></button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <button onClick={() => updateShifts(key, list => [...list, list[list.length - 1] || { startHour: 6, endHour: 18, powerMW: 0.5 }])} className="text-slate-400 hover:text-blue-600 pt-1"><Plus size={12} /></button>
+                                </div>
+                            );
+                        })}
+                        <div className="flex items-center justify-between mt-1">
+                            <label className="flex items-center gap-1 text-[10px] text-slate-500"><input type="checkbox" checked={logisticsSchedule.holidaysEnabled} onChange={(e) => setLogisticsSchedule({ ...logisticsSchedule, holidaysEnabled: e.target.checked })} /> NL feestdagen eigen rooster</label>
+                            <button onClick={handleCopyMondaySchedule} className="text-[10px] text-blue-600 hover:underline">Ma → di-vr kopiëren</button>
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">Piek {fmtNum(logisticsPeakMW)} MW, gemiddeld {fmtNum(getScheduleAverageMW(logisticsSchedule))} MW. Een dienst met eind ≤ start loopt door na middernacht.</p>
+                    </div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Lastprofielen</label>
+                        <select value={loadAlignment} onChange={(e) => setLoadAlignment(e.target.value as SolarAlignmentMode)} disabled={dcLoadData.length === 0 && logisticsLoadData.length === 0} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm">
+                            <option value="typical">Lastprofiel: typisch jaar herhalen</option>
+                            <option value="exact">Lastprofiel: exacte tijdstempels</option>
+                        </select>
+                        <p className="text-[10px] text-slate-400 mt-1">DC: {dcLoadData.length > 0 ? `${dcLoadData.length.toLocaleString('nl-NL')} waarden, geschaald naar gemiddeld DC vermogen × benutting` : 'vlak (geen profiel)'}. Logistiek: {logisticsLoadData.length > 0 ? `${logisticsLoadData.length.toLocaleString('nl-NL')} waarden, piek geschaald naar logistiek MW` : 'vast blok (geen profiel)'}.</p>
+                    </div>
                      <div><label className="block text-sm font-medium text-slate-600 mb-1">Batterij (MW / MWh)</label><div className="grid grid-cols-2 gap-2"><input type="number" value={batteryPowerMW} onChange={handleInputChange(setBatteryPowerMW)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" /><input type="number" value={batteryCapacityMWh} onChange={handleInputChange(setBatteryCapacityMWh)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm" /></div></div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Batterij Techniek</label>
+                        <div className="grid grid-cols-3 gap-1">
+                            <div><span className="text-[10px] text-slate-400">Laden %</span><input type="number" min="1" max="100" step="0.5" value={chargeEfficiency} onChange={handleInputChange(setChargeEfficiency)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Ontladen %</span><input type="number" min="1" max="100" step="0.5" value={dischargeEfficiency} onChange={handleInputChange(setDischargeEfficiency)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Hulpverbr. MW</span><input type="number" min="0" step="0.01" value={auxiliaryMW} onChange={handleInputChange(setAuxiliaryMW)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Min SoC %</span><input type="number" min="0" max="100" step="1" value={minSoCPercent} onChange={handleInputChange(setMinSoCPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Max SoC %</span><input type="number" min="0" max="100" step="1" value={maxSoCPercent} onChange={handleInputChange(setMaxSoCPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Start SoC %</span><input type="number" min="0" max="100" step="1" value={initialSoCPercent} onChange={handleInputChange(setInitialSoCPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">Round-trip rendement: {fmtNum(chargeEfficiency * dischargeEfficiency / 100)}%</p>
+                     </div>
+                     <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">Dispatch Strategie</label>
+                        <select value={dispatchStrategy} onChange={(e) => setDispatchStrategy(e.target.value as DispatchStrategy)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm">
+                            <option value="greedy">Greedy (alleen huidige uur)</option>
+                            <option value="forecast">Forecast (vooruit laden)</option>
+                            <option value="optimal">Optimaal (LP, kostenminimaal)</option>
+                        </select>
+                        <div className="grid grid-cols-2 gap-1 mt-1">
+                            <div><span className="text-[10px] text-slate-400">Vooruitblik (uur)</span><input type="number" min="0" max="168" step="1" value={lookAheadHours} onChange={handleInputChange(setLookAheadHours)} className="w-full p-1 border rounded text-xs" /></div>
+                            <div><span className="text-[10px] text-slate-400">Standby SoC %</span><input type="number" min="0" max="100" step="1" value={standbySoCPercent} onChange={handleInputChange(setStandbySoCPercent)} className="w-full p-1 border rounded text-xs" /></div>
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">Forecast houdt de batterij op standby SoC en laadt vooraf bij aangekondigde beperkingen.</p>
+                     </div>
                 </div>
             </div>
         </div>
@@ -1338,7 +2325,8 @@ export default function App() {
                         <p className="text-sm text-slate-400 mb-4">(Max 15% van MWh volume toegestaan)</p>
                         <div className="space-y-2 mt-auto">
                             <div className="flex items-center justify-between text-sm border-b border-slate-50 pb-2"><span className="text-slate-500 flex items-center gap-2"><Activity size={16}/> MWh Beperkt:</span><span className="font-medium">{fmtMWh(stats.totalMWhRestrictedGrid)} MWh</span></div>
-                            <div className="flex items-center justify-between text-sm"><span className="text-slate-500 flex items-center gap-2"><Calendar size={16}/> Uren Beperkt:</span><span className="font-medium">{stats.totalHoursRestricted} uur</span></div>
+                            <div className="flex items-center justify-between text-sm border-b border-slate-50 pb-2"><span className="text-slate-500 flex items-center gap-2"><Calendar size={16}/> Uren Beperkt:</span><span className="font-medium">{stats.totalHoursRestricted.toLocaleString('nl-NL')} uur</span></div>
+                            <div className="flex items-center justify-between text-sm"><span className="text-slate-500 flex items-center gap-2"><Clock size={16}/> Resolutie:</span><span className="font-medium">{Math.round(stats.timestepHours * 60)} min</span></div>
                         </div>
                     </div>
                 </div>
@@ -1349,7 +2337,14 @@ export default function App() {
                         <div><div className="flex flex-col"><span className="text-xl font-bold text-green-600">{fmtMWh(stats.tradingVolumePotentialMWh)}</span><span className="text-[10px] text-slate-500">MWh</span></div></div>
                         <div><div className="flex flex-col"><span className="text-xl font-bold text-green-600">{fmtNum(tradingVolumePercent)}%</span><span className="text-[10px] text-slate-500">van max cap.</span></div></div>
                     </div>
-                    <p className="text-[10px] text-slate-400 mt-2">Beschikbare tijd, volume en % van max capaciteit (87.660 MWh) om te handelen wanneer de batterij niet nodig is voor congestiemanagement.</p>
+                    <p className="text-[10px] text-slate-400 mt-2">Beschikbare tijd, volume en % van max capaciteit ({fmtMWh(maxTradingVolume)} MWh) om te handelen wanneer de batterij niet nodig is voor congestiemanagement.</p>
+                    {priceData.length > 0 && arbitrageEnabled && (
+                        <div className="mt-3 pt-3 border-t border-slate-100 grid grid-cols-3 gap-6">
+                            <div><div className="flex flex-col"><span className="text-xl font-bold text-purple-600">{fmtEuro(stats.arbitrageRevenue)}</span><span className="text-[10px] text-slate-500">arbitrage opbrengst</span></div></div>
+                            <div><div className="flex flex-col"><span className="text-xl font-bold text-purple-600">{fmtMWh(stats.arbitrageSoldMWh)}</span><span className="text-[10px] text-slate-500">MWh verkocht</span></div></div>
+                            <div><div className="flex flex-col"><span className="text-xl font-bold text-purple-600">{fmtMWh(stats.arbitrageBoughtMWh)}</span><span className="text-[10px] text-slate-500">MWh ingekocht</span></div></div>
+                        </div>
+                    )}
                 </div>
                 {/* Solar Config Card with Inputs Restored - Added hide-in-preview class */}
                 <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 card-container hide-in-preview">
@@ -1368,6 +2363,13 @@ export default function App() {
                         </div>
                     </div>
                     <p className="text-[10px] text-slate-400 mt-1">Schaalfactor: x{solarScaleFactor.toFixed(2)}</p>
+                    <div className="mt-2">
+                        <span className="text-[10px] text-slate-400 block mb-1">Uitlijning zonprofiel</span>
+                        <select value={solarAlignment} onChange={(e) => setSolarAlignment(e.target.value as SolarAlignmentMode)} className="w-full p-2 border border-slate-300 rounded-md bg-slate-50 text-sm">
+                            <option value="typical">Typisch jaar herhalen</option>
+                            <option value="exact">Exacte tijdstempels</option>
+                        </select>
+                    </div>
                 </div>
             </div>
 
@@ -1384,7 +2386,7 @@ export default function App() {
                         <div className="flex items-center gap-2 mt-1 bg-slate-50 p-2 rounded border border-slate-100"><Clock size={14} className="text-slate-400"/><span className="text-xs text-slate-600">Geschatte autonomie: <strong>{stats.batteryAutonomyHours.toFixed(1)} uur</strong></span></div>
                     </div>
                     {stats.loadDeficitMWhWithBat > 0 ? (
-                        <div className="mt-auto bg-slate-50 rounded-lg p-3 border border-slate-100"><h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1"><Fuel size={12}/> Netto Extra Kosten</h4><div className="space-y-1 text-sm"><div className="flex justify-between text-slate-500"><span>Diesel:</span><span>{fmtEuro(grossDieselCost)}</span></div><div className="flex justify-between text-slate-500"><span>Min Stroom:</span><span className="text-green-600">-{fmtEuro(avoidedGridCost)}</span></div><div className="flex justify-between border-t border-slate-200 pt-1 mt-1 font-bold text-slate-800"><span>Netto:</span><span>{fmtEuro(netExtraCost)}</span></div></div></div>
+                        <div className="mt-auto bg-slate-50 rounded-lg p-3 border border-slate-100"><h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1"><Fuel size={12}/> Netto Extra Kosten</h4><div className="space-y-1 text-sm"><div className="flex justify-between text-slate-500"><span>Diesel:</span><span>{fmtEuro(grossDieselCost)}</span></div><div className="flex justify-between text-[10px] text-slate-400"><span>{stats.gensetStarts.toLocaleString('nl-NL')} starts, {fmtNum(stats.gensetRunHours)} draaiuren</span><span>{fmtNum(stats.gensetFuelLiters)} L</span></div>{lostLoadCost > 0 && <div className="flex justify-between text-red-600"><span>Niet geleverd:</span><span>{fmtEuro(lostLoadCost)}</span></div>}<div className="flex justify-between text-slate-500"><span>Min Stroom:</span><span className="text-green-600">-{fmtEuro(avoidedGridCost)}</span></div><div className="flex justify-between border-t border-slate-200 pt-1 mt-1 font-bold text-slate-800"><span>Netto:</span><span>{fmtEuro(netExtraCost)}</span></div>{stats.gensetUnservedMWh > 0.01 && <div className="flex justify-between text-xs font-bold text-red-600"><span>Niet geleverd:</span><span>{fmtMWh(stats.gensetUnservedMWh)} MWh</span></div>}</div></div>
                     ) : (<div className="mt-auto flex items-start gap-2 text-xs text-green-700 bg-green-50 p-2 rounded"><Activity size={14} className="mt-0.5 flex-shrink-0" />Geen noodstroom nodig.</div>)}
                 </div>
             </div>
@@ -1445,6 +2447,9 @@ export default function App() {
                                 <Bar dataKey="Direct Zon" stackId="a" fill="#fbbf24" barSize={80}><LabelList dataKey="Direct Zon" content={(props: any) => <CustomizedLabel {...props} formatter={fmtMWh} index={1} total={stats.totalLoadConsumption} />}/></Bar>
                                 <Bar dataKey="Uit Batterij" stackId="a" fill="#10b981" barSize={80}><LabelList dataKey="Uit Batterij" content={(props: any) => <CustomizedLabel {...props} formatter={fmtMWh} index={2} total={stats.totalLoadConsumption} />}/></Bar>
                                 <Bar dataKey="Diesel/Tekort" stackId="a" fill="#ef4444" radius={[4, 4, 0, 0]} barSize={80}><LabelList dataKey="Diesel/Tekort" content={(props: any) => <CustomizedLabel {...props} formatter={fmtMWh} index={3} total={stats.totalLoadConsumption} />}/></Bar>
+                                <Bar dataKey="Laadverlies" stackId="a" fill="#94a3b8" barSize={80} />
+                                <Bar dataKey="Ontlaadverlies" stackId="a" fill="#64748b" barSize={80} />
+                                <Bar dataKey="Hulpverbruik" stackId="a" fill="#334155" radius={[4, 4, 0, 0]} barSize={80} />
                             </BarChart>
                         </ResponsiveContainer>
                     </div>
@@ -1518,6 +2523,9 @@ export default function App() {
                   <Activity className="text-blue-600" size={18}/> CSC Benutting & Mitigatie per Jaar
               </h3>
               <p className="text-xs text-slate-500">Overzicht van beperkingen en hoe deze zijn opgevangen. Alle volumes in MWh.</p>
+              {multiYearStats.some(y => y.dataStatus !== 'measured') && (
+                  <p className="text-[10px] text-amber-600 mt-1">Niet alle jaren komen uit het grid profiel: (G) gedeeltelijk, (S) synthetisch onbeperkt, (E) geëxtrapoleerd uit andere jaren. De aanvulling staat bij Ontbrekende data.</p>
+              )}
           </div>
           <div className="overflow-x-auto">
               <table className="w-full text-xs text-left">
@@ -1534,14 +2542,19 @@ export default function App() {
                   </thead>
                   <tbody className="divide-y divide-slate-100">
                       {multiYearStats.map((stat) => {
-                          const totalYearlyMWh = 87660;
+                          const totalYearlyMWh = Math.min(stat.capContractedMW, stat.capConnectionMW) * hoursInYear(stat.year);
                           const restrictedPct = (stat.restrictedVolumeLoad / totalYearlyMWh) * 100;
                           const afterSolarPct = (stat.deficitAfterSolar / totalYearlyMWh) * 100;
                           const afterBatPct = (stat.dcDeficitWithBat / totalYearlyMWh) * 100;
 
                           return (
                               <tr key={stat.year} className="hover:bg-slate-50">
-                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">{stat.year}</td>
+                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">
+                                      {stat.year}
+                                      {stat.dataStatus !== 'measured' && (
+                                          <span className={`ml-1 px-1 rounded text-[9px] font-sans font-medium ${YEAR_STATUS_LABELS[stat.dataStatus].className}`} title={`${fmtNum(stat.dataCoverage)}% van de stappen staat in het grid profiel`}>{YEAR_STATUS_LABELS[stat.dataStatus].label}</span>
+                                      )}
+                                  </td>
                                   <td className="px-3 py-1 text-right">
                                       <span className={`font-bold ${stat.cscPercentage > 15 ? 'text-red-600' : 'text-green-600'}`}>
                                           {fmtNum(stat.cscPercentage)}%
@@ -1570,7 +2583,7 @@ export default function App() {
           </div>
           <div className="p-3 border-t border-slate-100 bg-slate-50">
               <p className="text-[10px] text-slate-500 italic">
-                  * Noot: De percentages bij 'Beperkt % CSC', 'Beperkt Vol. CSC', 'Na Zon' en 'Na Batterij' zijn berekend t.o.v. de maximale jaarlijkse netcapaciteit (87.660 MWh). 
+                  * Noot: De percentages bij 'Beperkt % CSC', 'Beperkt Vol. CSC', 'Na Zon' en 'Na Batterij' zijn berekend t.o.v. de maximale jaarlijkse gecontracteerde transportcapaciteit van dat jaar (contract MW × uren in het jaar). 
                   Het percentage in de kolom 'Diesel %' is berekend t.o.v. de daadwerkelijke energievraag van het datacenter in dat specifieke jaar.
               </p>
           </div>
@@ -1584,7 +2597,7 @@ export default function App() {
           <div className="overflow-x-auto">
               <table className="w-full text-xs text-left">
                   <thead className="bg-slate-50 text-slate-500 font-medium">
-                      <tr><th className="px-3 py-1">Jaar</th><th className="px-3 py-1 text-right">Totaal Verbruik (MWh)</th><th className="px-3 py-1 text-right">Direct Net (MWh)</th><th className="px-3 py-1 text-right">Direct Zon (MWh)</th><th className="px-3 py-1 text-right">Uit Batterij (MWh)</th><th className="px-3 py-1 text-right">Diesel/Tekort (MWh)</th></tr>
+                      <tr><th className="px-3 py-1">Jaar</th><th className="px-3 py-1 text-right">Totaal Verbruik (MWh)</th><th className="px-3 py-1 text-right">Direct Net (MWh)</th><th className="px-3 py-1 text-right">Direct Zon (MWh)</th><th className="px-3 py-1 text-right">Uit Batterij (MWh)</th><th className="px-3 py-1 text-right">Diesel/Tekort (MWh)</th><th className="px-3 py-1 text-right">Batterijverlies (MWh)</th></tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
                       {multiYearStats.map((stat) => {
@@ -1601,6 +2614,164 @@ export default function App() {
                                   <td className="px-3 py-1 text-right text-yellow-600">{fmtMWh(stat.totalSolarToLoad)} <span className="text-slate-400 text-[10px]">({fmtNum(sunPct)}%)</span></td>
                                   <td className="px-3 py-1 text-right text-green-600">{fmtMWh(stat.totalBatToLoad)} <span className="text-slate-400 text-[10px]">({fmtNum(batPct)}%)</span></td>
                                   <td className="px-3 py-1 text-right text-red-600 font-bold">{fmtMWh(stat.dcDeficitWithBat)} <span className="text-slate-400 text-[10px] font-normal">({fmtNum(dslPct)}%)</span></td>
+                                  <td className="px-3 py-1 text-right text-slate-500">{fmtMWh(stat.totalBatteryLoss)}</td>
+                              </tr>
+                          );
+                      })}
+                  </tbody>
+              </table>
+          </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+          <div className="p-4 border-b border-slate-100">
+              <h3 className="font-bold text-slate-900 flex items-center gap-2"><Banknote className="text-purple-600" size={18}/> Opbrengsten Stapeling per Jaar</h3>
+              <p className="text-xs text-slate-500">Opbrengsten van de batterij naast de congestietaak (day-ahead arbitrage en FCR/aFRR capaciteit) afgezet tegen de netto extra kosten van de tekorten.</p>
+          </div>
+          <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left">
+                  <thead className="bg-slate-50 text-slate-500 font-medium">
+                      <tr><th className="px-3 py-1">Jaar</th><th className="px-3 py-1 text-right">Netto Extra Kosten</th><th className="px-3 py-1 text-right">Arbitrage</th><th className="px-3 py-1 text-right">FCR</th><th className="px-3 py-1 text-right">aFRR</th><th className="px-3 py-1 text-right">Totaal Opbrengst</th><th className="px-3 py-1 text-right">Netto Resultaat</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {multiYearStats.map((stat) => {
+                          const totalRevenue = stat.arbitrageRevenue + stat.fcrRevenue + stat.afrrRevenue;
+                          const netResult = totalRevenue - stat.netExtraCost;
+                          return (
+                              <tr key={stat.year} className="hover:bg-slate-50">
+                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">{stat.year}</td>
+                                  <td className="px-3 py-1 text-right text-red-600">{fmtEuro(stat.netExtraCost)}</td>
+                                  <td className="px-3 py-1 text-right text-purple-600">{fmtEuro(stat.arbitrageRevenue)}</td>
+                                  <td className="px-3 py-1 text-right text-teal-600">{fmtEuro(stat.fcrRevenue)} <span className="text-slate-400 text-[10px]">({fmtNum(stat.fcrHours)} u)</span></td>
+                                  <td className="px-3 py-1 text-right text-teal-600">{fmtEuro(stat.afrrRevenue)} <span className="text-slate-400 text-[10px]">({fmtNum(stat.afrrHours)} u)</span></td>
+                                  <td className="px-3 py-1 text-right font-bold text-green-600">{fmtEuro(totalRevenue)}</td>
+                                  <td className={`px-3 py-1 text-right font-bold ${netResult >= 0 ? 'text-green-600' : 'text-red-600'}`}>{fmtEuro(netResult)}</td>
+                              </tr>
+                          );
+                      })}
+                  </tbody>
+              </table>
+          </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+          <div className="p-4 border-b border-slate-100">
+              <div className="flex justify-between items-start gap-4">
+                  <h3 className="font-bold text-slate-900 flex items-center gap-2"><Scale className="text-blue-600" size={18}/> Investeringscase</h3>
+                  <button onClick={handleRunBaseline} disabled={isBaselineRunning} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+                      {isBaselineRunning ? 'Bezig met berekenen...' : (baselineRun ? 'Opnieuw berekenen' : 'Bereken investeringscase')}
+                  </button>
+              </div>
+              <p className="text-xs text-slate-500">Batterij {batteryPowerMW} MW / {batteryCapacityMWh} MWh{solarInInvestment ? ` met ${targetSolarMWp} MWp zon` : ''} afgezet tegen dezelfde jaren zonder batterij{solarInInvestment ? ' en zonder zon' : ''}. Besparing = lagere energiekosten (diesel + niet geleverde energie + netinkoop); bedragen nominaal met {inflationPercent}% inflatie, verdisconteerd tegen {discountRatePercent}%.</p>
+          </div>
+          {investmentCase ? (
+              <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 border-b border-slate-100">
+                  <div className="flex flex-col"><span className="text-[10px] text-slate-500 uppercase">CAPEX</span><span className="text-xl font-bold text-slate-800">{fmtEuro(investmentCase.totalCapex)}</span><span className="text-[10px] text-slate-400">Batterij {fmtEuro(investmentCase.batteryCapex)}{solarInInvestment ? `, zon ${fmtEuro(investmentCase.solarCapex)}` : ''}</span></div>
+                  <div className="flex flex-col"><span className="text-[10px] text-slate-500 uppercase">Netto Contante Waarde</span><span className={`text-xl font-bold ${investmentCase.npv >= 0 ? 'text-green-600' : 'text-red-600'}`}>{fmtEuro(investmentCase.npv)}</span></div>
+                  <div className="flex flex-col"><span className="text-[10px] text-slate-500 uppercase">IRR</span><span className="text-xl font-bold text-slate-800">{investmentCase.irr !== null ? `${fmtNum(investmentCase.irr * 100)}%` : 'n.v.t.'}</span></div>
+                  <div className="flex flex-col"><span className="text-[10px] text-slate-500 uppercase">Terugverdientijd</span><span className="text-xl font-bold text-slate-800">{investmentCase.paybackYears !== null ? `${investmentCase.paybackYears.toLocaleString('nl-NL', { maximumFractionDigits: 1 })} jaar` : `> ${investmentCase.rows.length} jaar`}</span></div>
+              </div>
+              <div className="overflow-x-auto">
+                  <table className="w-full text-xs text-left">
+                      <thead className="bg-slate-50 text-slate-500 font-medium">
+                          <tr><th className="px-3 py-1">Jaar</th><th className="px-3 py-1 text-right">Besparing</th><th className="px-3 py-1 text-right">Opbrengsten</th><th className="px-3 py-1 text-right">OPEX</th><th className="px-3 py-1 text-right">Vervanging</th><th className="px-3 py-1 text-right">Netto Kasstroom</th><th className="px-3 py-1 text-right">Contante Waarde</th><th className="px-3 py-1 text-right">Cumulatief</th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          <tr className="hover:bg-slate-50">
+                              <td className="px-3 py-1 font-mono font-bold text-slate-700">Start</td>
+                              <td className="px-3 py-1" colSpan={4}></td>
+                              <td className="px-3 py-1 text-right font-bold text-red-600">{fmtEuro(-investmentCase.totalCapex)}</td>
+                              <td className="px-3 py-1 text-right text-red-600">{fmtEuro(-investmentCase.totalCapex)}</td>
+                              <td className="px-3 py-1 text-right text-red-600">{fmtEuro(-investmentCase.totalCapex)}</td>
+                          </tr>
+                          {investmentCase.rows.map((row) => (
+                              <tr key={row.year} className="hover:bg-slate-50">
+                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">{row.year}</td>
+                                  <td className={`px-3 py-1 text-right ${row.savings >= 0 ? 'text-green-600' : 'text-red-600'}`}>{fmtEuro(row.savings)}</td>
+                                  <td className="px-3 py-1 text-right text-purple-600">{fmtEuro(row.revenue)}</td>
+                                  <td className="px-3 py-1 text-right text-slate-600">{fmtEuro(-row.opex)}</td>
+                                  <td className="px-3 py-1 text-right text-slate-600">{row.replacement > 0 ? fmtEuro(-row.replacement) : '-'}</td>
+                                  <td className={`px-3 py-1 text-right font-bold ${row.netCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>{fmtEuro(row.netCashFlow)}</td>
+                                  <td className="px-3 py-1 text-right">{fmtEuro(row.discountedCashFlow)}</td>
+                                  <td className={`px-3 py-1 text-right ${row.cumulativeCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>{fmtEuro(row.cumulativeCashFlow)}</td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+              </>
+          ) : (
+              <p className="p-4 text-xs text-slate-400">{baselineRun ? 'De invoer is gewijzigd sinds de referentie zonder batterij is berekend.' : 'Nog geen referentie zonder batterij berekend.'} De investeringscase vergelijkt de jaren met en zonder batterij en heeft daarvoor een extra simulatie van de horizon nodig.</p>
+          )}
+      </div>
+
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+          <div className="p-4 border-b border-slate-100">
+              <h3 className="font-bold text-slate-900 flex items-center gap-2"><Leaf className="text-emerald-600" size={18}/> Emissies per Jaar</h3>
+              <p className="text-xs text-slate-500">CO2 van de generatoren (diesel) en van de netafname inclusief batterijladen en arbitrage, met NOx en fijnstof van de diesel. CO2 kosten tegen {fmtEuro(co2PricePerTonne)}/ton.</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 print:grid-cols-2">
+              <div className="overflow-x-auto">
+                  <table className="w-full text-xs text-left">
+                      <thead className="bg-slate-50 text-slate-500 font-medium">
+                          <tr><th className="px-3 py-1">Jaar</th><th className="px-3 py-1 text-right">CO2 Diesel (t)</th><th className="px-3 py-1 text-right">CO2 Net (t)</th><th className="px-3 py-1 text-right">Totaal (t)</th><th className="px-3 py-1 text-right">NOx (kg)</th><th className="px-3 py-1 text-right">PM (kg)</th><th className="px-3 py-1 text-right">CO2 Kosten</th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          {multiYearStats.map((stat) => (
+                              <tr key={stat.year} className="hover:bg-slate-50">
+                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">{stat.year}</td>
+                                  <td className="px-3 py-1 text-right text-orange-600">{fmtNum(stat.dieselCo2Tonnes)}</td>
+                                  <td className="px-3 py-1 text-right text-slate-600">{fmtNum(stat.gridCo2Tonnes)}</td>
+                                  <td className="px-3 py-1 text-right font-bold text-slate-800">{fmtNum(stat.totalCo2Tonnes)}</td>
+                                  <td className="px-3 py-1 text-right">{fmtNum(stat.dieselNoxKg)}</td>
+                                  <td className="px-3 py-1 text-right">{fmtNum(stat.dieselPmKg)}</td>
+                                  <td className="px-3 py-1 text-right text-red-600">{fmtEuro(stat.carbonCost)}</td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+              <div className="h-[250px] w-full p-4 chart-container">
+                  <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={multiYearStats} margin={{ top: 10, right: 30, left: 10, bottom: 5 }}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                          <XAxis dataKey="year" tickFormatter={fmtYearTick} />
+                          <YAxis yAxisId="left" label={{ value: 'ton CO2', angle: -90, position: 'insideLeft' }} />
+                          <YAxis yAxisId="right" orientation="right" tickFormatter={(val) => `€${val/1000}k`} />
+                          <Tooltip formatter={(value: number, name: string) => [name === 'CO2 Kosten' ? fmtEuro(value) : `${fmtNum(value)} t`, name]} />
+                          <Legend />
+                          <Bar yAxisId="left" dataKey="dieselCo2Tonnes" name="Diesel" stackId="co2" fill="#ea580c" />
+                          <Bar yAxisId="left" dataKey="gridCo2Tonnes" name="Net" stackId="co2" fill="#94a3b8" radius={[4, 4, 0, 0]} />
+                          <Line yAxisId="right" type="monotone" dataKey="carbonCost" name="CO2 Kosten" stroke="#dc2626" strokeWidth={2} dot={{r:3}} />
+                      </ComposedChart>
+                  </ResponsiveContainer>
+              </div>
+          </div>
+      </div>
+
+      {solarData.length > 0 && (
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+          <div className="p-4 border-b border-slate-100">
+              <h3 className="font-bold text-slate-900 flex items-center gap-2"><Sun className="text-yellow-500" size={18}/> Uitlijning Zonprofiel per Jaar</h3>
+              <p className="text-xs text-slate-500">Aantal uren waarvoor zondata gevonden is ({solarAlignment === 'exact' ? 'exacte tijdstempels' : 'typisch jaar herhaald'}), overbrugd door interpolatie of ontbreekt (gerekend als 0 MW). Tijden in {TIME_ZONE}.</p>
+          </div>
+          <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left">
+                  <thead className="bg-slate-50 text-slate-500 font-medium">
+                      <tr><th className="px-3 py-1">Jaar</th><th className="px-3 py-1 text-right">Gematcht (uur)</th><th className="px-3 py-1 text-right">Geïnterpoleerd (uur)</th><th className="px-3 py-1 text-right">Ontbrekend (uur)</th><th className="px-3 py-1 text-right">Dekking</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {multiYearStats.map((stat) => {
+                          const total = stat.solarMatchedHours + stat.solarInterpolatedHours + stat.solarMissingHours;
+                          const coverage = total > 0 ? ((stat.solarMatchedHours + stat.solarInterpolatedHours) / total) * 100 : 0;
+                          return (
+                              <tr key={stat.year} className="hover:bg-slate-50">
+                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">{stat.year}</td>
+                                  <td className="px-3 py-1 text-right text-green-600">{stat.solarMatchedHours.toLocaleString('nl-NL')}</td>
+                                  <td className="px-3 py-1 text-right text-yellow-600">{stat.solarInterpolatedHours.toLocaleString('nl-NL')}</td>
+                                  <td className={`px-3 py-1 text-right ${stat.solarMissingHours > 0 ? 'text-red-600 font-bold' : 'text-slate-400'}`}>{stat.solarMissingHours.toLocaleString('nl-NL')}</td>
+                                  <td className="px-3 py-1 text-right">{fmtNum(coverage)}%</td>
                               </tr>
                           );
                       })}
@@ -1608,21 +2779,29 @@ export default function App() {
               </table>
           </div>
       </div>
+      )}
 
       <div className="max-w-7xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-8 mb-8 print:gap-4">
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 card-container chart-container">
             <h3 className="text-lg font-bold text-slate-900 mb-1 flex items-center gap-2"><TrendingUp className="text-blue-600" size={20}/> Meerjaren: Tekort & Kosten</h3>
-            <p className="text-xs text-slate-500 mb-4">Relatie tussen tekort (MWh) en netto kosten (€) per jaar.</p>
+            <p className="text-xs text-slate-500 mb-4">Relatie tussen tekort (MWh) en netto kosten (€) per jaar.{monteCarloResults ? ` Banden: P10–P90 over ${monteCarloResults.scenarios} scenario's, stippellijn P50.` : ''}</p>
             <div className="h-[250px] w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                    <ComposedChart data={multiYearStats} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+                    <ComposedChart data={multiYearChartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                        <XAxis dataKey="year" />
+                        <XAxis dataKey="year" tickFormatter={fmtYearTick} />
                         <YAxis yAxisId="left" label={{ value: 'MWh', angle: -90, position: 'insideLeft' }} />
                         <YAxis yAxisId="right" orientation="right" tickFormatter={(val) => `€${val/1000}k`} />
-                        <Tooltip formatter={(value: number, name: string) => [name === 'netExtraCost' ? fmtEuro(value) : fmtNum(value), name === 'netExtraCost' ? 'Netto Kosten' : 'Tekort (MWh)']} />
+                        <Tooltip formatter={(value: number | number[], name: string) => {
+                            const fmt = name.includes('€') ? fmtEuro : fmtNum;
+                            return [Array.isArray(value) ? value.map(fmt).join(' – ') : fmt(value), name];
+                        }} />
                         <Bar yAxisId="left" dataKey="dcDeficitWithBat" name="Tekort (MWh)" fill="#f97316" radius={[4, 4, 0, 0]} barSize={30} />
                         <Line yAxisId="right" type="monotone" dataKey="netExtraCost" name="Netto Kosten (€)" stroke="#10b981" strokeWidth={3} dot={{r:4}} />
+                        {monteCarloResults && <Area yAxisId="left" type="monotone" dataKey="mcDeficitBand" name="Tekort P10–P90 (MWh)" stroke="none" fill="#f97316" fillOpacity={0.15} />}
+                        {monteCarloResults && <Line yAxisId="left" type="monotone" dataKey="mcDeficitP50" name="Tekort P50 (MWh)" stroke="#c2410c" strokeDasharray="4 4" dot={false} />}
+                        {monteCarloResults && <Area yAxisId="right" type="monotone" dataKey="mcCostBand" name="Kosten P10–P90 (€)" stroke="none" fill="#10b981" fillOpacity={0.15} />}
+                        {monteCarloResults && <Line yAxisId="right" type="monotone" dataKey="mcCostP50" name="Kosten P50 (€)" stroke="#047857" strokeDasharray="4 4" dot={false} />}
                     </ComposedChart>
                 </ResponsiveContainer>
             </div>
@@ -1631,23 +2810,197 @@ export default function App() {
         {/* NEW CHART: Diesel Liters Trend */}
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 card-container chart-container">
             <h3 className="text-lg font-bold text-slate-900 mb-1 flex items-center gap-2"><Fuel className="text-orange-600" size={20}/> Verwacht Dieselverbruik (Liters)</h3>
-            <p className="text-xs text-slate-500 mb-4">Geschat aantal liters diesel benodigd voor noodstroom per jaar.</p>
+            <p className="text-xs text-slate-500 mb-4">Liters diesel, starts en draaiuren van de generatoren per jaar ({gensetUnits} × {gensetRatedMW} MW).</p>
             <div className="h-[250px] w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={multiYearStats} margin={{ top: 20, right: 30, left: 15, bottom: 5 }}>
+                    <ComposedChart data={multiYearChartData} margin={{ top: 20, right: 30, left: 15, bottom: 5 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                        <XAxis dataKey="year" />
-                        <YAxis label={{ value: 'Liters', angle: -90, position: 'insideLeft', offset: 0 }} />
-                        <Tooltip formatter={(value: number) => [`${Math.round(value).toLocaleString('nl-NL')} L`, 'Diesel']} />
-                        <Bar dataKey="dieselLiters" name="Diesel (L)" fill="#ea580c" radius={[4, 4, 0, 0]} barSize={40}>
+                        <XAxis dataKey="year" tickFormatter={fmtYearTick} />
+                        <YAxis yAxisId="left" label={{ value: 'Liters', angle: -90, position: 'insideLeft', offset: 0 }} />
+                        <YAxis yAxisId="right" orientation="right" label={{ value: 'Uren / Starts', angle: 90, position: 'insideRight' }} />
+                        <Tooltip formatter={(value: number | number[], name: string) => {
+                            const fmt = (v: number) => name.includes('Diesel') ? `${Math.round(v).toLocaleString('nl-NL')} L` : Math.round(v).toLocaleString('nl-NL');
+                            return [Array.isArray(value) ? value.map(fmt).join(' – ') : fmt(value), name];
+                        }} />
+                        <Legend />
+                        <Bar yAxisId="left" dataKey="dieselLiters" name="Diesel (L)" fill="#ea580c" radius={[4, 4, 0, 0]} barSize={40}>
                              <LabelList dataKey="dieselLiters" position="top" formatter={(val: number) => val > 0 ? `${Math.round(val/1000)}k` : ''} fontSize={10} fill="#ea580c" />
                         </Bar>
-                    </BarChart>
+                        <Line yAxisId="right" type="monotone" dataKey="gensetRunHours" name="Draaiuren" stroke="#475569" strokeWidth={2} dot={{r:3}} />
+                        <Line yAxisId="right" type="monotone" dataKey="gensetStarts" name="Starts" stroke="#f59e0b" strokeWidth={2} strokeDasharray="4 4" dot={{r:3}} />
+                        {monteCarloResults && <Area yAxisId="left" type="monotone" dataKey="mcDieselBand" name="Diesel P10–P90 (L)" stroke="none" fill="#ea580c" fillOpacity={0.15} />}
+                        {monteCarloResults && <Line yAxisId="left" type="monotone" dataKey="mcDieselP50" name="Diesel P50 (L)" stroke="#9a3412" strokeDasharray="4 4" dot={false} />}
+                    </ComposedChart>
                 </ResponsiveContainer>
             </div>
+            {multiYearStats.some(s => s.gensetUnservedMWh > 0.01) && (
+                <p className="text-[10px] text-red-600 mt-2">Let op: in {multiYearStats.filter(s => s.gensetUnservedMWh > 0.01).map(s => s.year).join(', ')} kan de generatorvloot het tekort niet volledig leveren (te klein of vergunde draaiuren op).</p>
+            )}
         </div>
       </div>
 
+      {/* MONTE CARLO RESTRICTION SCENARIOS */}
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+          <div className="p-4 border-b border-slate-100 flex flex-wrap justify-between items-end gap-4">
+              <div>
+                  <h3 className="font-bold text-slate-900 flex items-center gap-2"><Activity className="text-orange-600" size={18}/> Monte Carlo Beperkingsscenario's</h3>
+                  <p className="text-xs text-slate-500">Nieuwe beperkingsprofielen getrokken uit de frequentie, duur en diepte van de beperkingen in het geladen profiel (per maand en uur, met jaartrend). P10/P50/P90: 10%, 50% en 90% van de scenario's komt op of onder deze waarde uit.</p>
+              </div>
+              <div className="flex items-end gap-2 hide-in-preview">
+                  <div><span className="text-[10px] text-slate-400 block">Scenario's</span><input type="number" min="1" max="500" step="1" value={monteCarloScenarios} onChange={handleInputChange(setMonteCarloScenarios)} className="w-20 p-1 border rounded text-xs" /></div>
+                  <div><span className="text-[10px] text-slate-400 block">Seed</span><input type="number" step="1" value={monteCarloSeed} onChange={handleInputChange(setMonteCarloSeed)} className="w-20 p-1 border rounded text-xs" /></div>
+                  <button onClick={handleRunMonteCarlo} disabled={isMonteCarloRunning || rawData.length === 0} className="bg-orange-600 hover:bg-orange-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+                      {isMonteCarloRunning ? 'Bezig met berekenen...' : 'Bereken scenario\'s'}
+                  </button>
+              </div>
+          </div>
+          {monteCarloResults ? (
+              <div className="overflow-x-auto">
+                  <p className="px-4 pt-3 text-[10px] text-slate-500">
+                      Model: {monteCarloResults.model.observedEvents.toLocaleString('nl-NL')} beperkingen in {monteCarloResults.model.observedYears} jaar historie,
+                      gem. duur {fmtNum(monteCarloResults.model.meanDurationHours.reduce((sum, h) => sum + h, 0) / 12)} uur,
+                      gem. diepte {fmtNum(monteCarloResults.model.depthsMW.flat().reduce((sum, d) => sum + d, 0) / Math.max(1, monteCarloResults.model.depthsMW.flat().length))} MW,
+                      trend {monteCarloResults.model.trendPerYear >= 0 ? '+' : ''}{fmtNum(monteCarloResults.model.trendPerYear * 100)}% per jaar.
+                      {monteCarloResults.scenarios} scenario's, seed {monteCarloResults.seed}.
+                  </p>
+                  <table className="w-full text-xs text-left mt-2">
+                      <thead className="bg-slate-50 text-slate-500 font-medium">
+                          <tr><th className="px-3 py-1">Jaar</th><th className="px-3 py-1 text-right">Tekort P10 / P50 / P90 (MWh)</th><th className="px-3 py-1 text-right">Diesel P10 / P50 / P90 (L)</th><th className="px-3 py-1 text-right">Netto Kosten P10 / P50 / P90</th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          {monteCarloResults.years.map(({ year, deficitMWh, dieselLiters, netExtraCost }) => (
+                              <tr key={year} className="hover:bg-slate-50">
+                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">{year}</td>
+                                  <td className="px-3 py-1 text-right">{fmtMWh(deficitMWh.p10)} / <span className="font-bold">{fmtMWh(deficitMWh.p50)}</span> / {fmtMWh(deficitMWh.p90)}</td>
+                                  <td className="px-3 py-1 text-right">{Math.round(dieselLiters.p10).toLocaleString('nl-NL')} / <span className="font-bold">{Math.round(dieselLiters.p50).toLocaleString('nl-NL')}</span> / {Math.round(dieselLiters.p90).toLocaleString('nl-NL')}</td>
+                                  <td className="px-3 py-1 text-right">{fmtEuro(netExtraCost.p10)} / <span className="font-bold">{fmtEuro(netExtraCost.p50)}</span> / {fmtEuro(netExtraCost.p90)}</td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+          ) : (
+              <p className="p-4 text-xs text-slate-400">Nog geen scenario's berekend; de meerjarengrafieken tonen na berekening P10–P90 banden.</p>
+          )}
+      </div>
+
+      {/* NAMED SCENARIOS & COMPARISON */}
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+          <div className="p-4 border-b border-slate-100 flex flex-wrap justify-between items-end gap-4">
+              <div>
+                  <h3 className="font-bold text-slate-900 flex items-center gap-2"><List className="text-indigo-600" size={18}/> Scenario's</h3>
+                  <p className="text-xs text-slate-500">Sla de huidige instellingen op onder een naam. Laden zet de instellingen terug in de invoer; na aanpassen werkt "Bijwerken" het scenario bij. De vergelijking rekent alle aangevinkte scenario's door op de nu geladen profielen.</p>
+              </div>
+              <div className="flex items-end gap-2 hide-in-preview">
+                  <div><span className="text-[10px] text-slate-400 block">Naam</span><input type="text" value={scenarioName} onChange={(e) => setScenarioName(e.target.value)} placeholder={`Scenario ${savedScenarios.length + 1}`} className="w-48 p-1 border rounded text-xs" /></div>
+                  <button onClick={handleSaveScenario} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium flex items-center gap-1"><Plus size={14}/> Opslaan</button>
+              </div>
+          </div>
+          {savedScenarios.length > 0 ? (
+              <div className="overflow-x-auto">
+                  <table className="w-full text-xs text-left">
+                      <thead className="bg-slate-50 text-slate-500 font-medium">
+                          <tr><th className="px-3 py-1 hide-in-preview">Vergelijk</th><th className="px-3 py-1">Naam</th><th className="px-3 py-1">Opgeslagen</th><th className="px-3 py-1 text-right">Batterij</th><th className="px-3 py-1 text-right">Zon</th><th className="px-3 py-1">Profielen</th><th className="px-3 py-1 hide-in-preview"></th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          {savedScenarios.map(scenario => {
+                              const mismatches = getProfileMismatches(scenario);
+                              return (
+                                  <tr key={scenario.id} className="hover:bg-slate-50">
+                                      <td className="px-3 py-1 hide-in-preview"><input type="checkbox" checked={comparedScenarioIds.includes(scenario.id)} onChange={() => handleToggleCompared(scenario.id)} /></td>
+                                      <td className="px-3 py-1"><input type="text" value={scenario.name} onChange={handleRenameScenario(scenario.id)} className="w-48 p-1 border border-transparent hover:border-slate-200 rounded text-xs font-bold text-slate-700" /></td>
+                                      <td className="px-3 py-1 text-slate-500">{new Date(scenario.createdAt).toLocaleString('nl-NL', { timeZone: TIME_ZONE, dateStyle: 'short', timeStyle: 'short' })}</td>
+                                      <td className="px-3 py-1 text-right">{scenario.settings.batteryPowerMW} MW / {scenario.settings.batteryCapacityMWh} MWh</td>
+                                      <td className="px-3 py-1 text-right">{scenario.settings.targetSolarMWp} MWp</td>
+                                      <td className="px-3 py-1" title={scenario.profiles.map(p => `${PROFILE_LABELS[p.type]}: ${p.fileName || 'onbekend'} (${p.rows.toLocaleString('nl-NL')} rijen)`).join('\n')}>
+                                          {mismatches.length === 0
+                                              ? <span className="text-emerald-600">Gelijk aan geladen</span>
+                                              : <span className="text-amber-600">Anders: {mismatches.map(type => PROFILE_LABELS[type]).join(', ')}</span>}
+                                      </td>
+                                      <td className="px-3 py-1 hide-in-preview">
+                                          <div className="flex gap-2 justify-end">
+                                              <button onClick={() => applySettings(scenario.settings)} className="text-blue-600 hover:underline">Laden</button>
+                                              <button onClick={() => handleUpdateScenario(scenario.id)} className="text-blue-600 hover:underline">Bijwerken</button>
+                                              <button onClick={() => handleDuplicateScenario(scenario)} className="text-blue-600 hover:underline">Dupliceren</button>
+                                              <button onClick={() => handleDeleteScenario(scenario.id)} className="text-red-500 hover:text-red-700"><Trash2 size={14}/></button>
+                                          </div>
+                                      </td>
+                                  </tr>
+                              );
+                          })}
+                      </tbody>
+                  </table>
+                  <div className="p-4 border-t border-slate-100 flex flex-wrap items-end gap-2 hide-in-preview">
+                      <div>
+                          <span className="text-[10px] text-slate-400 block">Grootheid</span>
+                          <select value={scenarioMetric} onChange={(e) => setScenarioMetric(e.target.value as ScenarioMetric)} className="p-1 border rounded text-xs">
+                              {SCENARIO_METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+                          </select>
+                      </div>
+                      <button onClick={handleRunComparison} disabled={isComparisonRunning || comparedScenarioIds.length === 0 || rawData.length === 0} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+                          {isComparisonRunning ? 'Bezig met berekenen...' : `Vergelijk ${comparedScenarioIds.length} scenario's`}
+                      </button>
+                  </div>
+              </div>
+          ) : (
+              <p className="p-4 text-xs text-slate-400">Nog geen scenario's opgeslagen.</p>
+          )}
+          {scenarioComparison.length > 0 && (
+              <div className="p-4 border-t border-slate-100">
+                  {savedScenarios.some(s => scenarioComparison.some(c => c.id === s.id) && getProfileMismatches(s).length > 0) && (
+                      <p className="text-[10px] text-amber-600 mb-2">Let op: niet alle scenario's zijn opgeslagen met de nu geladen profielen; de vergelijking gebruikt de geladen profielen.</p>
+                  )}
+                  <div className="h-[250px] w-full chart-container">
+                      <ResponsiveContainer width="100%" height="100%">
+                          <ComposedChart data={scenarioComparisonTable.chartData} margin={{ top: 20, right: 30, left: 15, bottom: 5 }}>
+                              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                              <XAxis dataKey="year" />
+                              <YAxis tickFormatter={(val) => scenarioMetric === 'netExtraCost' ? `€${val/1000}k` : val.toLocaleString('nl-NL')} />
+                              <Tooltip formatter={(value: number, name: string) => [fmtScenarioValue(value), name]} />
+                              <Legend />
+                              {scenarioComparison.map((c, i) => (
+                                  <Line key={c.id} type="monotone" dataKey={c.id} name={c.name} stroke={SCENARIO_COLORS[i % SCENARIO_COLORS.length]} strokeWidth={i === 0 ? 3 : 2} dot={{r:3}} />
+                              ))}
+                          </ComposedChart>
+                      </ResponsiveContainer>
+                  </div>
+                  <table className="w-full text-xs text-left mt-4">
+                      <thead className="bg-slate-50 text-slate-500 font-medium">
+                          <tr>
+                              <th className="px-3 py-1">Jaar</th>
+                              {scenarioComparison.map((c, i) => (
+                                  <th key={c.id} className="px-3 py-1 text-right">{c.name}{i === 0 ? ' (referentie)' : ''}</th>
+                              ))}
+                          </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          {scenarioComparisonTable.rows.map(({ year, values, deltas }) => (
+                              <tr key={year} className="hover:bg-slate-50">
+                                  <td className="px-3 py-1 font-mono font-bold text-slate-700">{year}</td>
+                                  {values.map((v, i) => (
+                                      <td key={scenarioComparison[i].id} className="px-3 py-1 text-right">
+                                          {v === undefined ? '-' : i === 0 ? fmtScenarioValue(v) : (
+                                              <>{fmtScenarioValue(v)} <span className={(deltas[i] || 0) > 0 ? 'text-red-600' : 'text-emerald-600'}>({deltas[i] === undefined ? '-' : fmtScenarioDelta(deltas[i] as number)})</span></>
+                                          )}
+                                      </td>
+                                  ))}
+                              </tr>
+                          ))}
+                          <tr className="bg-slate-50 font-bold">
+                              <td className="px-3 py-1">Totaal</td>
+                              {scenarioComparisonTable.totals.map((total, i) => (
+                                  <td key={scenarioComparison[i].id} className="px-3 py-1 text-right">
+                                      {fmtScenarioValue(total)}{i > 0 && <span className={total - scenarioComparisonTable.totals[0] > 0 ? 'text-red-600' : 'text-emerald-600'}> ({fmtScenarioDelta(total - scenarioComparisonTable.totals[0])})</span>}
+                                  </td>
+                              ))}
+                          </tr>
+                      </tbody>
+                  </table>
+                  <p className="text-[10px] text-slate-400 mt-2">{SCENARIO_METRICS.find(m => m.key === scenarioMetric)?.label} per jaar; tussen haakjes het verschil met de referentie (eerste scenario). Rood is hoger, groen lager.</p>
+              </div>
+          )}
+      </div>
+
       {/* ENERGY MIX GRAPHS ROW */}
       <div className="max-w-7xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-8 mb-8 print:gap-4">
         {/* Energy Mix MWh */}
@@ -1658,7 +3011,7 @@ export default function App() {
                 <ResponsiveContainer width="100%" height="100%">
                     <BarChart data={multiYearStats} margin={{ top: 20, right: 30, left: 10, bottom: 5 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                        <XAxis dataKey="year" />
+                        <XAxis dataKey="year" tickFormatter={fmtYearTick} />
                         <YAxis label={{ value: 'MWh', angle: -90, position: 'insideLeft' }} />
                         <Tooltip formatter={(value: number, name: string) => {
                             let label = '';
@@ -1666,6 +3019,7 @@ export default function App() {
                             if (name === 'totalSolarToLoad') label = 'Direct Zon';
                             if (name === 'totalBatToLoad') label = 'Uit Batterij';
                             if (name === 'dcDeficitWithBat') label = 'Diesel/Tekort';
+                            if (name === 'totalBatteryLoss') label = 'Batterijverlies';
                             return [`${fmtMWh(value)} MWh`, label];
                         }} />
                         <Legend />
@@ -1673,6 +3027,7 @@ export default function App() {
                         <Bar dataKey="totalSolarToLoad" name="Zon" stackId="a" fill="#fbbf24" />
                         <Bar dataKey="totalBatToLoad" name="Batterij" stackId="a" fill="#10b981" />
                         <Bar dataKey="dcDeficitWithBat" name="Diesel" stackId="a" fill="#ef4444" />
+                        <Bar dataKey="totalBatteryLoss" name="Batterijverlies" fill="#64748b" />
                     </BarChart>
                 </ResponsiveContainer>
             </div>
@@ -1686,7 +3041,7 @@ export default function App() {
                 <ResponsiveContainer width="100%" height="100%">
                     <BarChart data={multiYearStats} margin={{ top: 20, right: 30, left: 10, bottom: 5 }} stackOffset="expand">
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                        <XAxis dataKey="year" />
+                        <XAxis dataKey="year" tickFormatter={fmtYearTick} />
                         <YAxis tickFormatter={(val) => `${(val * 100).toFixed(0)}%`} />
                         <Tooltip formatter={(value: number, name: string) => {
                             let label = '';
@@ -1713,18 +3068,21 @@ export default function App() {
                 <div className="flex justify-between items-center mb-6">
                     <div>
                         <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><Banknote className="text-purple-600" size={20}/> Handelsvolume Trend</h3>
-                        <p className="text-xs text-slate-500 mt-1">Percentage van de maximale BESS capaciteit beschikbaar voor handel.</p>
+                        <p className="text-xs text-slate-500 mt-1">Percentage van de maximale BESS capaciteit beschikbaar voor handel, en de gesimuleerde day-ahead arbitrage opbrengst (na rendementsverliezen).</p>
                     </div>
                 </div>
                 <div className="h-[250px] w-full">
                     <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={multiYearStats} margin={{ top: 20, right: 30, left: 10, bottom: 5 }}>
+                        <ComposedChart data={multiYearStats} margin={{ top: 20, right: 30, left: 10, bottom: 5 }}>
                             <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                            <XAxis dataKey="year" />
-                            <YAxis label={{ value: 'Beschikbaar %', angle: -90, position: 'insideLeft' }} domain={[0, 100]} />
-                            <Tooltip formatter={(val: number) => `${fmtNum(val)}%`} />
-                            <Line type="monotone" dataKey="tradingVolumePercent" name="% Beschikbaar" stroke="#8b5cf6" strokeWidth={3} dot={{r:4}} />
-                        </LineChart>
+                            <XAxis dataKey="year" tickFormatter={fmtYearTick} />
+                            <YAxis yAxisId="left" label={{ value: 'Beschikbaar %', angle: -90, position: 'insideLeft' }} domain={[0, 100]} />
+                            <YAxis yAxisId="right" orientation="right" tickFormatter={(val) => `€${Math.round(val/1000)}k`} />
+                            <Tooltip formatter={(val: number, name: string) => name === 'Arbitrage Opbrengst' ? fmtEuro(val) : `${fmtNum(val)}%`} />
+                            <Legend />
+                            {priceData.length > 0 && arbitrageEnabled && <Bar yAxisId="right" dataKey="arbitrageRevenue" name="Arbitrage Opbrengst" fill="#10b981" barSize={20} opacity={0.6} />}
+                            <Line yAxisId="left" type="monotone" dataKey="tradingVolumePercent" name="% Beschikbaar" stroke="#8b5cf6" strokeWidth={3} dot={{r:4}} />
+                        </ComposedChart>
                     </ResponsiveContainer>
                 </div>
           </div>
@@ -1733,15 +3091,15 @@ export default function App() {
                 <div className="flex justify-between items-center mb-6">
                     <div>
                         <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><ZapIcon className="text-orange-500" size={20}/> Capaciteitsverdeling Trend (MW)</h3>
-                        <p className="text-xs text-slate-500 mt-1">Verdeling van 10MW netaansluiting.</p>
+                        <p className="text-xs text-slate-500 mt-1">Verdeling van de gecontracteerde transportcapaciteit per jaar.</p>
                     </div>
                 </div>
                 <div className="h-[250px] w-full">
                     <ResponsiveContainer width="100%" height="100%">
                         <ComposedChart data={multiYearStats} margin={{ top: 20, right: 30, left: 10, bottom: 5 }}>
                             <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                            <XAxis dataKey="year" />
-                            <YAxis label={{ value: 'MW', angle: -90, position: 'insideLeft' }} domain={[0, 10]} />
+                            <XAxis dataKey="year" tickFormatter={fmtYearTick} />
+                            <YAxis label={{ value: 'MW', angle: -90, position: 'insideLeft' }} domain={[0, maxConnectionMW]} />
                             <Tooltip formatter={(val: number) => `${val.toFixed(2)} MW`} />
                             <Legend iconType="rect" />
                             {/* Stacks for Area - Using MW values directly */}
@@ -1751,6 +3109,8 @@ export default function App() {
                             
                             {/* Contract Line - Needs to be total height of Log + Contract DC */}
                             <Line type="step" dataKey={(d) => d.capDcContractMW + d.capLogisticsMW} name="Gecontracteerd Totaal" stroke="#000" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                            <Line type="step" dataKey="capContractedMW" name="Transportcapaciteit" stroke="#2563eb" strokeWidth={2} dot={false} />
+                            <Line type="step" dataKey="capFirmMW" name="Waarvan Firm" stroke="#2563eb" strokeWidth={1} strokeDasharray="3 3" dot={false} />
                         </ComposedChart>
                     </ResponsiveContainer>
                 </div>
@@ -1765,13 +3125,16 @@ export default function App() {
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 card-container chart-container">
             <div className="flex justify-between items-center mb-6">
                 <div>
-                    <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><TrendingDown className="text-blue-600" size={20}/> Kostenanalyse ({selectedYear})</h3>
+                    <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><TrendingDown className="text-blue-600" size={20}/> Kostenanalyse ({capacitySensitivity ? capacitySensitivity.year : selectedYear})</h3>
                     <p className="text-xs text-slate-500 mt-1">Impact van datacenter capaciteit op de netto extra kosten in het geselecteerde jaar.</p>
                 </div>
+                <button onClick={handleRunCapacitySensitivity} disabled={isCapacitySensitivityRunning || !hasGridInput(rawData, multiYearParams)} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+                    {isCapacitySensitivityRunning ? 'Bezig...' : `Bereken ${selectedYear}`}
+                </button>
             </div>
             <div className="h-[250px] w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                    <ComposedChart data={capacitySensitivityData} margin={{ top: 30, right: 30, left: 50, bottom: 40 }}>
+                    <ComposedChart data={capacitySensitivity ? capacitySensitivity.rows : []} margin={{ top: 30, right: 30, left: 50, bottom: 40 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
                         <XAxis dataKey="capacityMW" label={{ value: 'Datacenter Capaciteit (MW)', position: 'insideBottom', offset: -30, style: { textAnchor: 'middle', fill: '#64748b', fontSize: 12 } }} />
                         <YAxis label={{ value: 'Netto Kosten (€)', angle: -90, position: 'insideLeft', offset: 0, style: { textAnchor: 'middle', fill: '#64748b', fontSize: 12 } }} tickFormatter={(val) => `€${val/1000}k`} />
@@ -1787,13 +3150,13 @@ export default function App() {
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 card-container chart-container">
             <div className="flex justify-between items-center mb-6">
                 <div>
-                    <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><Banknote className="text-purple-600" size={20}/> Handelsuren Analyse ({selectedYear})</h3>
+                    <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><Banknote className="text-purple-600" size={20}/> Handelsuren Analyse ({capacitySensitivity ? capacitySensitivity.year : selectedYear})</h3>
                     <p className="text-xs text-slate-500 mt-1">Hoeveel uren en MWh blijven er over voor handel bij verschillende DC groottes?</p>
                 </div>
             </div>
             <div className="h-[250px] w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                    <ComposedChart data={capacitySensitivityData} margin={{ top: 30, right: 30, left: 50, bottom: 40 }}>
+                    <ComposedChart data={capacitySensitivity ? capacitySensitivity.rows : []} margin={{ top: 30, right: 30, left: 50, bottom: 40 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
                         <XAxis dataKey="capacityMW" label={{ value: 'Datacenter Capaciteit (MW)', position: 'insideBottom', offset: -30, style: { textAnchor: 'middle', fill: '#64748b', fontSize: 12 } }} />
                         <YAxis yAxisId="left" label={{ value: 'Uren', angle: -90, position: 'insideLeft', offset: 0, style: { textAnchor: 'middle', fill: '#64748b', fontSize: 12 } }} />
@@ -1807,6 +3170,251 @@ export default function App() {
         </div>
       </div>
 
+      {/* SENSITIVITY ANALYSIS: TORNADO + TWO-WAY SWEEP */}
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+        <div className="p-4 border-b border-slate-100 flex flex-wrap justify-between items-start gap-2">
+          <div>
+            <h3 className="font-bold text-slate-900 flex items-center gap-2"><Scale className="text-indigo-600" size={18}/> Gevoeligheidsanalyse (meerjaren)</h3>
+            <p className="text-xs text-slate-500">Effect van elke invoer tussen laag en hoog op het totaal over {multiYearStats.length} jaar, ten opzichte van de huidige instellingen. Alle varianten zijn volledige meerjarensimulaties.</p>
+          </div>
+          <select value={sensitivityMetric} onChange={(e) => setSensitivityMetric(e.target.value as keyof SensitivityOutcome)} className="p-1 border rounded text-xs bg-white">
+              <option value="netExtraCost">Netto extra kosten</option>
+              <option value="deficitMWh">Tekort (MWh)</option>
+          </select>
+        </div>
+        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="hide-in-preview">
+                <table className="w-full text-xs text-left">
+                    <thead className="bg-slate-50 text-slate-500 font-medium">
+                        <tr><th className="px-2 py-1">Invoer</th><th className="px-2 py-1 text-right">Huidig</th><th className="px-2 py-1">Laag</th><th className="px-2 py-1">Hoog</th></tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {sensitivityRanges.map((range, i) => (
+                            <tr key={range.parameter}>
+                                <td className="px-2 py-1 text-slate-700">{getSensitivityLabel(range.parameter)}</td>
+                                <td className="px-2 py-1 text-right text-slate-500">{getSensitivityBaseValue(multiYearParams, range.parameter, baseSolarMWp).toLocaleString('nl-NL', { maximumFractionDigits: 2 })}</td>
+                                <td className="px-2 py-1"><input type="number" step="any" value={range.low} onChange={handleSensitivityRangeChange(i, 'low')} className="w-20 p-1 border rounded text-xs" /></td>
+                                <td className="px-2 py-1"><input type="number" step="any" value={range.high} onChange={handleSensitivityRangeChange(i, 'high')} className="w-20 p-1 border rounded text-xs" /></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <button onClick={() => handleRunSensitivity('tornado')} disabled={isSensitivityRunning || !hasGridInput(rawData, multiYearParams)} className="mt-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+                    {isSensitivityRunning ? 'Bezig met berekenen...' : 'Bereken tornado'}
+                </button>
+            </div>
+            <div className="h-[320px] w-full chart-container">
+                {tornadoChartData.length > 0 ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={tornadoChartData} layout="vertical" margin={{ top: 10, right: 30, left: 10, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                            <XAxis type="number" tickFormatter={(val) => sensitivityMetric === 'netExtraCost' ? `€${Math.round(val/1000)}k` : fmtMWh(val)} />
+                            <YAxis type="category" dataKey="label" width={170} tick={{ fontSize: 10 }} />
+                            <Tooltip formatter={(value: number, name: string) => [sensitivityMetric === 'netExtraCost' ? fmtEuro(value) : `${fmtMWh(value)} MWh`, name]} />
+                            <Legend />
+                            <Bar dataKey="lowDelta" name="Laag" fill="#3b82f6" />
+                            <Bar dataKey="highDelta" name="Hoog" fill="#f97316" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <p className="text-xs text-slate-400">Nog geen tornado berekend.</p>
+                )}
+            </div>
+        </div>
+        <div className="p-4 border-t border-slate-100">
+            <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Twee-variabelen Sweep</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-3 hide-in-preview">
+                {[
+                    { name: 'Kolommen', axis: twoWayX, setter: setTwoWayX },
+                    { name: 'Rijen', axis: twoWayY, setter: setTwoWayY }
+                ].map(({ name, axis, setter }) => (
+                    <div key={name}>
+                        <span className="text-xs font-medium text-slate-600 block mb-1">{name}: van / tot / stap</span>
+                        <select value={axis.parameter} onChange={handleTwoWayParameterChange(setter)} className="w-full p-1 border rounded text-xs bg-white mb-1">
+                            {SENSITIVITY_PARAMETERS.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+                        </select>
+                        <div className="grid grid-cols-3 gap-1">
+                            <input type="number" step="any" value={axis.min} onChange={handleTwoWayAxisChange(axis, setter, 'min')} className="w-full p-1 border rounded text-xs" />
+                            <input type="number" step="any" value={axis.max} onChange={handleTwoWayAxisChange(axis, setter, 'max')} className="w-full p-1 border rounded text-xs" />
+                            <input type="number" step="any" value={axis.step} onChange={handleTwoWayAxisChange(axis, setter, 'step')} className="w-full p-1 border rounded text-xs" />
+                        </div>
+                    </div>
+                ))}
+                <div className="flex flex-col justify-end">
+                    <button onClick={() => handleRunSensitivity('twoway')} disabled={isSensitivityRunning || !hasGridInput(rawData, multiYearParams) || twoWayX.parameter === twoWayY.parameter} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+                        {isSensitivityRunning ? 'Bezig met berekenen...' : `Bereken ${getRangeValues(twoWayX).length * getRangeValues(twoWayY).length} combinaties`}
+                    </button>
+                </div>
+            </div>
+            {twoWayTable && (
+                <div className="overflow-x-auto">
+                    <table className="text-xs border-collapse">
+                        <thead>
+                            <tr><th className="px-2 py-1 text-slate-500 font-medium text-left">{twoWayTable.yLabel} \ {twoWayTable.xLabel}</th>{twoWayTable.xs.map(x => <th key={x} className="px-2 py-1 text-slate-500 font-medium text-center">{x.toLocaleString('nl-NL')}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {twoWayTable.rows.map(row => (
+                                <tr key={row.y}>
+                                    <td className="px-2 py-1 font-mono font-bold text-slate-700">{row.y.toLocaleString('nl-NL')}</td>
+                                    {row.cells.map((entry, i) => entry ? (
+                                        <td key={i} className="px-2 py-1 text-right border border-white" style={{ backgroundColor: `hsl(${Math.round(entry.score * 120)}, 70%, 85%)` }}>
+                                            {fmtEuro(entry.cell.netExtraCost)}<span className="block text-[10px] text-slate-600">{fmtMWh(entry.cell.deficitMWh)} MWh</span>
+                                        </td>
+                                    ) : <td key={i} className="px-2 py-1" />)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-[10px] text-slate-400 mt-1">Totaal over de horizon; groen = beste, rood = slechtste {sensitivityMetric === 'netExtraCost' ? 'netto kosten' : 'tekort'}.</p>
+                </div>
+            )}
+        </div>
+      </div>
+
+      {/* BATTERY SIZING SWEEP */}
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+        <div className="p-4 border-b border-slate-100">
+          <h3 className="font-bold text-slate-900 flex items-center gap-2"><Battery className="text-blue-600" size={18}/> Batterij Dimensionering</h3>
+          <p className="text-xs text-slate-500">Meerjarensimulatie en investeringscase voor elke combinatie van vermogen en energie{sizingSolarEnabled ? ' (en zon)' : ''}. Omrande cellen liggen op het Pareto-front: geen andere grootte heeft zowel een hogere NCW als een kleiner tekort.</p>
+        </div>
+        <div className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-4 hide-in-preview">
+            {[
+                { label: 'Vermogen (MW)', range: sizingPowerRange, setter: setSizingPowerRange },
+                { label: 'Energie (MWh)', range: sizingCapacityRange, setter: setSizingCapacityRange }
+            ].map(({ label, range, setter }) => (
+                <div key={label}>
+                    <span className="text-xs font-medium text-slate-600 block mb-1">{label}: van / tot / stap</span>
+                    <div className="grid grid-cols-3 gap-1">
+                        <input type="number" min="0" value={range.min} onChange={handleSizingRangeChange(range, setter, 'min')} className="w-full p-1 border rounded text-xs" />
+                        <input type="number" min="0" value={range.max} onChange={handleSizingRangeChange(range, setter, 'max')} className="w-full p-1 border rounded text-xs" />
+                        <input type="number" min="0" value={range.step} onChange={handleSizingRangeChange(range, setter, 'step')} className="w-full p-1 border rounded text-xs" />
+                    </div>
+                </div>
+            ))}
+            <div>
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-600 mb-1"><input type="checkbox" checked={sizingSolarEnabled} onChange={(e) => setSizingSolarEnabled(e.target.checked)} /> Zon (MWp) meevariëren</label>
+                <div className="grid grid-cols-3 gap-1">
+                    <input type="number" min="0" value={sizingSolarRange.min} onChange={handleSizingRangeChange(sizingSolarRange, setSizingSolarRange, 'min')} disabled={!sizingSolarEnabled} className="w-full p-1 border rounded text-xs" />
+                    <input type="number" min="0" value={sizingSolarRange.max} onChange={handleSizingRangeChange(sizingSolarRange, setSizingSolarRange, 'max')} disabled={!sizingSolarEnabled} className="w-full p-1 border rounded text-xs" />
+                    <input type="number" min="0" value={sizingSolarRange.step} onChange={handleSizingRangeChange(sizingSolarRange, setSizingSolarRange, 'step')} disabled={!sizingSolarEnabled} className="w-full p-1 border rounded text-xs" />
+                </div>
+            </div>
+            <div className="flex flex-col justify-end">
+                <button onClick={handleRunSizing} disabled={isSizingRunning || !hasGridInput(rawData, multiYearParams)} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+                    {isSizingRunning ? 'Bezig met berekenen...' : `Bereken ${getRangeValues(sizingPowerRange).length * getRangeValues(sizingCapacityRange).length * (sizingSolarEnabled ? getRangeValues(sizingSolarRange).length : 1)} groottes`}
+                </button>
+                {dispatchStrategy === 'optimal' && <span className="text-[10px] text-amber-600 mt-1">Optimale dispatch (LP) maakt de sweep traag.</span>}
+            </div>
+        </div>
+        {sizingResults.length > 0 ? (
+            <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <div className="flex flex-wrap gap-2 mb-2 items-center">
+                        <select value={sizingMetric} onChange={(e) => setSizingMetric(e.target.value as SizingMetric)} className="p-1 border rounded text-xs bg-white">
+                            <option value="npv">Netto contante waarde</option>
+                            <option value="netExtraCost">Netto extra kosten (horizon)</option>
+                            <option value="deficitMWh">Tekort (MWh, horizon)</option>
+                        </select>
+                        {Array.from(new Set(sizingResults.map(p => p.solarMWp))).length > 1 && (
+                            <select value={sizingSolarView} onChange={(e) => setSizingSolarView(Number(e.target.value))} className="p-1 border rounded text-xs bg-white">
+                                {Array.from(new Set(sizingResults.map(p => p.solarMWp))).map(mwp => <option key={mwp} value={mwp}>Zon {mwp} MWp</option>)}
+                            </select>
+                        )}
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="text-xs border-collapse">
+                            <thead>
+                                <tr><th className="px-2 py-1 text-slate-500 font-medium text-left">MWh \ MW</th>{sizingHeatmap.powers.map(mw => <th key={mw} className="px-2 py-1 text-slate-500 font-medium text-center">{mw}</th>)}</tr>
+                            </thead>
+                            <tbody>
+                                {sizingHeatmap.rows.map(row => (
+                                    <tr key={row.capacityMWh}>
+                                        <td className="px-2 py-1 font-mono font-bold text-slate-700">{row.capacityMWh}</td>
+                                        {row.cells.map((cell, i) => cell ? (
+                                            <td key={i} title={`${cell.point.batteryPowerMW} MW / ${cell.point.batteryCapacityMWh} MWh: NCW ${fmtEuro(cell.point.npv)}, tekort ${fmtMWh(cell.point.deficitMWh)} MWh`} className={`px-2 py-1 text-right border border-white ${cell.point.isPareto ? 'outline outline-2 outline-blue-600 font-bold' : ''} ${cell.point.batteryPowerMW === batteryPowerMW && cell.point.batteryCapacityMWh === batteryCapacityMWh ? 'underline' : ''}`} style={{ backgroundColor: `hsl(${Math.round(cell.score * 120)}, 70%, 85%)` }}>
+                                                {sizingMetric === 'deficitMWh' ? fmtMWh(cell.point.deficitMWh) : `€${Math.round(cell.point[sizingMetric] / 1000).toLocaleString('nl-NL')}k`}
+                                            </td>
+                                        ) : <td key={i} className="px-2 py-1" />)}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="text-[10px] text-slate-400 mt-1">Groen = beste, rood = slechtste waarde. Onderstreept = huidige configuratie.</p>
+                </div>
+                <div className="overflow-x-auto">
+                    <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Pareto-optimale groottes</h4>
+                    <table className="w-full text-xs text-left">
+                        <thead className="bg-slate-50 text-slate-500 font-medium">
+                            <tr><th className="px-3 py-1">Grootte</th><th className="px-3 py-1 text-right">Tekort (MWh)</th><th className="px-3 py-1 text-right">Netto Kosten</th><th className="px-3 py-1 text-right">CAPEX</th><th className="px-3 py-1 text-right">NCW</th><th className="px-3 py-1 hide-in-preview"></th></tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {sizingResults.filter(p => p.isPareto).sort((a, b) => a.deficitMWh - b.deficitMWh).map(p => (
+                                <tr key={`${p.batteryPowerMW}-${p.batteryCapacityMWh}-${p.solarMWp}`} className="hover:bg-slate-50">
+                                    <td className="px-3 py-1 font-mono font-bold text-slate-700">{p.batteryPowerMW} MW / {p.batteryCapacityMWh} MWh{sizingSolarEnabled ? ` / ${p.solarMWp} MWp` : ''}</td>
+                                    <td className="px-3 py-1 text-right">{fmtMWh(p.deficitMWh)}</td>
+                                    <td className="px-3 py-1 text-right text-red-600">{fmtEuro(p.netExtraCost)}</td>
+                                    <td className="px-3 py-1 text-right">{fmtEuro(p.totalCapex)}</td>
+                                    <td className={`px-3 py-1 text-right font-bold ${p.npv >= 0 ? 'text-green-600' : 'text-red-600'}`}>{fmtEuro(p.npv)}</td>
+                                    <td className="px-3 py-1 text-right hide-in-preview"><button onClick={() => { setBatteryPowerMW(p.batteryPowerMW); setBatteryCapacityMWh(p.batteryCapacityMWh); if (sizingSolarEnabled) setTargetSolarMWp(p.solarMWp); }} className="text-blue-600 hover:underline">Toepassen</button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        ) : (
+            <p className="p-4 text-xs text-slate-400">Nog geen sweep berekend. De resultaten gebruiken de instellingen op het moment van berekenen.</p>
+        )}
+      </div>
+
+      {/* DISPATCH COMPARISON */}
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container">
+        <div className="p-4 border-b border-slate-100">
+          <div className="flex justify-between items-start gap-4">
+            <h3 className="font-bold text-slate-900 flex items-center gap-2"><Battery className="text-green-600" size={18}/> Dispatch Vergelijking ({dispatchComparison ? dispatchComparison.year : selectedYear})</h3>
+            <button onClick={handleRunDispatchComparison} disabled={isDispatchComparisonRunning} className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-md text-sm font-medium">
+              {isDispatchComparisonRunning ? 'Bezig met berekenen...' : `Vergelijk ${selectedYear}`}
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">Greedy laadt bij elk overschot tot max SoC; forecast laadt vooraf tot de SoC die aangekondigde beperkingen binnen de vooruitblik vragen. Optimaal minimaliseert diesel- plus stroomkosten over het hele jaar met volledige voorkennis en is daarmee de theoretische ondergrens.</p>
+        </div>
+        {dispatchComparison ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="bg-slate-50 text-slate-500 font-medium">
+                <tr>
+                  <th className="px-3 py-1">Strategie</th>
+                  <th className="px-3 py-1 text-right">Tekort (MWh)</th>
+                  <th className="px-3 py-1 text-right">Diesel (L)</th>
+                  <th className="px-3 py-1 text-right">Netto Kosten</th>
+                  <th className="px-3 py-1 text-right">Net → Batterij (MWh)</th>
+                  <th className="px-3 py-1 text-right">Batterijverlies (MWh)</th>
+                  <th className="px-3 py-1 text-right">Gem. SoC</th>
+                  <th className="px-3 py-1 text-right">Arbitrage</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {dispatchComparison.rows.map((row) => (
+                  <tr key={row.strategy} className={row.strategy === dispatchStrategy ? 'bg-blue-50/50 font-semibold' : ''}>
+                    <td className="px-3 py-1">{row.label}</td>
+                    <td className="px-3 py-1 text-right">{fmtMWh(row.deficitMWh)}</td>
+                    <td className="px-3 py-1 text-right">{fmtNum(row.dieselLiters)}</td>
+                    <td className="px-3 py-1 text-right">{fmtEuro(row.netExtraCost)}</td>
+                    <td className="px-3 py-1 text-right">{fmtMWh(row.gridToBatMWh)}</td>
+                    <td className="px-3 py-1 text-right">{fmtMWh(row.batteryLossMWh)}</td>
+                    <td className="px-3 py-1 text-right">{fmtNum(row.avgSoCPercent)}%</td>
+                    <td className="px-3 py-1 text-right text-green-600">{fmtEuro(row.arbitrageRevenue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="p-4 text-xs text-slate-400">Nog geen vergelijking berekend. De resultaten gebruiken de instellingen op het moment van berekenen.</p>
+        )}
+      </div>
+
       <div className="print-break"></div>
 
       {/* DETAIL TABLES */}
@@ -1819,7 +3427,7 @@ export default function App() {
                 <table className="w-full text-xs text-left">
                     <thead className="bg-slate-50 text-slate-500 font-medium"><tr><th className="px-4 py-2">Start</th><th className="px-4 py-2">Duur</th><th className="px-4 py-2">Status</th></tr></thead>
                     <tbody className="divide-y divide-slate-100">
-                        {stats.events.sort((a,b)=>b.durationHours-a.durationHours).slice(0,5).map((e,i)=>(<tr key={i}><td className="px-4 py-2">{e.start.toLocaleDateString()} {e.start.toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</td><td className="px-4 py-2 font-bold">{e.durationHours}u</td><td className="px-4 py-2">{e.mitigated ? <span className="text-green-600">Opgelost</span> : <span className="text-red-600">Uitval</span>}</td></tr>))}
+                        {stats.events.sort((a,b)=>b.durationHours-a.durationHours).slice(0,5).map((e,i)=>(<tr key={i}><td className="px-4 py-2">{fmtDateTime(e.start)}</td><td className="px-4 py-2 font-bold">{e.durationHours.toLocaleString('nl-NL')}u</td><td className="px-4 py-2">{e.mitigated ? <span className="text-green-600">Opgelost</span> : <span className="text-red-600">Uitval</span>}</td></tr>))}
                     </tbody>
                 </table>
             </div>
@@ -1828,9 +3436,9 @@ export default function App() {
             <div className="p-4 border-b border-slate-100"><h3 className="font-bold text-slate-900 flex items-center gap-2"><AlertOctagon className="text-red-600" size={18}/> Top 5 Tekorten</h3><p className="text-xs text-slate-500">Momenten met daadwerkelijke stroomuitval bij het datacenter.</p></div>
             <div className="overflow-x-auto">
                 <table className="w-full text-xs text-left">
-                    <thead className="bg-slate-50 text-slate-500 font-medium"><tr><th className="px-4 py-2">Start</th><th className="px-4 py-2">Duur</th><th className="px-4 py-2">Tekort</th></tr></thead>
+                    <thead className="bg-slate-50 text-slate-500 font-medium"><tr><th className="px-4 py-2">Start</th><th className="px-4 py-2">Duur</th><th className="px-4 py-2">Tekort</th><th className="px-4 py-2">Piek</th><th className="px-4 py-2">Starts</th><th className="px-4 py-2">Draaiuren</th><th className="px-4 py-2">Vloot</th></tr></thead>
                     <tbody className="divide-y divide-slate-100">
-                        {stats.outageEvents.length > 0 ? stats.outageEvents.sort((a,b)=>b.durationHours-a.durationHours).slice(0,5).map((e,i)=>(<tr key={i}><td className="px-4 py-2">{e.start.toLocaleDateString()} {e.start.toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</td><td className="px-4 py-2 font-bold text-red-600">{e.durationHours}u</td><td className="px-4 py-2">{fmtNum(e.totalMissedMWh)} MWh</td></tr>)) : <tr><td colSpan={3} className="px-4 py-2 text-center text-slate-400">Geen uitval</td></tr>}
+                        {stats.outageEvents.length > 0 ? stats.outageEvents.sort((a,b)=>b.durationHours-a.durationHours).slice(0,5).map((e,i)=>(<tr key={i}><td className="px-4 py-2">{fmtDateTime(e.start)}</td><td className="px-4 py-2 font-bold text-red-600">{e.durationHours.toLocaleString('nl-NL')}u</td><td className="px-4 py-2">{fmtNum(e.totalMissedMWh)} MWh</td><td className="px-4 py-2">{fmtNum(e.maxShortageMW)} MW</td><td className="px-4 py-2">{e.gensetStarts}</td><td className="px-4 py-2">{fmtNum(e.gensetRunHours)}</td><td className="px-4 py-2">{e.fleetSufficient && e.unservedMWh <= 0.01 ? <span className="text-green-600">Voldoende</span> : <span className="text-red-600 font-bold" title={`${fmtNum(e.unservedMWh)} MWh niet geleverd`}>{e.fleetSufficient ? 'Vergunning op' : 'Te klein'}</span>}</td></tr>)) : <tr><td colSpan={7} className="px-4 py-2 text-center text-slate-400">Geen uitval</td></tr>}
                     </tbody>
                     {stats.outageEvents.length > 0 && (
                         <tfoot className="bg-slate-50 font-bold text-slate-700">
@@ -1845,6 +3453,7 @@ export default function App() {
                                         );
                                     })()}
                                 </td>
+                                <td className="px-4 py-2" colSpan={4}></td>
                             </tr>
                         </tfoot>
                     )}
@@ -1852,6 +3461,23 @@ export default function App() {
             </div>
         </div>
       </div>
+
+      {/* EXPORT */}
+      <div className="max-w-7xl mx-auto mb-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden card-container hide-in-preview no-print">
+          <div className="p-4 flex flex-wrap items-center gap-3">
+              <h3 className="font-bold text-slate-900 flex items-center gap-2 mr-auto"><Download className="text-blue-600" size={18}/> Export Simulatiedata</h3>
+              <select value={exportScope} onChange={(e) => setExportScope(e.target.value as 'year' | 'all')} className="p-1 border rounded text-xs bg-white">
+                  <option value="year">Jaar {selectedYear}</option>
+                  <option value="all">Alle jaren</option>
+              </select>
+              <select value={exportCsvTable} onChange={(e) => setExportCsvTable(Number(e.target.value))} className="p-1 border rounded text-xs bg-white" title="Tabel voor de CSV-export">
+                  {EXPORT_TABLE_LABELS.map((label, i) => <option key={label} value={i}>{label}</option>)}
+              </select>
+              <button type="button" onClick={() => handleExport('csv')} disabled={isExporting} className="px-3 py-1 rounded text-xs font-medium bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50">CSV</button>
+              <button type="button" onClick={() => handleExport('xlsx')} disabled={isExporting} className="px-3 py-1 rounded text-xs font-medium bg-green-700 hover:bg-green-800 text-white disabled:opacity-50">{isExporting ? 'Bezig...' : 'Excel (alle tabellen)'}</button>
+          </div>
+          <p className="px-4 pb-4 text-[10px] text-slate-400">Per simulatiestap (vermogens in MW gemiddeld over de stap, SoC in MWh), per maand, de beperkingen en storingen en de meerjarentabel; eenheden staan in de kolomnamen, tijden in Nederlandse tijd. Alle jaren rekent elk jaar opnieuw door met de groei van het datacenter.</p>
+      </div>
       
       {/* WORST WEEK CHART */}
       {stats.worstWeekData.length > 0 && (
@@ -1864,9 +3490,9 @@ export default function App() {
                   <ResponsiveContainer width="100%" height="100%">
                       <ComposedChart data={stats.worstWeekData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
                           <CartesianGrid strokeDasharray="3 3" vertical={false} />
-                          <XAxis dataKey="datetime" tickFormatter={(d) => `${d.getDate()}/${d.getMonth()+1}`} minTickGap={30} />
+                          <XAxis dataKey="datetime" tickFormatter={(d) => { const p = getLocalParts(d); return `${p.day}/${p.month+1}`; }} minTickGap={30} />
                           <YAxis yAxisId="left" domain={[0, batteryCapacityMWh]}/>
-                          <YAxis yAxisId="right" orientation="right" domain={[0, 12]}/>
+                          <YAxis yAxisId="right" orientation="right" domain={[0, Math.ceil(selectedGrid.connectionMW * 1.2)]}/>
                           <Area yAxisId="right" type="step" dataKey="gridLimit" fill="#fed7aa" stroke="none" fillOpacity={0.5} />
                           <Line yAxisId="left" type="monotone" dataKey="socEnd" stroke="#0f172a" strokeWidth={2} dot={false} />
                       </ComposedChart>
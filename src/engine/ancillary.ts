@@ -0,0 +1,95 @@
+import { BatteryLimits } from './dispatch';
+import { getLocalParts } from './time';
+import { AncillaryConflictRule, AncillaryProduct, AncillaryProductConfig, SimulationStep, StepInput } from './types';
+
+// Battery power and SoC headroom held for balancing products in one step; other
+// uses of the battery (arbitrage) must leave these untouched.
+export type StepReservation = {
+  powerMW: number;
+  headroomBelowMWh: number;
+  headroomAboveMWh: number;
+};
+
+export type AncillaryPlan = {
+  reservations: StepReservation[];
+  revenue: Record<AncillaryProduct, number>;
+  hours: Record<AncillaryProduct, number>;
+};
+
+// Groups step indices into bidding blocks of blockHours, counted from local midnight.
+const groupBlocks = (inputs: StepInput[], blockHours: number): number[][] => {
+  const size = Math.max(1, Math.round(blockHours));
+  const blocks: number[][] = [];
+  let currentKey = '';
+  inputs.forEach((input, t) => {
+    const p = getLocalParts(input.datetime);
+    const key = `${p.year}-${p.month}-${p.day}-${Math.floor(p.hour / size)}`;
+    if (key !== currentKey) {
+      blocks.push([]);
+      currentKey = key;
+    }
+    blocks[blocks.length - 1].push(t);
+  });
+  return blocks;
+};
+
+// --- HELPER: BALANCING SERVICES (FCR / aFRR) ---
+// Capacity is bid per block on top of the congestion dispatch, products in the
+// given order. In every step of a block the reserved power must fit next to the
+// battery's congestion flows (downward activation also within the grid limit),
+// and the SoC path must keep headroomHours of energy per reserved MW on both
+// sides. Blocks where the battery has congestion duty are skipped entirely or
+// bid with the power that is left, depending on the conflict rule. Only the
+// capacity fee is counted; activated energy is assumed to net out.
+export const planAncillaryServices = (
+  inputs: StepInput[],
+  steps: SimulationStep[],
+  products: AncillaryProductConfig[],
+  capacityPrices: Record<AncillaryProduct, number[]>,
+  blockHours: number,
+  conflictRule: AncillaryConflictRule,
+  battery: BatteryLimits,
+  dt: number
+): AncillaryPlan => {
+  const { minSoC, maxSoC, etaCharge, etaDischarge, powerMW } = battery;
+  const reservations: StepReservation[] = steps.map(() => ({ powerMW: 0, headroomBelowMWh: 0, headroomAboveMWh: 0 }));
+  const revenue: Record<AncillaryProduct, number> = { fcr: 0, afrr: 0 };
+  const hours: Record<AncillaryProduct, number> = { fcr: 0, afrr: 0 };
+
+  groupBlocks(inputs, blockHours).forEach(block => {
+    const congestionDuty = block.some(t => steps[t].restrictedMW > 0.01 || steps[t].batToLoad > 1e-9);
+    if (congestionDuty && conflictRule === 'exclude-block') return;
+
+    products.filter(p => p.powerMW > 0).forEach(product => {
+      let feasible = product.powerMW;
+      block.forEach(t => {
+        const step = steps[t];
+        const res = reservations[t];
+        const upRoom = powerMW - step.batToLoad - res.powerMW;
+        const importRoom = inputs[t].availableGrid - step.gridToLoad - step.gridToBat - res.powerMW;
+        const downRoom = Math.min(powerMW - step.gridToBat - step.solarToBat - res.powerMW, importRoom);
+        feasible = Math.min(feasible, upRoom, downRoom);
+        if (product.headroomHours > 0) {
+          const below = (step.socEnd - minSoC - res.headroomBelowMWh) * etaDischarge / product.headroomHours;
+          const above = (maxSoC - step.socEnd - res.headroomAboveMWh) / etaCharge / product.headroomHours;
+          feasible = Math.min(feasible, below, above);
+        }
+      });
+
+      // Without power reduction a bid is all-or-nothing
+      const reserved = conflictRule === 'reduce-power' ? Math.max(0, feasible) : (feasible >= product.powerMW - 1e-9 ? product.powerMW : 0);
+      if (reserved <= 1e-6) return;
+
+      block.forEach(t => {
+        const res = reservations[t];
+        res.powerMW += reserved;
+        res.headroomBelowMWh += reserved * product.headroomHours / etaDischarge;
+        res.headroomAboveMWh += reserved * product.headroomHours * etaCharge;
+        revenue[product.product] += reserved * capacityPrices[product.product][t] * dt;
+        hours[product.product] += dt;
+      });
+    });
+  });
+
+  return { reservations, revenue, hours };
+};
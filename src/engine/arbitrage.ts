@@ -0,0 +1,73 @@
+import { StepReservation } from './ancillary';
+import { BatteryLimits } from './dispatch';
+import { buildStepCost, ConvexPwl, solveStoragePath } from './optimizer';
+import { SimulationStep, StepInput } from './types';
+
+// Arbitrage flows of one step (MW at the grid side) and the SoC shift they cause.
+export type ArbitrageStep = {
+  charge: number;
+  discharge: number;
+  socOffset: number;
+};
+
+// --- HELPER: DAY-AHEAD ARBITRAGE ---
+// Buy-low/sell-high on top of the congestion dispatch. Arbitrage may only move
+// the battery away from its congestion SoC path in steps without a restriction
+// where the battery does not supply the load, and must be back on that path
+// before the battery is needed again, so the congestion duty is never affected. Within those
+// windows the revenue-maximizing cycles are solved exactly with the same storage
+// solver as the optimal dispatch. Charging is limited by the grid capacity left
+// after the load, discharging by the grid limit plus the load it can replace.
+// Power and SoC headroom reserved for balancing products are left untouched.
+export const simulateArbitrage = (
+  inputs: StepInput[],
+  steps: SimulationStep[],
+  prices: (number | null)[],
+  battery: BatteryLimits,
+  dt: number,
+  reservations: StepReservation[] = []
+): ArbitrageStep[] => {
+  const noReservation: StepReservation = { powerMW: 0, headroomBelowMWh: 0, headroomAboveMWh: 0 };
+  const reservationAt = (t: number) => reservations[t] || noReservation;
+  const { minSoC, maxSoC, etaCharge, etaDischarge, powerMW } = battery;
+  const last = steps.length - 1;
+  const isFree = (t: number) => t < last && prices[t] !== null && steps[t].restrictedMW <= 0.01 && steps[t].batToLoad <= 1e-9;
+
+  const stepCosts: ConvexPwl[] = steps.map((step, t) => {
+    const price = prices[t];
+    if (!isFree(t) || price === null) return { start: 0, segments: [] };
+    const reserved = reservationAt(t).powerMW;
+    const importRoom = Math.max(0, inputs[t].availableGrid - step.gridToLoad - step.gridToBat - reserved);
+    const exportRoom = inputs[t].availableGrid + step.gridToLoad;
+    const chargeRoom = Math.max(0, powerMW - step.gridToBat - step.solarToBat - reserved);
+    const dischargeRoom = Math.max(0, powerMW - reserved);
+    return buildStepCost([
+      // Selling at a negative price never pays, so only buying is offered then
+      { kind: 'sell', length: price > 0 ? Math.min(dischargeRoom, exportRoom) * dt / etaDischarge : 0, slope: price * etaDischarge },
+      { kind: 'buy', length: Math.min(chargeRoom, importRoom) * dt * etaCharge, slope: price / etaCharge }
+    ]);
+  });
+
+  // Offset from the congestion SoC path; pinned to zero outside the free steps
+  const usage = solveStoragePath(
+    stepCosts,
+    t => {
+      if (!isFree(t)) return [0, 0];
+      const { headroomBelowMWh, headroomAboveMWh } = reservationAt(t);
+      return [Math.min(0, minSoC + headroomBelowMWh - steps[t].socEnd), Math.max(0, maxSoC - headroomAboveMWh - steps[t].socEnd)];
+    },
+    0,
+    0
+  );
+
+  let offset = 0;
+  return usage.map(({ used, available }) => {
+    const stored = used.buy - (available.sell - used.sell);
+    offset += stored;
+    return {
+      charge: used.buy / etaCharge / dt,
+      discharge: (available.sell - used.sell) * etaDischarge / dt,
+      socOffset: offset
+    };
+  });
+};
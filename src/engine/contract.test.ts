@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { applyGridContract, getContractLookAheadHours } from './contract';
+import { YearData } from './profiles';
+import { createTestMultiYearParams, createTestYear } from './testing';
+import { getLocalParts, startOfLocalYear } from './time';
+import { DataPoint, GridContract } from './types';
+import { runMultiYear } from './yearly';
+
+const ALL_MONTHS = Array.from({ length: 12 }, (_, m) => m);
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+// Contract of the whole 10 MW connection with 3 MW guaranteed during an activation
+const withContract = (contract: Partial<GridContract>) => ({
+  profileNominalMW: 10,
+  gridContract: { ...createTestMultiYearParams().gridContract, mode: 'contract' as const, guaranteedMW: 3, ...contract }
+});
+const emptyYear: YearData = { rows: [], status: 'missing', coverage: 0 };
+const restricted = (rows: DataPoint[]) => rows.filter(r => r.limitMW < 10);
+const localDay = (row: DataPoint) => {
+  const { month, day } = getLocalParts(row.datetime);
+  return `${month + 1}-${day}`;
+};
+
+describe('applyGridContract', () => {
+  it('leaves the profile alone when the contract is off', () => {
+    const yearData: YearData = { rows: createTestYear(2025, () => 10), status: 'measured', coverage: 100 };
+    expect(applyGridContract(yearData, 2025, withContract({ mode: 'off' }), 10)).toBe(yearData);
+  });
+
+  it('restricts every window hour when the contract has no limits', () => {
+    const { rows, status } = applyGridContract(emptyYear, 2025, withContract({
+      windows: [{ months: ALL_MONTHS, weekdays: WORKDAYS, startHour: 17, endHour: 21 }]
+    }), 10);
+
+    expect(rows).toHaveLength(8760);
+    expect(status).toBe('contract');
+    // 261 working days in 2025, four hours each, down to the guaranteed 3 MW
+    expect(restricted(rows)).toHaveLength(261 * 4);
+    expect(restricted(rows).every(r => r.limitMW === 3 && getLocalParts(r.datetime).hour >= 17)).toBe(true);
+  });
+
+  it('counts the hours after midnight of an overnight window to the day it started', () => {
+    const { rows } = applyGridContract(emptyYear, 2025, withContract({
+      windows: [{ months: ALL_MONTHS, weekdays: [5], startHour: 22, endHour: 6 }]
+    }), 10);
+    const at = (day: number, hour: number) => rows.find(r => {
+      const parts = getLocalParts(r.datetime);
+      return parts.month === 0 && parts.day === day && parts.hour === hour;
+    });
+
+    // Friday 3 January 2025 from 22:00 until Saturday 06:00
+    expect(at(3, 3)?.limitMW).toBe(10);
+    expect(at(3, 22)?.limitMW).toBe(3);
+    expect(at(4, 3)?.limitMW).toBe(3);
+    expect(at(4, 22)?.limitMW).toBe(10);
+  });
+
+  it('spreads a limited number of activations over the year and shortens the last one', () => {
+    const window = { months: ALL_MONTHS, weekdays: WORKDAYS, startHour: 17, endHour: 21 };
+    const byCount = applyGridContract(emptyYear, 2025, withContract({ windows: [window], maxActivationsPerYear: 10 }), 10).rows;
+    const byHours = applyGridContract(emptyYear, 2025, withContract({ windows: [window], maxHoursPerYear: 30 }), 10).rows;
+
+    expect(restricted(byCount)).toHaveLength(40);
+    expect(new Set(restricted(byCount).map(localDay)).size).toBe(10);
+    expect(restricted(byHours)).toHaveLength(30);
+    const months = restricted(byHours).map(r => getLocalParts(r.datetime).month);
+    expect(Math.min(...months)).toBe(0);
+    expect(Math.max(...months)).toBe(11);
+  });
+
+  it('puts the activations where the uploaded profile is curtailed most when combined', () => {
+    const curtailed = ['3-10', '11-5'];
+    const rows = createTestYear(2025, () => 10).map(r => {
+      const parts = getLocalParts(r.datetime);
+      const hit = curtailed.includes(localDay(r)) && parts.hour >= 18 && parts.hour < 20;
+      return { ...r, limitMW: hit ? 6 : 10 };
+    });
+    const result = applyGridContract({ rows, status: 'measured', coverage: 100 }, 2025, withContract({
+      mode: 'combined',
+      windows: [{ months: ALL_MONTHS, weekdays: [0, 1, 2, 3, 4, 5, 6], startHour: 17, endHour: 21 }],
+      maxActivationsPerYear: 2
+    }), 10);
+
+    expect(result.status).toBe('measured');
+    expect(restricted(result.rows)).toHaveLength(8);
+    expect(new Set(restricted(result.rows).map(localDay))).toEqual(new Set(curtailed));
+    expect(restricted(result.rows).every(r => r.limitMW === 3)).toBe(true);
+  });
+
+  it('keeps the contract windows after the CSC end date, but not the uploaded curtailment', () => {
+    const window = { months: ALL_MONTHS, weekdays: WORKDAYS, startHour: 17, endHour: 21 };
+    const params = createTestMultiYearParams({
+      cscEndDate: startOfLocalYear(2026),
+      gridContract: withContract({ windows: [window] }).gridContract
+    });
+    // Curtailed every morning; only the evening windows are contract activations
+    const uploaded = createTestYear(2027, i => (i % 24 === 6 ? 3 : 10));
+    const [contract] = runMultiYear([2027], [], [], params);
+    const [combined] = runMultiYear([2027], uploaded, [], { ...params, gridContract: { ...params.gridContract, mode: 'combined' } });
+
+    // 261 working days in 2027
+    expect(contract.totalHoursRestricted).toBe(261 * 4);
+    expect(combined.totalHoursRestricted).toBe(261 * 4);
+  });
+});
+
+describe('getContractLookAheadHours', () => {
+  it('limits the forecast to the notice the operator gives', () => {
+    const params = { ...withContract({ leadTimeHours: 6 }), lookAheadHours: 24 };
+
+    expect(getContractLookAheadHours(params)).toBe(6);
+    expect(getContractLookAheadHours({ ...params, gridContract: { ...params.gridContract, mode: 'off' } })).toBe(24);
+  });
+});
+
+describe('applyGridContract (time-based transport right)', () => {
+  const availability = (allocation: GridContract['allocation']) => withContract({ mode: 'availability', availabilityPercent: 85, allocation });
+
+  it.each(['worst', 'random', 'seasonal'] as const)('restricts the unavailable share of the steps (%s)', (allocation) => {
+    const { rows, status } = applyGridContract(emptyYear, 2025, availability(allocation), 10);
+
+    expect(status).toBe('contract');
+    expect(restricted(rows)).toHaveLength(Math.round(8760 * 0.15));
+  });
+
+  it('takes the steps with the highest site demand in the worst case', () => {
+    const demand = (rows: DataPoint[]) => rows.map((_, i) => (i % 24 < 4 ? 9 : 5));
+    const { rows } = applyGridContract(emptyYear, 2025, availability('worst'), 10, demand);
+
+    expect(rows.filter((r, i) => r.limitMW < 10 && i % 24 >= 4)).toHaveLength(0);
+  });
+
+  it('restricts reproducible blocks of four hours at random', () => {
+    const first = applyGridContract(emptyYear, 2025, availability('random'), 10).rows;
+    const second = applyGridContract(emptyYear, 2025, availability('random'), 10).rows;
+    const blocks = Array.from({ length: 8760 / 4 }, (_, b) => first.slice(b * 4, b * 4 + 4).filter(r => r.limitMW < 10).length);
+
+    expect(second.map(r => r.limitMW)).toEqual(first.map(r => r.limitMW));
+    // Only the last block taken can be partial
+    expect(blocks.filter(n => n > 0 && n < 4).length).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps restricting after the CSC end date, unlike an uploaded profile', () => {
+    const params = createTestMultiYearParams({
+      cscEndDate: startOfLocalYear(2026),
+      gridContract: { ...availability('random').gridContract, availabilityPercent: 95 }
+    });
+    const uploaded = createTestYear(2027, i => (i % 24 === 18 ? 3 : 10));
+    const [before, after] = runMultiYear([2025, 2027], [], [], params);
+    const [uploadedAfter] = runMultiYear([2027], uploaded, [], createTestMultiYearParams({ cscEndDate: startOfLocalYear(2026) }));
+
+    expect(before.totalHoursRestricted).toBe(Math.round(8760 * 0.05));
+    expect(after.totalHoursRestricted).toBe(Math.round(8760 * 0.05));
+    expect(uploadedAfter.totalHoursRestricted).toBe(0);
+  });
+
+  it('restricts winter rather than summer hours in the seasonal allocation', () => {
+    const { rows } = applyGridContract(emptyYear, 2025, availability('seasonal'), 10);
+    const inMonth = (month: number) => restricted(rows).filter(r => getLocalParts(r.datetime).month === month).length;
+
+    expect(inMonth(0)).toBeGreaterThan(0);
+    expect(inMonth(6)).toBe(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { YearData, detectTimestepHours } from './profiles';
+import { createRandom } from './scenarios';
+import { LocalParts, getLocalParts, startOfLocalYear } from './time';
+import { AvailabilityAllocation, ContractWindow, DataPoint, GridContractParams } from './types';
+
+const HOUR_MS = 3600000;
+
+// Offtake congestion peaks on winter evenings and mornings
+const SEASONAL_MONTH_WEIGHTS = [1, 0.9, 0.7, 0.3, 0.1, 0, 0, 0, 0.1, 0.4, 0.8, 1];
+const getSeasonalHourWeight = (hour: number) => (hour >= 17 && hour < 21 ? 1 : hour >= 7 && hour < 9 ? 0.8 : hour >= 9 && hour < 17 ? 0.5 : 0.2);
+const RANDOM_BLOCK_HOURS = 4;
+
+// Whether a local time falls inside a window; the part of an overnight window after
+// midnight belongs to the day (and month) on which the window started.
+const isInWindow = (window: ContractWindow, parts: LocalParts): boolean => {
+  const time = parts.hour + parts.minute / 60;
+  const today = window.months.includes(parts.month) && window.weekdays.includes(parts.weekday);
+  if (window.endHour > window.startHour) return today && time >= window.startHour && time < window.endHour;
+  if (today && time >= window.startHour) return true;
+  const prev = new Date(Date.UTC(parts.year, parts.month, parts.day - 1));
+  return time < window.endHour && window.months.includes(prev.getUTCMonth()) && window.weekdays.includes(prev.getUTCDay());
+};
+
+// Spreads count picks evenly over total items (indices in chronological order)
+const spreadIndices = (total: number, count: number): number[] =>
+  Array.from({ length: Math.min(total, count) }, (_, i) => Math.floor((i + 0.5) * total / Math.min(total, count)));
+
+// Steps in the order the operator restricts them under a time-based transport right.
+// Random and seasonal orders are seeded with the year, so a run is reproducible.
+const getAvailabilityOrder = (rows: DataPoint[], allocation: AvailabilityAllocation, year: number, dt: number, netDemand?: number[]): number[] => {
+  const indices = rows.map((_, i) => i);
+  const random = createRandom(year);
+  if (allocation === 'worst' && netDemand) {
+    return indices.sort((a, b) => netDemand[b] - netDemand[a]);
+  }
+  if (allocation === 'random') {
+    const blockSteps = Math.max(1, Math.round(RANDOM_BLOCK_HOURS / dt));
+    const blocks = Array.from({ length: Math.ceil(rows.length / blockSteps) }, (_, b) => b);
+    for (let i = blocks.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [blocks[i], blocks[j]] = [blocks[j], blocks[i]];
+    }
+    return blocks.flatMap(b => indices.slice(b * blockSteps, (b + 1) * blockSteps));
+  }
+  // Seasonal (also the worst case when the site demand is not known); the small random
+  // term spreads equal weights over the season instead of filling the first weeks
+  const scores = rows.map(row => {
+    const parts = getLocalParts(row.datetime);
+    return SEASONAL_MONTH_WEIGHTS[parts.month] * getSeasonalHourWeight(parts.hour) + random() * 0.01;
+  });
+  return indices.sort((a, b) => scores[b] - scores[a]);
+};
+
+// --- HELPER: CONTRACT COMPILATION ---
+// Turns the contract rules into the grid profile of one year. The stretches of window
+// time are the possible activations; without limits all of them are used. With limits
+// the operator is assumed to use the whole allowance: spread evenly over the year with
+// only the contract, or where an uploaded profile shows the most curtailment when
+// combined. The last activation is shortened to fit the hours. A time-based transport
+// right instead restricts (100 - availabilityPercent)% of the steps, chosen by the
+// allocation policy; netDemand (site demand after solar per step of the generated year)
+// ranks the worst case. When restricted the profile is lowered so that guaranteedMW of
+// contractMW remains (see runSimulation); those steps are marked fromContract, so they
+// still apply after the CSC end date.
+export const applyGridContract = (
+  yearData: YearData,
+  year: number,
+  params: GridContractParams & { profileNominalMW: number },
+  contractMW: number,
+  getNetDemand?: (rows: DataPoint[]) => number[]
+): YearData => {
+  const { gridContract: contract, profileNominalMW } = params;
+  if (contract.mode === 'off') return yearData;
+
+  let rows: DataPoint[] = [...yearData.rows].sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+  const dt = rows.length >= 2 ? detectTimestepHours(rows) : 1;
+  const fromContract = contract.mode !== 'combined' || rows.length === 0;
+  if (fromContract) {
+    const end = startOfLocalYear(year + 1).getTime();
+    rows = [];
+    for (let t = startOfLocalYear(year).getTime(); t < end; t += dt * HOUR_MS) {
+      rows.push({ datetime: new Date(t), limitMW: profileNominalMW });
+    }
+  } else {
+    rows = rows.map(r => ({ ...r }));
+  }
+
+  const restrictedLimit = profileNominalMW - Math.max(0, contractMW - contract.guaranteedMW);
+
+  if (contract.mode === 'availability') {
+    const available = Math.min(100, Math.max(0, contract.availabilityPercent)) / 100;
+    const restrictedSteps = Math.round(rows.length * (1 - available));
+    const order = getAvailabilityOrder(rows, contract.allocation, year, dt, getNetDemand?.(rows));
+    order.slice(0, restrictedSteps).forEach(i => { rows[i] = { ...rows[i], limitMW: restrictedLimit, fromContract: true }; });
+    return { rows, status: 'contract', coverage: yearData.coverage };
+  }
+
+  const activations: { start: number; end: number; curtailment: number }[] = [];
+  rows.forEach((row, i) => {
+    const parts = getLocalParts(row.datetime);
+    if (!contract.windows.some(w => isInWindow(w, parts))) return;
+    const curtailment = Math.max(0, profileNominalMW - row.limitMW) * dt;
+    const last = activations[activations.length - 1];
+    if (last && last.end === i && row.datetime.getTime() - rows[i - 1].datetime.getTime() <= dt * HOUR_MS) {
+      last.end = i + 1;
+      last.curtailment += curtailment;
+    } else {
+      activations.push({ start: i, end: i + 1, curtailment });
+    }
+  });
+
+  const maxCount = contract.maxActivationsPerYear > 0 ? contract.maxActivationsPerYear : Infinity;
+  const maxHours = contract.maxHoursPerYear > 0 ? contract.maxHoursPerYear : Infinity;
+  let candidates = activations;
+  if (!fromContract) {
+    candidates = [...activations].sort((a, b) => b.curtailment - a.curtailment);
+  } else if (maxCount < Infinity || maxHours < Infinity) {
+    const averageHours = activations.reduce((sum, a) => sum + (a.end - a.start) * dt, 0) / Math.max(1, activations.length);
+    const count = Math.min(maxCount, Math.ceil(maxHours / Math.max(dt, averageHours)));
+    candidates = spreadIndices(activations.length, count).map(i => activations[i]);
+  }
+
+  let count = 0;
+  let hours = 0;
+  for (const activation of candidates) {
+    if (count >= maxCount || hours >= maxHours) break;
+    const steps = Math.min(activation.end - activation.start, Math.round((maxHours - hours) / dt));
+    for (let i = activation.start; i < activation.start + steps; i++) {
+      rows[i].limitMW = Math.min(rows[i].limitMW, restrictedLimit);
+      rows[i].fromContract = true;
+    }
+    count++;
+    hours += steps * dt;
+  }
+
+  return { rows, status: fromContract ? 'contract' : yearData.status, coverage: yearData.coverage };
+};
+
+// The operator announces an activation leadTimeHours ahead, so the forecast dispatch
+// cannot see restrictions further ahead than that.
+export const getContractLookAheadHours = (params: GridContractParams & { lookAheadHours: number }): number =>
+  params.gridContract.mode === 'off' ? params.lookAheadHours : Math.min(params.lookAheadHours, Math.max(0, params.gridContract.leadTimeHours));
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDieselCost } from './costs';
+import { VALUE_OF_LOST_LOAD } from './genset';
+import { runSimulation } from './simulation';
+import { createTestParams, createTestYear } from './testing';
+
+// Two days a month down to 3 MW: longer than the 40 MWh battery can bridge
+const yearData = createTestYear(2025, i => (i % 730 < 48 ? 3 : 10));
+const withFleet = createTestParams({ gensetUnits: 2, gensetRatedMW: 2, gensetMaxRunHoursPerYear: 0 });
+
+describe('calculateDieselCost', () => {
+  it('prices shortage the gensets cannot supply as lost load, not as avoided grid energy', () => {
+    const cost = calculateDieselCost(
+      { loadDeficitMWhWithBat: 10, gensetFuelLiters: 1000, gensetStarts: 2, gensetRunHours: 4, gensetUnservedMWh: 4 },
+      withFleet
+    );
+
+    expect(cost.grossDieselCost).toBe(1000 * 1.5 + 2 * 25 + 4 * 15);
+    expect(cost.lostLoadCost).toBe(4 * VALUE_OF_LOST_LOAD);
+    expect(cost.avoidedGridCost).toBe(6 * 100);
+    expect(cost.netExtraCost).toBe(cost.grossDieselCost + cost.lostLoadCost - cost.avoidedGridCost);
+  });
+
+  it('does not get cheaper with fewer gensets or a tighter permit', () => {
+    const costOf = (overrides: Parameters<typeof createTestParams>[0]) => {
+      const params = { ...withFleet, ...overrides };
+      return calculateDieselCost(runSimulation(yearData, [], params, [], [], undefined, [], 2025), params).netExtraCost;
+    };
+    const fleet = costOf({});
+
+    expect(fleet).toBeGreaterThan(0);
+    expect(costOf({ gensetUnits: 1 })).toBeGreaterThan(fleet);
+    expect(costOf({ gensetMaxRunHoursPerYear: 100 })).toBeGreaterThan(fleet);
+    expect(costOf({ gensetUnits: 0 })).toBeGreaterThan(costOf({ gensetUnits: 1 }));
+  });
+});
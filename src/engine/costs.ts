@@ -0,0 +1,31 @@
+import { VALUE_OF_LOST_LOAD } from './genset';
+import { AnalysisResult, CostParams, DieselCostResult, GensetParams } from './types';
+
+// --- HELPER: DIESEL COSTS ---
+// Every MWh the battery cannot cover is produced by the diesel gensets, at the
+// fuel, starts and run hours of the genset dispatch. What the fleet cannot supply
+// (too few units or the permit hours used up) is lost load, priced at the value of
+// lost load as in the optimal dispatch. Only the genset energy replaces grid energy
+// that could not be bought; that is subtracted, giving the net extra cost.
+export const calculateDieselCost = (
+  res: Pick<AnalysisResult, 'loadDeficitMWhWithBat' | 'gensetFuelLiters' | 'gensetStarts' | 'gensetRunHours' | 'gensetUnservedMWh'>,
+  costs: CostParams & GensetParams
+): DieselCostResult => {
+  const fuelCost = res.gensetFuelLiters * costs.dieselPrice;
+  const startCost = res.gensetStarts * costs.gensetStartCost;
+  const maintenanceCost = res.gensetRunHours * costs.gensetMaintenancePerRunHour;
+  const grossDieselCost = fuelCost + startCost + maintenanceCost;
+  const lostLoadCost = res.gensetUnservedMWh * VALUE_OF_LOST_LOAD;
+  const avoidedGridCost = Math.max(0, res.loadDeficitMWhWithBat - res.gensetUnservedMWh) * costs.electricityPrice;
+
+  return {
+    dieselLiters: res.gensetFuelLiters,
+    fuelCost,
+    startCost,
+    maintenanceCost,
+    grossDieselCost,
+    lostLoadCost,
+    avoidedGridCost,
+    netExtraCost: grossDieselCost + lostLoadCost - avoidedGridCost
+  };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvOptions, getCsvSignature, parseCsv, splitCsvLine, splitCsvLines } from './csv';
+import { formatLocalDateTime } from './time';
+
+// Grid operator export: EAN code first, Dutch dates and decimal commas, power in kW
+const operatorCsv = '\uFEFFEAN;Datum;Vermogen (kW)\r\n'
+  + '871687400000000001;01-01-2025 00:00;1500,5\r\n'
+  + '871687400000000001;01-01-2025 00:15;2000,25\r\n'
+  + '871687400000000001;13-01-2025 00:30;\r\n'
+  + '871687400000000001;13-01-2025 00:45;1000,0\r\n';
+
+// PVsyst-style hourly export: names, a units row, date and time split, energy per hour
+const pvsystCsv = 'date,time,E_Grid\n'
+  + ',,kWh\n'
+  + '1/2/25,01:00,250\n'
+  + '1/2/25,02:00,500\n';
+
+describe('splitCsvLine', () => {
+  it('keeps the delimiter and escaped quotes inside quoted fields', () => {
+    expect(splitCsvLine('"a;b";"c ""d""";e', ';')).toEqual(['a;b', 'c "d"', 'e']);
+  });
+});
+
+describe('detectCsvOptions', () => {
+  it('reads a grid operator export with an identifier column', () => {
+    const options = detectCsvOptions(splitCsvLines(operatorCsv), 'grid');
+
+    expect(options).toMatchObject({
+      delimiter: ';',
+      decimal: ',',
+      dateFormat: 'dmy',
+      headerRow: 0,
+      firstDataRow: 1,
+      timeColumn: 1,
+      clockColumn: -1,
+      valueColumns: [2],
+      unit: 'kW'
+    });
+  });
+
+  it('finds split date and time columns and the unit in a units row', () => {
+    const options = detectCsvOptions(splitCsvLines(pvsystCsv), 'solar');
+
+    expect(options).toMatchObject({ delimiter: ',', headerRow: 0, firstDataRow: 2, timeColumn: 0, clockColumn: 1, valueColumns: [2], unit: 'kWh' });
+  });
+
+  it('keeps prices in the unit they are read with', () => {
+    const lines = splitCsvLines('Tijd;Prijs (EUR/MWh)\n2025-01-01 00:00;85,2\n2025-01-01 01:00;-3,1');
+    const options = detectCsvOptions(lines, 'price');
+
+    expect(options).toMatchObject({ dateFormat: 'ymd', decimal: ',', unit: null });
+    expect(parseCsv(lines, options).columns[0]).toEqual([85.2, -3.1]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('converts power to MW and skips rows without a value', () => {
+    const lines = splitCsvLines(operatorCsv);
+    const parsed = parseCsv(lines, detectCsvOptions(lines, 'grid'));
+
+    expect(parsed.columns[0]).toEqual([1.5005, 2.00025, 1]);
+    expect(parsed.skipped).toBe(1);
+    expect(parsed.timestepHours).toBe(0.25);
+    expect(formatLocalDateTime(new Date(parsed.times[2]))).toBe('2025-01-13 00:45:00');
+  });
+
+  it('converts energy per interval to average MW', () => {
+    const lines = splitCsvLines(pvsystCsv);
+    const parsed = parseCsv(lines, { ...detectCsvOptions(lines, 'solar'), dateFormat: 'dmy' });
+
+    expect(parsed.columns[0]).toEqual([0.25, 0.5]);
+    expect(parsed.timestepHours).toBe(1);
+  });
+});
+
+describe('getCsvSignature', () => {
+  it('identifies a layout by its column names, whatever the data', () => {
+    const a = splitCsvLines(operatorCsv);
+    const b = splitCsvLines(operatorCsv.replace('1500,5', '900,0'));
+
+    expect(getCsvSignature(a, detectCsvOptions(a, 'grid'), 'grid')).toBe(getCsvSignature(b, detectCsvOptions(b, 'grid'), 'grid'));
+    expect(getCsvSignature(a, detectCsvOptions(a, 'grid'), 'grid')).not.toBe(getCsvSignature(a, detectCsvOptions(a, 'grid'), 'dcload'));
+  });
+});
@@ -0,0 +1,227 @@
+import { detectTimestepHours } from './profiles';
+import { CsvType } from './project';
+import { DateFormat, TimestampZone, parseDateTime } from './time';
+
+export type CsvDelimiter = ';' | ',' | '\t';
+export type DecimalMark = '.' | ',';
+// Unit of the values in a file; the energy units are per interval of the file's timestep.
+export type ValueUnit = 'W' | 'kW' | 'MW' | 'Wh' | 'kWh' | 'MWh';
+
+// How to read a CSV export. Rows are line indices in the file; a value column of -1
+// is an optional column that the file does not have (aFRR prices) and reads as 0.
+export type CsvImportOptions = {
+  delimiter: CsvDelimiter;
+  decimal: DecimalMark;
+  dateFormat: DateFormat;
+  timeZone: TimestampZone;
+  headerRow: number; // -1 when the file has no column names
+  firstDataRow: number;
+  timeColumn: number;
+  clockColumn: number; // time of day in its own column (date and time split), -1 if not
+  valueColumns: number[];
+  unit: ValueUnit | null; // null for prices and intensities, which are used as read
+};
+
+export type ParsedCsv = {
+  times: number[];
+  columns: number[][];
+  skipped: number; // non-empty rows without a readable timestamp or value
+  timestepHours: number;
+};
+
+// Profiles holding power or energy; these are converted to average MW per interval
+export const POWER_PROFILE_TYPES: CsvType[] = ['grid', 'solar', 'dcload', 'logisticsload'];
+
+// Unit assumed when a file does not name one: solar exports are kWh per interval,
+// grid and load profiles MW.
+export const getDefaultUnit = (type: CsvType): ValueUnit | null =>
+  type === 'solar' ? 'kWh' : POWER_PROFILE_TYPES.includes(type) ? 'MW' : null;
+
+const UNIT_DIVISORS: Record<ValueUnit, number> = { W: 1e6, kW: 1e3, MW: 1, Wh: 1e6, kWh: 1e3, MWh: 1 };
+const isEnergyUnit = (unit: ValueUnit) => unit.endsWith('h');
+
+export const splitCsvLines = (text: string): string[] => text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+// Splits one line on the delimiter; fields in double quotes may contain the delimiter.
+export const splitCsvLine = (line: string, delimiter: CsvDelimiter): string[] => {
+  if (!line.includes('"')) return line.split(delimiter).map(f => f.trim());
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === delimiter && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+// The other mark is read as a thousands separator (1.234,5 or 1,234.5).
+export const parseCsvNumber = (value: string, decimal: DecimalMark): number => {
+  const str = value.replace(/[\s"]/g, '');
+  if (!str) return NaN;
+  return parseFloat(decimal === ',' ? str.replace(/\./g, '').replace(',', '.') : str.replace(/,/g, ''));
+};
+
+// A field counts as a timestamp only if it is a complete date; the strict UTC parse
+// does not fall back to Date parsing, which accepts almost anything.
+const isTimestamp = (field: string) =>
+  parseDateTime(field, 'auto', 'utc') !== null || parseDateTime(field, 'mdy', 'utc') !== null;
+const CLOCK = /\d{1,2}:\d{2}(:\d{2})?/;
+// Long digit strings are identifiers (EAN codes in grid operator exports), not values
+const isNumeric = (field: string) => {
+  const str = field.replace(/[\s"]/g, '');
+  return /^-?[\d.,]*\d(e-?\d+)?$/i.test(str) && !/^\d{10,}$/.test(str);
+};
+
+const DELIMITERS: CsvDelimiter[] = [';', '\t', ','];
+const DETECT_LINES = 200;
+
+const guessUnit = (label: string): ValueUnit | null => {
+  const text = label.toLowerCase();
+  if (/\bmwh\b/.test(text)) return 'MWh';
+  if (/\bkwh\b/.test(text)) return 'kWh';
+  if (/\bwh\b/.test(text)) return 'Wh';
+  if (/\bmw\b/.test(text)) return 'MW';
+  if (/\bkw\b/.test(text)) return 'kW';
+  if (/\bw\b/.test(text)) return 'W';
+  return null;
+};
+
+// --- HELPER: DETECTION ---
+// Guesses the layout from the first lines: the delimiter that yields the most rows with
+// a timestamp and a number, the column names as the line above the data with the most
+// text fields (PVsyst puts a units row between names and data), the date order from
+// day or month values above 12, and the unit from the column name or units row.
+export const detectCsvOptions = (lines: string[], type: CsvType): CsvImportOptions => {
+  const ancillary = type === 'ancillary';
+  const options: CsvImportOptions = {
+    delimiter: ';',
+    decimal: '.',
+    dateFormat: 'auto',
+    timeZone: 'local',
+    headerRow: -1,
+    firstDataRow: 0,
+    timeColumn: 0,
+    clockColumn: -1,
+    valueColumns: ancillary ? [1, 2] : [1],
+    unit: getDefaultUnit(type)
+  };
+  const sample = lines.slice(0, DETECT_LINES);
+
+  let bestRows: number[] = [];
+  DELIMITERS.forEach(delimiter => {
+    const rows = sample
+      .map((line, i) => ({ i, fields: splitCsvLine(line, delimiter) }))
+      .filter(({ fields }) => fields.length >= 2 && fields.some(isTimestamp) && fields.some(f => isNumeric(f) && !isTimestamp(f)))
+      .map(({ i }) => i);
+    if (rows.length > bestRows.length) {
+      bestRows = rows;
+      options.delimiter = delimiter;
+    }
+  });
+  if (bestRows.length === 0) return options;
+
+  const split = (i: number) => splitCsvLine(lines[i], options.delimiter);
+  const first = split(bestRows[0]);
+  options.firstDataRow = bestRows[0];
+  options.timeColumn = first.findIndex(isTimestamp);
+  const next = first[options.timeColumn + 1] || '';
+  if (!CLOCK.test(first[options.timeColumn]) && new RegExp(`^${CLOCK.source}`).test(next)) {
+    options.clockColumn = options.timeColumn + 1;
+  }
+  const valueColumns = first
+    .map((f, c) => (c !== options.timeColumn && c !== options.clockColumn && isNumeric(f) && !isTimestamp(f) ? c : -1))
+    .filter(c => c >= 0);
+  options.valueColumns = ancillary ? [valueColumns[0] ?? -1, valueColumns[1] ?? -1] : [valueColumns[0] ?? -1];
+
+  let bestTextFields = 0;
+  for (let i = options.firstDataRow - 1; i >= Math.max(0, options.firstDataRow - 20); i--) {
+    const fields = split(i);
+    if (fields.length !== first.length) continue;
+    const textFields = fields.filter(f => /[a-z]/i.test(f)).length;
+    if (textFields > bestTextFields) {
+      bestTextFields = textFields;
+      options.headerRow = i;
+    }
+  }
+
+  const dates = bestRows.map(i => split(i)[options.timeColumn] || '');
+  const parts = dates.map(d => /^(\d{1,4})[-/.](\d{1,2})[-/.]/.exec(d.replace(/^"/, ''))).filter((m): m is RegExpExecArray => m !== null);
+  if (parts.length > 0) {
+    if (parts[0][1].length === 4) options.dateFormat = 'ymd';
+    else if (parts.some(m => Number(m[1]) > 12)) options.dateFormat = 'dmy';
+    else if (parts.some(m => Number(m[2]) > 12)) options.dateFormat = 'mdy';
+    else options.dateFormat = 'dmy';
+  }
+
+  const values = bestRows.map(i => (split(i)[options.valueColumns[0]] || '').replace(/[\s"]/g, ''));
+  const commaDecimals = values.filter(v => /^-?\d*,\d+$/.test(v)).length;
+  const pointDecimals = values.filter(v => /^-?\d*\.\d+$/.test(v)).length;
+  options.decimal = commaDecimals > pointDecimals ? ',' : '.';
+
+  if (options.headerRow >= 0) {
+    const labels = lines.slice(options.headerRow, options.firstDataRow).map(l => splitCsvLine(l, options.delimiter));
+    if (labels.some(fields => /utc/i.test(fields[options.timeColumn] || ''))) options.timeZone = 'utc';
+    if (options.unit) {
+      const unit = labels.map(fields => guessUnit(fields[options.valueColumns[0]] || '')).find(u => u !== null);
+      if (unit) options.unit = unit;
+    }
+  }
+  return options;
+};
+
+// Reads the data rows with the given options. Values in a power or energy unit are
+// converted to MW; energy per interval is divided by the detected timestep.
+export const parseCsv = (lines: string[], options: CsvImportOptions): ParsedCsv => {
+  const times: number[] = [];
+  const columns: number[][] = options.valueColumns.map(() => []);
+  let skipped = 0;
+  let previous: Date | undefined;
+
+  for (let i = Math.max(0, options.firstDataRow); i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const fields = splitCsvLine(lines[i], options.delimiter);
+    const clock = options.clockColumn >= 0 ? CLOCK.exec(fields[options.clockColumn] || '') : null;
+    const stamp = `${fields[options.timeColumn] || ''}${clock ? ` ${clock[0]}` : ''}`;
+    const date = parseDateTime(stamp, options.dateFormat, options.timeZone, previous);
+    const values = options.valueColumns.map(c => (c >= 0 ? parseCsvNumber(fields[c] || '', options.decimal) : NaN));
+    if (!date || isNaN(values[0])) {
+      skipped++;
+      continue;
+    }
+    previous = date;
+    times.push(date.getTime());
+    values.forEach((v, c) => columns[c].push(isNaN(v) ? 0 : v));
+  }
+
+  const sorted = times.slice().sort((a, b) => a - b).slice(0, 2000).map(t => ({ datetime: new Date(t) }));
+  const timestepHours = detectTimestepHours(sorted);
+  if (options.unit) {
+    const divisor = UNIT_DIVISORS[options.unit] * (isEnergyUnit(options.unit) ? timestepHours : 1);
+    if (divisor !== 1) columns.forEach(values => values.forEach((v, i) => { values[i] = v / divisor; }));
+  }
+  return { times, columns, skipped, timestepHours };
+};
+
+// Identifies a file layout, so the options chosen for one export of a source are used
+// again for the next: the profile type with the column names, or the column count for
+// files without names. Computed on the detected options.
+export const getCsvSignature = (lines: string[], options: CsvImportOptions, type: CsvType): string => {
+  const layout = options.headerRow >= 0
+    ? splitCsvLine(lines[options.headerRow], options.delimiter).join('|').toLowerCase()
+    : `${splitCsvLine(lines[options.firstDataRow] || '', options.delimiter).length}`;
+  return `${type}:${options.delimiter}:${layout}`;
+};
@@ -0,0 +1,57 @@
+import { StepInput } from './types';
+
+export type BatteryLimits = {
+  minSoC: number;
+  maxSoC: number;
+  etaCharge: number;
+  etaDischarge: number;
+  powerMW: number;
+  auxiliaryMW: number;
+};
+
+// Shortage left after solar and grid, and the power that could go into the battery, per step.
+export const getPreBatteryBalance = (input: StepInput) => {
+  const solarToLoad = Math.min(input.solarGeneration, input.totalDemand);
+  const gridToLoad = Math.min(input.availableGrid, input.totalDemand - solarToLoad);
+  const shortage = input.totalDemand - solarToLoad - gridToLoad;
+  const solarSurplus = input.solarGeneration - solarToLoad;
+  const gridSurplus = input.availableGrid - gridToLoad;
+  return { solarToLoad, gridToLoad, shortage, solarSurplus, gridSurplus, surplus: solarSurplus + gridSurplus };
+};
+
+// --- HELPER: FORECAST DISPATCH ---
+// CSC restrictions are announced day-ahead, so within the look-ahead window the
+// shortages are known. Walking backwards from the end of the window gives the
+// energy that must be in the battery at the end of each step to cover them,
+// taking the charging that is still possible in between into account. Outside
+// pre-charge windows the battery is held at the standby SoC.
+export const computeForecastTargets = (
+  inputs: StepInput[],
+  battery: BatteryLimits,
+  lookAheadHours: number,
+  standbySoC: number,
+  dt: number
+): number[] => {
+  const { minSoC, maxSoC, etaCharge, etaDischarge, powerMW, auxiliaryMW } = battery;
+  const lookAheadSteps = Math.max(0, Math.round(lookAheadHours / dt));
+  const floor = Math.min(maxSoC, Math.max(minSoC, standbySoC));
+  const auxPerStep = Math.max(0, auxiliaryMW) * dt;
+
+  const dischargeNeed: number[] = [];
+  const chargeable: number[] = [];
+  inputs.forEach(input => {
+    const { shortage, surplus } = getPreBatteryBalance(input);
+    dischargeNeed.push(Math.min(shortage, powerMW) * dt / etaDischarge);
+    chargeable.push(shortage > 0 ? 0 : Math.min(surplus, powerMW) * etaCharge * dt);
+  });
+
+  return inputs.map((_, i) => {
+    let need = 0;
+    const last = Math.min(inputs.length - 1, i + lookAheadSteps);
+    for (let k = last; k > i; k--) {
+      need = Math.max(0, need + auxPerStep + dischargeNeed[k] - chargeable[k]);
+    }
+    if (need <= 0) return floor;
+    return Math.max(floor, Math.min(maxSoC, minSoC + need + auxPerStep));
+  });
+};
@@ -0,0 +1,40 @@
+import { createProfileLookup } from './solar';
+import { EmissionParams, EmissionPoint, SimulationStep } from './types';
+
+export type EmissionTotals = {
+  dieselCo2Tonnes: number;
+  dieselNoxKg: number;
+  dieselPmKg: number;
+  gridCo2Tonnes: number;
+};
+
+// --- HELPER: EMISSIONS ---
+// Diesel emissions follow the burnt fuel. Grid emissions are the net grid import
+// of every step (load, battery charging and arbitrage purchases, minus arbitrage
+// sales) times the grid intensity: the imported hourly series where it has a
+// value, otherwise the annual factor.
+export const calculateEmissions = (
+  steps: SimulationStep[],
+  dieselLiters: number,
+  intensityData: EmissionPoint[],
+  params: EmissionParams,
+  dt: number
+): EmissionTotals => {
+  const { dieselCo2KgPerL, dieselNoxGPerL, dieselPmGPerL, gridCo2KgPerMWh, emissionAlignment } = params;
+  const lookup = intensityData.length > 0 ? createProfileLookup(intensityData, 'co2KgPerMWh', emissionAlignment, dt) : null;
+
+  let gridCo2Kg = 0;
+  steps.forEach(step => {
+    const intensity = lookup ? lookup(step.datetime) : null;
+    const kgPerMWh = intensity && intensity.status !== 'missing' ? intensity.value : gridCo2KgPerMWh;
+    const importMW = step.gridToLoad + step.gridToBat + step.arbitrageCharge - step.arbitrageDischarge;
+    gridCo2Kg += importMW * dt * kgPerMWh;
+  });
+
+  return {
+    dieselCo2Tonnes: dieselLiters * dieselCo2KgPerL / 1000,
+    dieselNoxKg: dieselLiters * dieselNoxGPerL / 1000,
+    dieselPmKg: dieselLiters * dieselPmGPerL / 1000,
+    gridCo2Tonnes: gridCo2Kg / 1000
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { groupOutageEvents, groupRestrictionEvents } from './events';
+import { SimulationStep } from './types';
+
+const createStep = (hour: number, step: Partial<SimulationStep>): SimulationStep => ({
+  datetime: new Date(Date.UTC(2025, 0, 1, hour)),
+  durationHours: 1,
+  gridLimit: 10,
+  restrictedMW: 0,
+  dcDemand: 6,
+  logisticsDemand: 0,
+  totalDemand: 6,
+  solarGeneration: 0,
+  solarUsedByLoad: 0,
+  gridToLoad: 6,
+  batToLoad: 0,
+  gridToBat: 0,
+  solarToBat: 0,
+  shortage: 0,
+  socEnd: 20,
+  isBatteryActive: false,
+  batteryLoss: 0,
+  arbitrageCharge: 0,
+  arbitrageDischarge: 0,
+  reservedMW: 0,
+  gensetMW: 0,
+  gensetUnitsRunning: 0,
+  gensetStarts: 0,
+  unservedMW: 0,
+  ...step
+});
+
+// Restricted to 4 MW in hours 1-3 (the battery runs out in hour 3) and 6, then free
+const steps = [
+  createStep(0, {}),
+  createStep(1, { gridLimit: 4, restrictedMW: 6, gridToLoad: 4, batToLoad: 2, socEnd: 18 }),
+  createStep(2, { gridLimit: 4, restrictedMW: 6, gridToLoad: 4, batToLoad: 2, socEnd: 16 }),
+  createStep(3, { gridLimit: 4, restrictedMW: 6, gridToLoad: 4, batToLoad: 1, shortage: 1, socEnd: 15, gensetMW: 1, gensetStarts: 1, gensetUnitsRunning: 1 }),
+  createStep(4, {}),
+  createStep(5, {}),
+  createStep(6, { gridLimit: 5, restrictedMW: 5, gridToLoad: 5, batToLoad: 1, socEnd: 14 })
+];
+
+describe('groupRestrictionEvents', () => {
+  it('groups consecutive restricted steps', () => {
+    const events = groupRestrictionEvents(steps, 20);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      start: steps[1].datetime,
+      end: steps[3].datetime,
+      durationHours: 3,
+      totalDeficitMWh: 6,
+      totalGridRestrictedMWh: 18,
+      batteryStartSoC: 20,
+      mitigated: false
+    });
+    expect(events[1]).toMatchObject({ start: steps[6].datetime, durationHours: 1, batteryStartSoC: 20, mitigated: true });
+  });
+
+  it('closes an event that runs to the end of the year', () => {
+    expect(groupRestrictionEvents(steps.slice(0, 3), 20)).toHaveLength(1);
+  });
+
+  it('returns no events without steps', () => {
+    expect(groupRestrictionEvents([], 20)).toEqual([]);
+  });
+});
+
+describe('groupOutageEvents', () => {
+  it('groups steps with a shortage and the genset operation', () => {
+    const outages = groupOutageEvents(steps, 2);
+    expect(outages).toHaveLength(1);
+    expect(outages[0]).toMatchObject({ start: steps[3].datetime, durationHours: 1, totalMissedMWh: 1, maxShortageMW: 1, gensetStarts: 1, fleetSufficient: true });
+  });
+
+  it('flags a fleet smaller than the peak shortage', () => {
+    expect(groupOutageEvents(steps, 0.5)[0].fleetSufficient).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { DistributionBucket, OutageEvent, RestrictionEvent, SimulationStep } from './types';
+
+// --- HELPER: EVENT GROUPING ---
+// Consecutive restricted hours (grid limit below the connection) form one restriction event.
+export const groupRestrictionEvents = (steps: SimulationStep[], initialSoC: number): RestrictionEvent[] => {
+  const events: RestrictionEvent[] = [];
+  let currentEvent: RestrictionEvent | null = null;
+
+  for (let i = 0; i < steps.length; i++) {
+    const s = steps[i];
+    const isRestricted = s.restrictedMW > 0.01;
+
+    if (isRestricted) {
+      const restrictedMWh = s.restrictedMW * s.durationHours;
+      const deficitMWh = Math.max(0, (s.totalDemand - s.solarUsedByLoad) - s.gridToLoad) * s.durationHours;
+
+      if (!currentEvent) {
+        currentEvent = {
+          start: s.datetime,
+          end: s.datetime,
+          durationHours: s.durationHours,
+          totalDeficitMWh: deficitMWh,
+          totalGridRestrictedMWh: restrictedMWh,
+          batteryStartSoC: i > 0 ? steps[i - 1].socEnd : initialSoC,
+          mitigated: true
+        };
+      } else {
+        currentEvent.durationHours += s.durationHours;
+        currentEvent.totalDeficitMWh += deficitMWh;
+        currentEvent.totalGridRestrictedMWh += restrictedMWh;
+        currentEvent.end = s.datetime;
+      }
+      if (s.shortage > 0.001) {
+        currentEvent.mitigated = false;
+      }
+    } else if (currentEvent) {
+      events.push(currentEvent);
+      currentEvent = null;
+    }
+  }
+  if (currentEvent) events.push(currentEvent);
+
+  return events;
+};
+
+// Consecutive hours with a remaining shortage form one outage (diesel) event,
+// with the genset operation and whether the fleet (MW) can carry its peak.
+export const groupOutageEvents = (steps: SimulationStep[], fleetCapacityMW = Infinity): OutageEvent[] => {
+  const outageEvents: OutageEvent[] = [];
+  let currentOutage: OutageEvent | null = null;
+
+  for (const s of steps) {
+    const hasShortage = s.shortage > 0.001;
+
+    if (hasShortage) {
+      if (!currentOutage) {
+        currentOutage = {
+          start: s.datetime,
+          end: s.datetime,
+          durationHours: s.durationHours,
+          totalMissedMWh: s.shortage * s.durationHours,
+          maxShortageMW: s.shortage,
+          gensetStarts: s.gensetStarts,
+          gensetRunHours: s.gensetUnitsRunning * s.durationHours,
+          unservedMWh: s.unservedMW * s.durationHours,
+          fleetSufficient: fleetCapacityMW >= s.shortage - 1e-6
+        };
+      } else {
+        currentOutage.durationHours += s.durationHours;
+        currentOutage.totalMissedMWh += s.shortage * s.durationHours;
+        currentOutage.maxShortageMW = Math.max(currentOutage.maxShortageMW, s.shortage);
+        currentOutage.gensetStarts += s.gensetStarts;
+        currentOutage.gensetRunHours += s.gensetUnitsRunning * s.durationHours;
+        currentOutage.unservedMWh += s.unservedMW * s.durationHours;
+        currentOutage.fleetSufficient = fleetCapacityMW >= currentOutage.maxShortageMW - 1e-6;
+        currentOutage.end = s.datetime;
+      }
+    } else if (currentOutage) {
+      outageEvents.push(currentOutage);
+      currentOutage = null;
+    }
+  }
+  if (currentOutage) outageEvents.push(currentOutage);
+
+  return outageEvents;
+};
+
+// Histogram of restriction events by duration, with the load deficit per bucket.
+export const buildDistribution = (events: RestrictionEvent[]): DistributionBucket[] => {
+  const distMap = new Map<number, { count: number, totalDeficit: number }>();
+  events.forEach(e => {
+    const d = e.durationHours;
+    const current = distMap.get(d) || { count: 0, totalDeficit: 0 };
+    distMap.set(d, {
+      count: current.count + 1,
+      totalDeficit: current.totalDeficit + e.totalDeficitMWh
+    });
+  });
+
+  return Array.from(distMap.entries()).map(([duration, data]) => ({
+    duration,
+    frequency: data.count,
+    totalMWhCurtailed: data.totalDeficit,
+    avgMWhCurtailed: data.totalDeficit / data.count
+  })).sort((a, b) => a.duration - b.duration);
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ExportTable, formatTableCsv, getExportTables, getXlsxParts } from './export';
+import { runSimulation } from './simulation';
+import { createTestParams, createTestYear } from './testing';
+
+// One evening restriction to 3 MW a day
+const res = runSimulation(createTestYear(2025, i => (i % 24 >= 18 && i % 24 < 21 ? 3 : 10)), [], createTestParams(), [], [], undefined, [], 2025);
+
+describe('getExportTables', () => {
+  it('exports every step, month and event of the year', () => {
+    const [steps, months, events, outages, yearly] = getExportTables([{ year: 2025, res }], []);
+
+    expect(steps.rows).toHaveLength(8760);
+    expect(months.rows).toHaveLength(12);
+    expect(events.rows).toHaveLength(res.events.length);
+    expect(outages.rows).toHaveLength(res.outageEvents.length);
+    expect(yearly.rows).toEqual([]);
+    [steps, months, events, outages].forEach(table => {
+      expect(table.rows.every(row => row.length === table.columns.length)).toBe(true);
+    });
+    expect(steps.rows[0][0]).toBe('2025-01-01 00:00:00');
+  });
+
+  it('puts the year in front when more than one year is exported', () => {
+    const [steps] = getExportTables([{ year: 2025, res }, { year: 2026, res }], []);
+
+    expect(steps.columns[0]).toBe('Jaar');
+    expect(steps.rows).toHaveLength(2 * 8760);
+    expect(steps.rows[8760][0]).toBe(2026);
+  });
+});
+
+const table: ExportTable = {
+  name: 'Test: "a/b"',
+  columns: ['Naam', 'Waarde (MW)'],
+  rows: [['x;y', 0.1 + 0.2], ['<z & "w">', NaN]]
+};
+
+describe('formatTableCsv', () => {
+  it('quotes separators and leaves invalid numbers empty', () => {
+    expect(formatTableCsv(table)).toBe('Naam;Waarde (MW)\n"x;y";0.3\n"<z & ""w"">";');
+  });
+});
+
+describe('getXlsxParts', () => {
+  it('writes one escaped worksheet per table with a valid sheet name', () => {
+    const parts = getXlsxParts([table, { ...table, name: 'Tweede' }]);
+
+    expect(Object.keys(parts)).toEqual([
+      '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml'
+    ]);
+    expect(parts['xl/workbook.xml']).toContain('<sheet name="Test  &quot;a b&quot;" sheetId="1" r:id="rId1"/>');
+    expect(parts['xl/worksheets/sheet1.xml']).toContain('<c r="A3" t="inlineStr"><is><t>&lt;z &amp; &quot;w&quot;&gt;</t></is></c>');
+    expect(parts['xl/worksheets/sheet1.xml']).toContain('<c r="B2"><v>0.3</v></c>');
+    expect(parts['xl/worksheets/sheet1.xml']).not.toContain('r="B3"');
+  });
+});
@@ -0,0 +1,228 @@
+import { formatLocalDateTime } from './time';
+import { AnalysisResult, MonthlyStat, OutageEvent, RestrictionEvent, SimulationStep, YearlyResult } from './types';
+
+export type ExportValue = string | number;
+
+// One sheet of an export: column names with their unit, and the rows
+export type ExportTable = {
+  name: string;
+  columns: string[];
+  rows: ExportValue[][];
+};
+
+// Simulated year as exported; res is the runSimulation result of that year
+export type ExportYear = {
+  year: number;
+  res: AnalysisResult;
+};
+
+type Column<T> = [string, (item: T) => ExportValue];
+
+const STEP_COLUMNS: Column<SimulationStep>[] = [
+  ['Tijd (lokaal)', s => formatLocalDateTime(s.datetime)],
+  ['Stapduur (u)', s => s.durationHours],
+  ['Netlimiet (MW)', s => s.gridLimit],
+  ['Beperking (MW)', s => s.restrictedMW],
+  ['DC vraag (MW)', s => s.dcDemand],
+  ['Logistiek vraag (MW)', s => s.logisticsDemand],
+  ['Totale vraag (MW)', s => s.totalDemand],
+  ['Zon opwek (MW)', s => s.solarGeneration],
+  ['Zon naar last (MW)', s => s.solarUsedByLoad],
+  ['Net naar last (MW)', s => s.gridToLoad],
+  ['Batterij naar last (MW)', s => s.batToLoad],
+  ['Net naar batterij (MW)', s => s.gridToBat],
+  ['Zon naar batterij (MW)', s => s.solarToBat],
+  ['Tekort (MW)', s => s.shortage],
+  ['SoC einde (MWh)', s => s.socEnd],
+  ['Batterij actief (0/1)', s => (s.isBatteryActive ? 1 : 0)],
+  ['Batterijverlies (MW)', s => s.batteryLoss],
+  ['Arbitrage laden (MW)', s => s.arbitrageCharge],
+  ['Arbitrage ontladen (MW)', s => s.arbitrageDischarge],
+  ['Gereserveerd FCR/aFRR (MW)', s => s.reservedMW],
+  ['Aggregaten (MW)', s => s.gensetMW],
+  ['Aggregaten in bedrijf', s => s.gensetUnitsRunning],
+  ['Aggregaatstarts', s => s.gensetStarts],
+  ['Niet geleverd (MW)', s => s.unservedMW]
+];
+
+const MONTH_COLUMNS: Column<MonthlyStat>[] = [
+  ['Maand', m => m.month],
+  ['Beperkt volume (MWh)', m => m.restrictedMWh],
+  ['Beperkte uren (u)', m => m.restrictedHours],
+  ['Zon opwek (MWh)', m => m.solarGeneration],
+  ['Zon gebruikt (MWh)', m => m.solarUsed],
+  ['Tekort gedekt door zon (MWh)', m => m.deficitMitigatedBySolar],
+  ['Tekort gedekt door batterij (MWh)', m => m.deficitMitigatedByBat],
+  ['Resterend tekort (MWh)', m => m.deficitNet]
+];
+
+const EVENT_COLUMNS: Column<RestrictionEvent>[] = [
+  ['Start (lokaal)', e => formatLocalDateTime(e.start)],
+  ['Einde (lokaal)', e => formatLocalDateTime(e.end)],
+  ['Duur (u)', e => e.durationHours],
+  ['Tekort (MWh)', e => e.totalDeficitMWh],
+  ['Netbeperking (MWh)', e => e.totalGridRestrictedMWh],
+  ['Opgevangen (0/1)', e => (e.mitigated ? 1 : 0)],
+  ['SoC bij start (MWh)', e => e.batteryStartSoC]
+];
+
+const OUTAGE_COLUMNS: Column<OutageEvent>[] = [
+  ['Start (lokaal)', e => formatLocalDateTime(e.start)],
+  ['Einde (lokaal)', e => formatLocalDateTime(e.end)],
+  ['Duur (u)', e => e.durationHours],
+  ['Tekort (MWh)', e => e.totalMissedMWh],
+  ['Max. tekort (MW)', e => e.maxShortageMW],
+  ['Aggregaatstarts', e => e.gensetStarts],
+  ['Aggregaat draaiuren (u)', e => e.gensetRunHours],
+  ['Niet geleverd (MWh)', e => e.unservedMWh],
+  ['Vloot voldoende (0/1)', e => (e.fleetSufficient ? 1 : 0)]
+];
+
+const YEAR_COLUMNS: Column<YearlyResult>[] = [
+  ['Jaar', y => y.year],
+  ['Databron', y => y.dataStatus],
+  ['Datadekking (%)', y => y.dataCoverage],
+  ['Beperkte uren (u)', y => y.totalHoursRestricted],
+  ['Beperkt volume (MWh)', y => y.totalMWhRestricted],
+  ['CSC-aandeel (%)', y => y.cscPercentage],
+  ['DC capaciteit (MW)', y => y.dcCapacityUsed],
+  ['Totale last (MWh)', y => y.totalLoadConsumption],
+  ['Beperkt volume last (MWh)', y => y.restrictedVolumeLoad],
+  ['Tekort na zon (MWh)', y => y.deficitAfterSolar],
+  ['Tekort na batterij (MWh)', y => y.dcDeficitWithBat],
+  ['Dieselaandeel (%)', y => y.dieselPercentage],
+  ['Diesel (L)', y => y.dieselLiters],
+  ['Dieselkosten bruto (EUR)', y => y.grossDieselCost],
+  ['Niet geleverd, kosten (EUR)', y => y.lostLoadCost],
+  ['Vermeden netkosten (EUR)', y => y.avoidedGridCost],
+  ['Netto meerkosten (EUR)', y => y.netExtraCost],
+  ['Energiekosten (EUR)', y => y.energyCost],
+  ['Aggregaatstarts', y => y.gensetStarts],
+  ['Aggregaat draaiuren (u)', y => y.gensetRunHours],
+  ['Max. draaiuren per aggregaat (u)', y => y.gensetMaxUnitRunHours],
+  ['Aggregaat niet geleverd (MWh)', y => y.gensetUnservedMWh],
+  ['Zon opwek (MWh)', y => y.totalSolarGeneration],
+  ['Zon eigen verbruik (MWh)', y => y.solarSelfConsumption],
+  ['Net naar last (MWh)', y => y.totalGridToLoad],
+  ['Zon naar last (MWh)', y => y.totalSolarToLoad],
+  ['Batterij naar last (MWh)', y => y.totalBatToLoad],
+  ['Batterijverlies (MWh)', y => y.totalBatteryLoss],
+  ['CO2 diesel (t)', y => y.dieselCo2Tonnes],
+  ['CO2 net (t)', y => y.gridCo2Tonnes],
+  ['CO2 totaal (t)', y => y.totalCo2Tonnes],
+  ['NOx diesel (kg)', y => y.dieselNoxKg],
+  ['PM diesel (kg)', y => y.dieselPmKg],
+  ['CO2-kosten (EUR)', y => y.carbonCost],
+  ['Handelsvolume (MWh)', y => y.tradingVolumePotentialMWh],
+  ['Handelsvolume (%)', y => y.tradingVolumePercent],
+  ['Arbitrage opbrengst (EUR)', y => y.arbitrageRevenue],
+  ['Arbitrage gekocht (MWh)', y => y.arbitrageBoughtMWh],
+  ['Arbitrage verkocht (MWh)', y => y.arbitrageSoldMWh],
+  ['FCR opbrengst (EUR)', y => y.fcrRevenue],
+  ['aFRR opbrengst (EUR)', y => y.afrrRevenue],
+  ['FCR uren (u)', y => y.fcrHours],
+  ['aFRR uren (u)', y => y.afrrHours],
+  ['Aansluiting (MW)', y => y.capConnectionMW],
+  ['Gecontracteerd (MW)', y => y.capContractedMW],
+  ['Firm (MW)', y => y.capFirmMW],
+  ['Logistiek (MW)', y => y.capLogisticsMW],
+  ['DC werkelijk (MW)', y => y.capDcActualMW],
+  ['DC contract (MW)', y => y.capDcContractMW],
+  ['Ruimte batterij (MW)', y => y.capBatterySpaceMW],
+  ['Zon gekoppeld (u)', y => y.solarMatchedHours],
+  ['Zon geïnterpoleerd (u)', y => y.solarInterpolatedHours],
+  ['Zon ontbrekend (u)', y => y.solarMissingHours]
+];
+
+// Rows of all years with the year in front when more than one year is exported
+const buildTable = <T>(name: string, columns: Column<T>[], years: ExportYear[], getItems: (res: AnalysisResult) => T[]): ExportTable => {
+  const withYear = years.length > 1;
+  return {
+    name,
+    columns: [...(withYear ? ['Jaar'] : []), ...columns.map(([header]) => header)],
+    rows: years.flatMap(({ year, res }) => getItems(res).map(item => [...(withYear ? [year] : []), ...columns.map(([, get]) => get(item))]))
+  };
+};
+
+// Events in time order; the tables in the UI sort them by duration in place
+const byStart = (a: { start: Date }, b: { start: Date }) => a.start.getTime() - b.start.getTime();
+
+// --- HELPER: EXPORT TABLES ---
+// The simulation per step, the monthly stats, the restriction and outage events of the
+// given years, and the multi-year table. Flows are MW averaged over the step (see
+// SimulationStep); times are Dutch local time as in the profile files.
+export const getExportTables = (years: ExportYear[], yearly: YearlyResult[]): ExportTable[] => [
+  buildTable('Simulatie', STEP_COLUMNS, years, res => res.simulationSteps),
+  buildTable('Maanden', MONTH_COLUMNS, years, res => res.monthlyStats),
+  buildTable('Beperkingen', EVENT_COLUMNS, years, res => [...res.events].sort(byStart)),
+  buildTable('Storingen', OUTAGE_COLUMNS, years, res => [...res.outageEvents].sort(byStart)),
+  { name: 'Meerjaren', columns: YEAR_COLUMNS.map(([header]) => header), rows: yearly.map(y => YEAR_COLUMNS.map(([, get]) => get(y))) }
+];
+
+// Ten significant digits keep euros exact without float noise; NaN and Infinity are left empty
+const formatNumber = (value: number): string => (Number.isFinite(value) ? String(parseFloat(value.toPrecision(10))) : '');
+
+const quoteCsvField = (value: string) => (/[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Semicolon CSV with a decimal point, as written by formatProfileCsv
+export const formatTableCsv = (table: ExportTable): string =>
+  [table.columns, ...table.rows]
+    .map(row => row.map(v => (typeof v === 'number' ? formatNumber(v) : quoteCsvField(v))).join(';'))
+    .join('\n');
+
+// --- HELPER: XLSX ---
+// The parts of a minimal Office Open XML workbook, one worksheet per table, to be put in
+// a zip archive. Text is written as inline strings, so no shared string table is needed.
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const formatSheetXml = (table: ExportTable): string => {
+  const rows = [table.columns, ...table.rows].map((row, r) => {
+    const cells = row.map((v, c) => {
+      const ref = `${getColumnName(c)}${r + 1}`;
+      if (typeof v === 'number') return Number.isFinite(v) ? `<c r="${ref}"><v>${formatNumber(v)}</v></c>` : '';
+      return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(v)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${rows.join('')}</sheetData></worksheet>`;
+};
+
+// Sheet names are at most 31 characters and cannot contain []:*?/\
+const getSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+export const getXlsxParts = (tables: ExportTable[]): Record<string, string> => {
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': header
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+      + '</Types>',
+    '_rels/.rels': header
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>',
+    'xl/workbook.xml': header
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>'
+      + tables.map((t, i) => `<sheet name="${escapeXml(getSheetName(t.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+      + '</sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': header
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+      + '</Relationships>'
+  };
+  tables.forEach((table, i) => { parts[`xl/worksheets/sheet${i + 1}.xml`] = formatSheetXml(table); });
+  return parts;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { buildInvestmentCase, calculateIrr, calculateNpv, calculatePayback, getBaselineParams } from './finance';
+import { createTestMultiYearParams } from './testing';
+import { FinanceParams } from './types';
+import { runMultiYear } from './yearly';
+
+describe('calculateNpv', () => {
+  it('discounts every year after the first', () => {
+    expect(calculateNpv(0.1, [-100, 110])).toBeCloseTo(0, 9);
+    expect(calculateNpv(0, [-100, 60, 60])).toBe(20);
+    expect(calculateNpv(0.05, [-100, 0, 110.25])).toBeCloseTo(0, 9);
+  });
+});
+
+describe('calculateIrr', () => {
+  it('finds the rate at which the NPV is zero', () => {
+    expect(calculateIrr([-100, 110])).toBeCloseTo(0.1, 6);
+    const irr = calculateIrr([-100, 60, 60]);
+    expect(irr).not.toBeNull();
+    expect(calculateNpv(irr as number, [-100, 60, 60])).toBeCloseTo(0, 4);
+  });
+
+  it('is negative for an investment that does not earn itself back', () => {
+    expect(calculateIrr([-100, 50, 40])).toBeLessThan(0);
+  });
+
+  it('has no rate when the cash flows do not change sign', () => {
+    expect(calculateIrr([-100, -10, -10])).toBeNull();
+    expect(calculateIrr([100, 10])).toBeNull();
+  });
+});
+
+describe('calculatePayback', () => {
+  it('interpolates within the year the cumulative cash flow turns positive', () => {
+    expect(calculatePayback([-100, 40, 40, 40])).toBeCloseTo(2.5, 9);
+    expect(calculatePayback([-100, 100])).toBe(1);
+  });
+
+  it('is immediate without an investment and never when it is not earned back', () => {
+    expect(calculatePayback([0, 10])).toBe(0);
+    expect(calculatePayback([-100, 30, 30])).toBeNull();
+  });
+});
+
+describe('buildInvestmentCase', () => {
+  const finance: FinanceParams = {
+    batteryCapexPerMW: 100000,
+    batteryCapexPerMWh: 250000,
+    solarCapexPerMWp: 600000,
+    solarInInvestment: false,
+    fixedOpexPercent: 1.5,
+    variableOpexPerMWh: 2,
+    batteryReplacementYear: 0,
+    batteryReplacementPercent: 0,
+    discountRatePercent: 7,
+    inflationPercent: 2
+  };
+
+  it('counts the lost load the battery removes as savings', () => {
+    // No gensets: every MWh the battery does not cover is lost load
+    const params = createTestMultiYearParams({
+      gridContract: { ...createTestMultiYearParams().gridContract, mode: 'availability', guaranteedMW: 3, availabilityPercent: 95, allocation: 'random' }
+    });
+    const caseYears = runMultiYear([2025], [], [], params);
+    const baselineYears = runMultiYear([2025], [], [], getBaselineParams(params, false));
+    const investment = buildInvestmentCase(caseYears, baselineYears, { batteryPowerMW: 10, batteryCapacityMWh: 40, solarMWp: 0 }, finance);
+
+    expect(baselineYears[0].lostLoadCost).toBeGreaterThan(caseYears[0].lostLoadCost);
+    expect(investment.totalCapex).toBe(10 * 100000 + 40 * 250000);
+    expect(investment.rows[0].savings).toBeCloseTo((baselineYears[0].energyCost - caseYears[0].energyCost) * 1.02, 6);
+    expect(investment.rows[0].savings).toBeGreaterThan(0);
+    expect(investment.npv).toBeCloseTo(calculateNpv(0.07, [-investment.totalCapex, investment.rows[0].netCashFlow]), 6);
+  });
+});
@@ -0,0 +1,138 @@
+import { BaseSimulationParams, FinanceParams, YearlyResult } from './types';
+
+// Nominal cash flows of one year of the horizon (EUR).
+export type CashFlowRow = {
+  year: number;
+  // Lower energy cost (gensets, lost load and grid purchases) than the baseline
+  savings: number;
+  // Arbitrage and FCR/aFRR capacity revenue
+  revenue: number;
+  opex: number;
+  replacement: number;
+  netCashFlow: number;
+  discountedCashFlow: number;
+  cumulativeCashFlow: number;
+};
+
+export type InvestmentCase = {
+  batteryCapex: number;
+  solarCapex: number;
+  totalCapex: number;
+  rows: CashFlowRow[];
+  npv: number;
+  // Internal rate of return as a fraction; null when the cash flows never break even
+  irr: number | null;
+  // Years until the cumulative (undiscounted) cash flow turns positive
+  paybackYears: number | null;
+};
+
+// The configuration without the investment: no battery, and no solar when the
+// solar park is part of the investment. Run through the same engine as the case itself.
+export const getBaselineParams = <T extends BaseSimulationParams>(params: T, solarInInvestment: boolean): T => ({
+  ...params,
+  batteryCapacityMWh: 0,
+  batteryPowerMW: 0,
+  dispatchStrategy: 'greedy',
+  arbitrageEnabled: false,
+  ancillaryProducts: [],
+  solarScaleFactor: solarInInvestment ? 0 : params.solarScaleFactor
+});
+
+// Net present value of cash flows indexed by year (index 0 = now, undiscounted).
+export const calculateNpv = (rate: number, cashFlows: number[]): number =>
+  cashFlows.reduce((sum, cashFlow, t) => sum + cashFlow / Math.pow(1 + rate, t), 0);
+
+// Rate at which the NPV is zero, found by bisection between -99% and 1000%.
+export const calculateIrr = (cashFlows: number[]): number | null => {
+  let low = -0.99;
+  let high = 10;
+  let npvLow = calculateNpv(low, cashFlows);
+  if (npvLow * calculateNpv(high, cashFlows) > 0) return null;
+
+  for (let k = 0; k < 200 && high - low > 1e-9; k++) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNpv(mid, cashFlows);
+    if (npvLow * npvMid <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+// Years until the cumulative cash flow is no longer negative, interpolated within the year.
+export const calculatePayback = (cashFlows: number[]): number | null => {
+  let cumulative = cashFlows[0] || 0;
+  if (cumulative >= 0) return 0;
+  for (let t = 1; t < cashFlows.length; t++) {
+    const next = cumulative + cashFlows[t];
+    if (next >= 0) return t - 1 + (cashFlows[t] > 0 ? -cumulative / cashFlows[t] : 1);
+    cumulative = next;
+  }
+  return null;
+};
+
+// --- HELPER: INVESTMENT CASE ---
+// Compares every simulated year of the chosen configuration with the same year of
+// the baseline. Simulated prices are today's prices, so each year t of the horizon
+// is escalated by (1 + inflation)^t and discounted by (1 + discount rate)^t. The
+// battery is replaced every batteryReplacementYear years, except in the final
+// year of the horizon where the new battery would not be used.
+export const buildInvestmentCase = (
+  caseYears: YearlyResult[],
+  baselineYears: YearlyResult[],
+  config: { batteryPowerMW: number, batteryCapacityMWh: number, solarMWp: number },
+  params: FinanceParams
+): InvestmentCase => {
+  const {
+    batteryCapexPerMW, batteryCapexPerMWh, solarCapexPerMWp, solarInInvestment, fixedOpexPercent,
+    variableOpexPerMWh, batteryReplacementYear, batteryReplacementPercent, discountRatePercent, inflationPercent
+  } = params;
+  const discountRate = discountRatePercent / 100;
+  const inflation = inflationPercent / 100;
+
+  const batteryCapex = config.batteryPowerMW * batteryCapexPerMW + config.batteryCapacityMWh * batteryCapexPerMWh;
+  const solarCapex = solarInInvestment ? config.solarMWp * solarCapexPerMWp : 0;
+  const totalCapex = batteryCapex + solarCapex;
+  const baselineByYear = new Map(baselineYears.map(y => [y.year, y]));
+
+  let cumulativeCashFlow = -totalCapex;
+  const rows = caseYears.map((stat, i): CashFlowRow => {
+    const t = i + 1;
+    const escalation = Math.pow(1 + inflation, t);
+    const baseline = baselineByYear.get(stat.year);
+
+    const savings = (baseline ? baseline.energyCost - stat.energyCost : 0) * escalation;
+    const revenue = (stat.arbitrageRevenue + stat.fcrRevenue + stat.afrrRevenue) * escalation;
+    const dischargedMWh = stat.totalBatToLoad + stat.arbitrageSoldMWh;
+    const opex = (totalCapex * fixedOpexPercent / 100 + dischargedMWh * variableOpexPerMWh) * escalation;
+    const isReplacementYear = batteryReplacementYear > 0 && t % batteryReplacementYear === 0 && t < caseYears.length;
+    const replacement = isReplacementYear ? batteryCapex * batteryReplacementPercent / 100 * escalation : 0;
+
+    const netCashFlow = savings + revenue - opex - replacement;
+    cumulativeCashFlow += netCashFlow;
+    return {
+      year: stat.year,
+      savings,
+      revenue,
+      opex,
+      replacement,
+      netCashFlow,
+      discountedCashFlow: netCashFlow / Math.pow(1 + discountRate, t),
+      cumulativeCashFlow
+    };
+  });
+
+  const cashFlows = [-totalCapex, ...rows.map(r => r.netCashFlow)];
+  return {
+    batteryCapex,
+    solarCapex,
+    totalCapex,
+    rows,
+    npv: calculateNpv(discountRate, cashFlows),
+    irr: totalCapex > 0 ? calculateIrr(cashFlows) : null,
+    paybackYears: totalCapex > 0 ? calculatePayback(cashFlows) : null
+  };
+};
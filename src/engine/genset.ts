@@ -0,0 +1,100 @@
+import { GensetFuelPoint, GensetParams } from './types';
+
+// Genset output of one step (MW averaged over the step).
+export type GensetStep = {
+  outputMW: number;
+  unitsRunning: number;
+  starts: number;
+  fuelLiters: number;
+  // Shortage the fleet could not cover (too small, or run-hour permit used up)
+  unservedMW: number;
+  // Output forced by the minimum loading above the shortage (load bank)
+  dumpedMW: number;
+};
+
+export type GensetDispatch = {
+  steps: GensetStep[];
+  unitRunHours: number[];
+};
+
+// Fuel use (L/h) of one unit at a load fraction of its rating, interpolated on
+// the datasheet curve. Outside the curve the nearest segment is extended.
+export const getFuelRate = (curve: GensetFuelPoint[], loadFraction: number): number => {
+  const points = [...curve].sort((a, b) => a.loadPercent - b.loadPercent);
+  if (points.length === 0) return 0;
+  if (points.length === 1) return points[0].litersPerHour * loadFraction * 100 / (points[0].loadPercent || 100);
+
+  const load = loadFraction * 100;
+  let k = 0;
+  while (k < points.length - 2 && load > points[k + 1].loadPercent) k++;
+  const a = points[k];
+  const b = points[k + 1];
+  const slope = (b.litersPerHour - a.litersPerHour) / ((b.loadPercent - a.loadPercent) || 1);
+  return Math.max(0, a.litersPerHour + slope * (load - a.loadPercent));
+};
+
+// Value of lost load (EUR/MWh): the price of shortage that no genset can supply, well
+// above any grid or genset cost so the optimal dispatch never leaves load unserved to save
+// energy cost.
+export const VALUE_OF_LOST_LOAD = 10000;
+
+// Variable cost of genset energy at full load (fuel plus maintenance), EUR/MWh.
+// The optimal dispatch uses it as the value of a MWh of shortage the fleet can supply.
+export const getGensetCostPerMWh = (params: GensetParams, dieselPrice: number): number => {
+  const { gensetRatedMW, gensetFuelCurve, gensetMaintenancePerRunHour } = params;
+  if (gensetRatedMW <= 0) return 0;
+  return (getFuelRate(gensetFuelCurve, 1) * dieselPrice + gensetMaintenancePerRunHour) / gensetRatedMW;
+};
+
+// Shortage (MW) the fleet could take over per step, from the shortage before the battery.
+// That uses more run hours than the actual dispatch, so a permit is taken to run out early.
+export const getGensetCoverMW = (shortageMW: number[], params: GensetParams, dt: number): number[] =>
+  dispatchGensets(shortageMW, params, dt).steps.map(s => s.outputMW);
+
+// --- HELPER: GENSET DISPATCH ---
+// Covers the shortage of every step with the fewest units that can carry it.
+// Units already running stay on (no extra start); otherwise the units with the
+// fewest run hours start first, so run hours spread over the fleet. A unit whose
+// permit hours are used up is no longer available. Running units share the load
+// equally and never run below their minimum loading.
+export const dispatchGensets = (shortageMW: number[], params: GensetParams, dt: number): GensetDispatch => {
+  const { gensetUnits, gensetRatedMW, gensetMinLoadPercent, gensetFuelCurve, gensetStartFuelL, gensetMaxRunHoursPerYear } = params;
+  const units = Math.max(0, Math.floor(gensetUnits));
+  const rated = Math.max(0, gensetRatedMW);
+  const minLoad = rated * Math.min(1, Math.max(0, gensetMinLoadPercent / 100));
+  const permitHours = gensetMaxRunHoursPerYear > 0 ? gensetMaxRunHoursPerYear : Infinity;
+
+  const unitRunHours = new Array(units).fill(0);
+  let running = new Set<number>();
+
+  const steps = shortageMW.map(shortage => {
+    if (shortage <= 1e-6 || units === 0 || rated <= 0) {
+      running = new Set();
+      return { outputMW: 0, unitsRunning: 0, starts: 0, fuelLiters: 0, unservedMW: Math.max(0, shortage), dumpedMW: 0 };
+    }
+
+    const available = Array.from({ length: units }, (_, u) => u)
+      .filter(u => unitRunHours[u] + dt <= permitHours + 1e-9)
+      .sort((a, b) => (running.has(b) ? 1 : 0) - (running.has(a) ? 1 : 0) || unitRunHours[a] - unitRunHours[b]);
+    const needed = Math.min(available.length, Math.ceil(shortage / rated - 1e-9));
+    const committed = available.slice(0, needed);
+
+    const starts = committed.filter(u => !running.has(u)).length;
+    running = new Set(committed);
+    committed.forEach(u => { unitRunHours[u] += dt; });
+
+    const n = committed.length;
+    const outputMW = Math.min(shortage, n * rated);
+    const unitLoad = n > 0 ? Math.max(outputMW / n, minLoad) : 0;
+    return {
+      outputMW,
+      unitsRunning: n,
+      starts,
+      fuelLiters: n * getFuelRate(gensetFuelCurve, unitLoad / rated) * dt + starts * gensetStartFuelL,
+      unservedMW: shortage - outputMW,
+      dumpedMW: n * unitLoad - outputMW
+    };
+  });
+
+  return { steps, unitRunHours };
+};
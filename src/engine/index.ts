@@ -0,0 +1,46 @@
+export * from './types';
+export { getYearData, getDcCapacityForYear, getGridCapacityForYear, detectTimestepHours, hoursInYear } from './profiles';
+export type { YearData } from './profiles';
+export { runSimulation, getWorstWeek, prepareStepInputs } from './simulation';
+export { computeForecastTargets, getPreBatteryBalance } from './dispatch';
+export type { BatteryLimits } from './dispatch';
+export { solveOptimalDispatch } from './optimizer';
+export type { DispatchPlanStep, DispatchPrices } from './optimizer';
+export { simulateArbitrage } from './arbitrage';
+export type { ArbitrageStep } from './arbitrage';
+export { planAncillaryServices } from './ancillary';
+export type { AncillaryPlan, StepReservation } from './ancillary';
+export { createLoadShapeLookup } from './load';
+export type { LoadScaling } from './load';
+export { getDutchHolidays, getEasterSunday, getLogisticsDemand, getScheduleAverageMW, getSchedulePeakMW, isDutchHoliday } from './schedule';
+export { calculateEmissions } from './emissions';
+export type { EmissionTotals } from './emissions';
+export { groupRestrictionEvents, groupOutageEvents, buildDistribution } from './events';
+export { formatTableCsv, getExportTables, getXlsxParts } from './export';
+export type { ExportTable, ExportValue, ExportYear } from './export';
+export { applyGridContract, getContractLookAheadHours } from './contract';
+export { calculateDieselCost } from './costs';
+export { POWER_PROFILE_TYPES, detectCsvOptions, getCsvSignature, getDefaultUnit, parseCsv, parseCsvNumber, splitCsvLine, splitCsvLines } from './csv';
+export type { CsvDelimiter, CsvImportOptions, DecimalMark, ParsedCsv, ValueUnit } from './csv';
+export { buildInvestmentCase, calculateIrr, calculateNpv, calculatePayback, getBaselineParams } from './finance';
+export type { CashFlowRow, InvestmentCase } from './finance';
+export { VALUE_OF_LOST_LOAD, dispatchGensets, getFuelRate, getGensetCostPerMWh, getGensetCoverMW } from './genset';
+export type { GensetDispatch, GensetStep } from './genset';
+export { PROJECT_FORMAT, PROJECT_VERSION, createProjectFile, migrateProject } from './project';
+export type { CsvType, LegacyStorage, ProfileReference, ProjectFile, ProjectLoadResult, ProjectProfile, SavedScenario } from './project';
+export { analyzeProfileQuality } from './quality';
+export type { DataQualityReport, DstAnomaly, ProfileGap, YearCoverage } from './quality';
+export { createRandom, fitRestrictionModel, generateRestrictionYear, getPercentile, runMonteCarlo } from './scenarios';
+export type { MonteCarloYear, Percentiles, RestrictionModel } from './scenarios';
+export { applySensitivityValue, getSensitivityBaseValue, runTornado, runTwoWaySweep } from './sensitivity';
+export type { SensitivityOutcome, SensitivityParameter, SensitivityRange, TornadoBar, TwoWayCell } from './sensitivity';
+export { getCscEndDate, getFinanceParams, getMultiYearParams, getSolarScaleFactor } from './settings';
+export type { ScenarioSettings } from './settings';
+export { getRangeValues, markParetoFront, runSizingSweep } from './sizing';
+export type { SizingGrid, SizingPoint, SizingRange } from './sizing';
+export { createProfileLookup, createSolarLookup } from './solar';
+export type { SolarLookupStatus } from './solar';
+export { TIME_ZONE, getLocalParts, getLocalYear, localToUtc, startOfLocalYear, parseDateTime, parseLocalDateTime, formatLocalDateTime } from './time';
+export type { DateFormat, LocalParts, TimestampZone } from './time';
+export { buildYearlyResult, getGridYearData, hasGridInput, runMultiYear, simulateYear } from './yearly';
+export type { MultiYearParams } from './yearly';
@@ -0,0 +1,32 @@
+import { createProfileLookup } from './solar';
+import { LoadPoint, SolarAlignmentMode } from './types';
+
+// 'mean' scales the profile average to the target level, 'peak' its maximum.
+export type LoadScaling = 'mean' | 'peak';
+
+// --- HELPER: LOAD PROFILES ---
+// An uploaded load profile supplies the shape of the demand, the project
+// parameters its level, so the growth path keeps working: the datacenter profile
+// is scaled to an average of dcCapacityMW * utilization (the level of the flat
+// model), the logistics profile to the peak of the logistics schedule (see
+// getSchedulePeakMW). Returns null without a usable profile; the lookup itself
+// returns null for steps the profile does not cover, which then fall back to the
+// flat model or the schedule.
+export const createLoadShapeLookup = (
+  points: LoadPoint[],
+  scaling: LoadScaling,
+  mode: SolarAlignmentMode,
+  gridStepHours: number
+): ((d: Date) => number | null) | null => {
+  if (points.length === 0) return null;
+  const reference = scaling === 'mean'
+    ? points.reduce((sum, p) => sum + p.loadMW, 0) / points.length
+    : points.reduce((max, p) => Math.max(max, p.loadMW), 0);
+  if (reference <= 0) return null;
+
+  const lookup = createProfileLookup(points, 'loadMW', mode, gridStepHours);
+  return d => {
+    const res = lookup(d);
+    return res.status === 'missing' ? null : Math.max(0, res.value) / reference;
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { solveOptimalDispatch } from './optimizer';
+import { StepInput } from './types';
+
+// One hour with 1 MW of shortage: 5 MW demand, 4 MW of grid and no solar
+const createShortageStep = (hour: number): StepInput => ({
+  datetime: new Date(Date.UTC(2025, 0, 1, hour)),
+  monthIndex: 0,
+  hour,
+  gridLimit: 4,
+  restrictedMW: 6,
+  availableGrid: 4,
+  solarGeneration: 0,
+  dcDemand: 5,
+  logisticsDemand: 0,
+  totalDemand: 5
+});
+
+const battery = { minSoC: 0, maxSoC: 2, etaCharge: 1, etaDischarge: 1, powerMW: 2, auxiliaryMW: 0 };
+const prices = { dieselPerMWh: 300, lostLoadPerMWh: 10000, gridPerMWh: 100 };
+
+describe('solveOptimalDispatch', () => {
+  it('keeps the stored energy for the shortage no genset can supply', () => {
+    const plan = solveOptimalDispatch([createShortageStep(0), createShortageStep(1)], battery, 1, prices, 1, [1, 0]);
+    expect(plan[0].batToShortage).toBeCloseTo(0, 9);
+    expect(plan[1].batToShortage).toBeCloseTo(1, 9);
+  });
+
+  it('covers shortage without gensets even when diesel is free', () => {
+    const plan = solveOptimalDispatch([createShortageStep(0), createShortageStep(1)], battery, 2, { ...prices, dieselPerMWh: 0 }, 1);
+    expect(plan[0].batToShortage + plan[1].batToShortage).toBeCloseTo(2, 9);
+  });
+
+  it('prefers the battery over the gensets when diesel costs more than the stored energy', () => {
+    const plan = solveOptimalDispatch([createShortageStep(0)], battery, 1, prices, 1, [1]);
+    expect(plan[0].batToShortage).toBeCloseTo(1, 9);
+  });
+});
@@ -0,0 +1,203 @@
+import { BatteryLimits, getPreBatteryBalance } from './dispatch';
+import { StepInput } from './types';
+
+// --- HELPER: OPTIMAL DISPATCH (LP) ---
+// The yearly dispatch problem is a linear program with one storage: per step the
+// battery can cover a shortage, replace grid energy, serve its own auxiliary
+// consumption, or charge from solar surplus or from the grid, all within the
+// power limits, while the SoC stays inside its window. The objective is diesel
+// cost plus grid energy cost, with shortage the gensets cannot supply at the value
+// of lost load.
+//
+// Because every step only interacts with the others through the SoC, the LP is
+// solved exactly by dynamic programming over convex piecewise-linear cost
+// functions of the SoC: combining the cost-to-date with the cost of one step is
+// a merge of their slopes. This keeps the solve linear in the number of steps,
+// so a full year of 15-minute PTUs runs in the browser without a general LP
+// package.
+
+export type DispatchPrices = {
+  dieselPerMWh: number;
+  lostLoadPerMWh: number;
+  gridPerMWh: number;
+};
+
+// Planned battery flows of one step (MW averaged over the step).
+export type DispatchPlanStep = {
+  batToShortage: number;
+  batToGridLoad: number;
+  solarToBat: number;
+  gridToBat: number;
+  auxDrawMWh: number;
+};
+
+export type SegmentKind = 'state' | 'shortage' | 'displace' | 'aux' | 'solar' | 'grid' | 'sell' | 'buy';
+
+export type Segment = {
+  length: number;
+  slope: number;
+  kind: SegmentKind;
+};
+
+// Convex piecewise-linear function over [start, start + sum of lengths], slopes ascending.
+export type ConvexPwl = {
+  start: number;
+  segments: Segment[];
+};
+
+const EPS = 1e-9;
+
+const DISCHARGE_KINDS: SegmentKind[] = ['shortage', 'displace', 'aux', 'sell'];
+
+// Used and available amount (MWh battery side) per option of one step.
+export type StepUsage = {
+  used: Record<SegmentKind, number>;
+  available: Record<SegmentKind, number>;
+};
+
+const emptyUsage = (): Record<SegmentKind, number> => ({ state: 0, shortage: 0, displace: 0, aux: 0, solar: 0, grid: 0, sell: 0, buy: 0 });
+
+// Cost of one step as a function of the change in stored energy (MWh). The left
+// end of the domain has every discharge option at its maximum; moving right
+// gives up discharge options and then adds charging, cheapest first.
+export const buildStepCost = (options: Segment[]): ConvexPwl => {
+  const segments = options.filter(s => s.length > EPS);
+  const dischargeSide = segments
+    .filter(s => DISCHARGE_KINDS.includes(s.kind))
+    .reduce((sum, s) => sum + s.length, 0);
+  return { start: -dischargeSide, segments: segments.sort((a, b) => a.slope - b.slope) };
+};
+
+// Dispatch options of one step for the cost-optimal strategy.
+const stepCostFunction = (input: StepInput, battery: BatteryLimits, prices: DispatchPrices, gensetCoverMW: number, dt: number): ConvexPwl => {
+  const { etaCharge, etaDischarge, powerMW, auxiliaryMW } = battery;
+  const { gridToLoad, shortage, solarSurplus, gridSurplus } = getPreBatteryBalance(input);
+
+  const toShortage = Math.min(shortage, powerMW);
+  // Discharge first replaces the shortage the gensets cannot supply
+  const toLostLoad = Math.min(toShortage, Math.max(0, shortage - gensetCoverMW));
+  const toGridLoad = Math.min(gridToLoad, powerMW - toShortage);
+  const fromSolar = Math.min(solarSurplus, powerMW);
+  const fromGrid = Math.min(gridSurplus, powerMW - fromSolar);
+
+  return buildStepCost([
+    { kind: 'shortage', length: toLostLoad * dt / etaDischarge, slope: prices.lostLoadPerMWh * etaDischarge },
+    { kind: 'shortage', length: (toShortage - toLostLoad) * dt / etaDischarge, slope: prices.dieselPerMWh * etaDischarge },
+    { kind: 'displace', length: toGridLoad * dt / etaDischarge, slope: prices.gridPerMWh * etaDischarge },
+    // Auxiliary consumption the battery cannot serve is valued as if the genset had to supply it
+    { kind: 'aux', length: auxiliaryMW * dt, slope: prices.dieselPerMWh },
+    { kind: 'solar', length: fromSolar * dt * etaCharge, slope: 0 },
+    { kind: 'grid', length: fromGrid * dt * etaCharge, slope: prices.gridPerMWh / etaCharge }
+  ]);
+};
+
+// Infimal convolution of two convex piecewise-linear functions: slopes merged in order.
+const mergeFunctions = (a: ConvexPwl, b: ConvexPwl): ConvexPwl => {
+  const segments: Segment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.segments.length || j < b.segments.length) {
+    if (j >= b.segments.length || (i < a.segments.length && a.segments[i].slope <= b.segments[j].slope)) {
+      segments.push(a.segments[i++]);
+    } else {
+      segments.push(b.segments[j++]);
+    }
+  }
+  return { start: a.start + b.start, segments };
+};
+
+// Restricts the function to the SoC window; the result only keeps the slopes.
+const clipToWindow = (fn: ConvexPwl, lo: number, hi: number): ConvexPwl => {
+  const segments: Segment[] = [];
+  let pos = fn.start;
+  fn.segments.forEach(seg => {
+    const from = Math.max(pos, lo);
+    const to = Math.min(pos + seg.length, hi);
+    pos += seg.length;
+    if (to - from <= EPS) return;
+    const last = segments[segments.length - 1];
+    if (last && Math.abs(last.slope - seg.slope) < EPS) {
+      last.length += to - from;
+    } else {
+      segments.push({ length: to - from, slope: seg.slope, kind: 'state' });
+    }
+  });
+  return { start: Math.min(Math.max(fn.start, lo), hi), segments };
+};
+
+// Lowest-cost point of a convex function minus a linear reward per MWh of SoC.
+const argMin = (fn: ConvexPwl, rewardPerMWh: number): number => {
+  let pos = fn.start;
+  for (const seg of fn.segments) {
+    if (seg.slope >= rewardPerMWh) break;
+    pos += seg.length;
+  }
+  return pos;
+};
+
+// Solves one storage over all steps: the stored energy after step t must lie in
+// windowAt(t), and energy left after the last step is credited at
+// finalRewardPerMWh. Returns how much of each option every step uses.
+export const solveStoragePath = (
+  stepCosts: ConvexPwl[],
+  windowAt: (t: number) => [number, number],
+  initial: number,
+  finalRewardPerMWh: number
+): StepUsage[] => {
+  // Forward pass: cost-to-date as a function of the stored energy after each step
+  const costToDate: ConvexPwl[] = [{ start: initial, segments: [] }];
+  stepCosts.forEach((stepCost, t) => {
+    const [lo, hi] = windowAt(t);
+    costToDate.push(clipToWindow(mergeFunctions(costToDate[t], stepCost), lo, hi));
+  });
+
+  let level = argMin(costToDate[stepCosts.length], finalRewardPerMWh);
+
+  // Backward pass: split each step's change into the previous level and the options used
+  const usage: StepUsage[] = new Array(stepCosts.length);
+  for (let t = stepCosts.length - 1; t >= 0; t--) {
+    const combined = mergeFunctions(costToDate[t], stepCosts[t]);
+    const used = emptyUsage();
+    const available = emptyUsage();
+    stepCosts[t].segments.forEach(s => { available[s.kind] += s.length; });
+
+    let remaining = Math.max(0, level - combined.start);
+    for (const seg of combined.segments) {
+      if (remaining <= 0) break;
+      const take = Math.min(seg.length, remaining);
+      used[seg.kind] += take;
+      remaining -= take;
+    }
+
+    usage[t] = { used, available };
+    level = costToDate[t].start + used.state;
+  }
+
+  return usage;
+};
+
+// Solves the dispatch LP for one year. Energy left in the battery at year end is
+// valued at its grid charging cost, so the optimum neither empties the battery
+// for free nor pays for diesel just to end the year full. gensetCoverMW is the shortage
+// the gensets can supply per step (none where missing).
+export const solveOptimalDispatch = (
+  inputs: StepInput[],
+  battery: BatteryLimits,
+  initialSoC: number,
+  prices: DispatchPrices,
+  dt: number,
+  gensetCoverMW: number[] = []
+): DispatchPlanStep[] => {
+  const { minSoC, maxSoC, etaCharge, etaDischarge } = battery;
+  const stepCosts = inputs.map((input, t) => stepCostFunction(input, battery, prices, gensetCoverMW[t] || 0, dt));
+  const usage = solveStoragePath(stepCosts, () => [minSoC, maxSoC], initialSoC, prices.gridPerMWh / etaCharge);
+
+  // Moving right gives up discharge (shortage, displace, aux) and adds charging (solar, grid)
+  return usage.map(({ used, available }) => ({
+    batToShortage: (available.shortage - used.shortage) * etaDischarge / dt,
+    batToGridLoad: (available.displace - used.displace) * etaDischarge / dt,
+    solarToBat: used.solar / etaCharge / dt,
+    gridToBat: used.grid / etaCharge / dt,
+    auxDrawMWh: available.aux - used.aux
+  }));
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { getYearData } from './profiles';
+import { createTestYear } from './testing';
+import { getLocalParts } from './time';
+import { YearFillStrategy } from './types';
+
+const fill = (yearFillStrategy: YearFillStrategy, referenceYear = 2025) => ({ yearFillStrategy, referenceYear, profileNominalMW: 10 });
+
+// First 4000 hours of 2025 at 2 MW and then 6 MW, with the steps 100-102 missing
+const partialYear = createTestYear(2025, i => (i < 100 ? 2 : 6)).filter((_, i) => i < 4000 && (i < 100 || i > 102));
+
+describe('getYearData', () => {
+  it('uses a complete year as read whatever the fill strategy', () => {
+    const source = createTestYear(2025, i => i % 10);
+    (['none', 'unrestricted', 'interpolate', 'reference'] as const).forEach(strategy => {
+      const year = getYearData(2025, source, fill(strategy));
+      expect(year.status).toBe('measured');
+      expect(year.coverage).toBe(100);
+      expect(year.rows).toHaveLength(8760);
+      expect(year.rows[123].limitMW).toBe(3);
+    });
+  });
+
+  it('keeps only the rows in the file with strategy none', () => {
+    const partial = getYearData(2025, partialYear, fill('none'));
+    expect(partial.status).toBe('partial');
+    expect(partial.rows).toHaveLength(3997);
+    expect(partial.coverage).toBeCloseTo((3997 / 8760) * 100);
+
+    expect(getYearData(2026, partialYear, fill('none'))).toEqual({ rows: [], status: 'missing', coverage: 0 });
+  });
+
+  it('fills missing steps with the unrestricted profile', () => {
+    const partial = getYearData(2025, partialYear, fill('unrestricted'));
+    expect(partial.status).toBe('partial');
+    expect(partial.rows).toHaveLength(8760);
+    expect(partial.rows.slice(99, 104).map(r => r.limitMW)).toEqual([2, 10, 10, 10, 6]);
+    expect(partial.rows[5000].limitMW).toBe(10);
+
+    const missing = getYearData(2026, partialYear, fill('unrestricted'));
+    expect(missing.status).toBe('synthetic');
+    expect(missing.rows).toHaveLength(8760);
+    expect(missing.rows.every(r => r.limitMW === 10)).toBe(true);
+  });
+
+  it('interpolates inside a hole and holds the last value after the data ends', () => {
+    const partial = getYearData(2025, partialYear, fill('interpolate'));
+    expect(partial.status).toBe('partial');
+    expect(partial.rows.slice(99, 104).map(r => r.limitMW)).toEqual([2, 3, 4, 5, 6]);
+    expect(partial.rows[5000].limitMW).toBe(6);
+  });
+
+  it('interpolates a missing year between the years around it', () => {
+    const source = [...createTestYear(2025, () => 4), ...createTestYear(2027, () => 8)];
+    const year = getYearData(2026, source, fill('interpolate'));
+
+    expect(year.status).toBe('extrapolated');
+    expect(year.rows).toHaveLength(8760);
+    expect(year.rows[0].limitMW).toBeGreaterThan(4);
+    expect(year.rows[4380].limitMW).toBeCloseTo(6, 1);
+    expect(year.rows[8759].limitMW).toBeLessThan(8);
+  });
+
+  it('copies a missing year from the reference year by local date and hour', () => {
+    const source = createTestYear(2025, () => 0).map(r => {
+      const { month, day } = getLocalParts(r.datetime);
+      return { ...r, limitMW: month + day / 100 };
+    });
+    const year = getYearData(2026, source, fill('reference'));
+
+    expect(year.status).toBe('extrapolated');
+    const different = year.rows.filter(r => {
+      const { month, day } = getLocalParts(r.datetime);
+      return r.limitMW !== month + day / 100;
+    });
+    // 02:00 on 30 March exists in 2026 but fell in the 2025 spring gap
+    expect(different.map(r => [getLocalParts(r.datetime).month, getLocalParts(r.datetime).day, getLocalParts(r.datetime).hour, r.limitMW]))
+      .toEqual([[2, 30, 2, 10]]);
+  });
+
+  it('falls back to the unrestricted profile without reference data', () => {
+    const year = getYearData(2026, partialYear, fill('reference', 2024));
+    expect(year.status).toBe('extrapolated');
+    expect(year.rows.every(r => r.limitMW === 10)).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+import { getLocalParts, startOfLocalYear } from './time';
+import { DataPoint, GridCapacity, GridCapacityStep, YearDataStatus, YearFillParams } from './types';
+
+// --- HELPER: YEAR DATA ---
+// Returns the grid profile rows for one calendar year and where they came from.
+// Years whose steps are nearly all in the file (COMPLETE_COVERAGE) are used as read;
+// other years are filled with the chosen strategy on the profile's own timestep, so a
+// missing year never silently looks like a year without restrictions.
+export type YearData = {
+  rows: DataPoint[];
+  status: YearDataStatus;
+  coverage: number; // % of the year's steps present in the source data
+};
+
+const HOUR_MS = 3600000;
+const COMPLETE_COVERAGE = 99;
+
+const getStepKey = (d: Date) => {
+  const p = getLocalParts(d);
+  return `${p.month}-${p.day}-${p.hour}-${p.minute}`;
+};
+
+export const getYearData = (
+  targetYear: number,
+  sourceData: DataPoint[],
+  params: YearFillParams & { profileNominalMW: number }
+): YearData => {
+  const start = startOfLocalYear(targetYear).getTime();
+  const end = startOfLocalYear(targetYear + 1).getTime();
+  const inYear = (d: DataPoint) => d.datetime.getTime() >= start && d.datetime.getTime() < end;
+  const present = sourceData.filter(inYear).sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+
+  const stepMs = detectTimestepHours(present.length >= 2 ? present : sourceData) * HOUR_MS;
+  const values = new Map<number, number>();
+  present.forEach(d => values.set(d.datetime.getTime(), d.limitMW));
+  const expected = Math.round((end - start) / stepMs);
+  const coverage = Math.min(100, (values.size / expected) * 100);
+
+  const strategy = params.yearFillStrategy;
+  if (values.size > 0 && (coverage >= COMPLETE_COVERAGE || strategy === 'none')) {
+    return { rows: present, status: coverage >= COMPLETE_COVERAGE ? 'measured' : 'partial', coverage };
+  }
+  if (strategy === 'none') return { rows: [], status: 'missing', coverage };
+
+  // Interpolation runs between the known values around each hole, including the last
+  // row before and the first row after the year
+  let before: DataPoint | undefined;
+  let after: DataPoint | undefined;
+  if (strategy === 'interpolate') {
+    sourceData.forEach(d => {
+      const t = d.datetime.getTime();
+      if (t < start && (!before || t > before.datetime.getTime())) before = d;
+      if (t >= end && (!after || t < after.datetime.getTime())) after = d;
+    });
+  }
+  const anchors = [...(before ? [before] : []), ...present, ...(after ? [after] : [])];
+
+  const reference = new Map<string, number>();
+  if (strategy === 'reference' && params.referenceYear !== targetYear) {
+    const refStart = startOfLocalYear(params.referenceYear).getTime();
+    const refEnd = startOfLocalYear(params.referenceYear + 1).getTime();
+    sourceData.forEach(d => {
+      const t = d.datetime.getTime();
+      if (t >= refStart && t < refEnd) reference.set(getStepKey(d.datetime), d.limitMW);
+    });
+  }
+
+  const rows: DataPoint[] = [];
+  let next = 0;
+  for (let t = start; t < end; t += stepMs) {
+    const datetime = new Date(t);
+    const known = values.get(t);
+    if (known !== undefined) {
+      rows.push({ datetime, limitMW: known });
+      continue;
+    }
+    let limitMW = params.profileNominalMW;
+    if (strategy === 'interpolate' && anchors.length > 0) {
+      while (next < anchors.length && anchors[next].datetime.getTime() < t) next++;
+      const prev = anchors[next - 1];
+      const following = anchors[next];
+      if (prev && following) {
+        const share = (t - prev.datetime.getTime()) / (following.datetime.getTime() - prev.datetime.getTime());
+        limitMW = prev.limitMW + (following.limitMW - prev.limitMW) * share;
+      } else {
+        limitMW = (prev || following).limitMW;
+      }
+    } else if (strategy === 'reference') {
+      limitMW = reference.get(getStepKey(datetime)) ?? params.profileNominalMW;
+    }
+    rows.push({ datetime, limitMW });
+  }
+
+  const status: YearDataStatus = values.size > 0 ? 'partial' : strategy === 'unrestricted' ? 'synthetic' : 'extrapolated';
+  return { rows, status, coverage };
+};
+
+// Number of hours in a calendar year (8760, or 8784 in leap years).
+export const hoursInYear = (year: number): number => {
+  const days = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / 86400000;
+  return days * 24;
+};
+
+// Detects the fixed timestep of a profile (1 for hourly, 0.25 for 15-minute PTUs)
+// as the most frequent interval between consecutive timestamps.
+export const detectTimestepHours = (rows: { datetime: Date }[]): number => {
+  if (rows.length < 2) return 1;
+  const counts = new Map<number, number>();
+  const sample = Math.min(rows.length, 2000);
+  for (let i = 1; i < sample; i++) {
+    const minutes = Math.round((rows[i].datetime.getTime() - rows[i - 1].datetime.getTime()) / 60000);
+    if (minutes > 0) counts.set(minutes, (counts.get(minutes) || 0) + 1);
+  }
+  let best = 60;
+  let bestCount = 0;
+  counts.forEach((count, minutes) => {
+    if (count > bestCount) {
+      best = minutes;
+      bestCount = count;
+    }
+  });
+  return best / 60;
+};
+
+// Picks the grid capacity step that is in force in the given year. Years before
+// the first step use the first step.
+export const getGridCapacityForYear = (year: number, steps: GridCapacityStep[]): GridCapacity => {
+  const sorted = [...steps].sort((a, b) => a.fromYear - b.fromYear);
+  let active = sorted[0];
+  for (const step of sorted) {
+    if (step.fromYear <= year) active = step;
+  }
+  if (!active) return { connectionMW: 10, contractedMW: 10, firmMW: 0 };
+  return { connectionMW: active.connectionMW, contractedMW: active.contractedMW, firmMW: active.firmMW };
+};
+
+// Maps a simulation year onto the 4-step growth path (year 1, 2, 3 and 4+).
+export const getDcCapacityForYear = (year: number, startYear: number, growthProfile: number[]): number => {
+  if (year < startYear) return 0;
+  const offset = Math.min(year - startYear, 3);
+  return growthProfile[offset];
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectLoadResult, createProjectFile, migrateProject } from './project';
+import { ScenarioSettings } from './settings';
+
+const scenario = {
+  id: '1',
+  name: 'Basis',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  settings: { batteryCapacityMWh: 40 },
+  profiles: [{ type: 'grid', fileName: 'net.csv', rows: 8760, fingerprint: 'abc' }]
+};
+
+const getError = (result: ProjectLoadResult) => 'error' in result ? result.error : null;
+
+describe('migrateProject', () => {
+  it('turns the legacy browser storage into a current project', () => {
+    const result = migrateProject({
+      profiles: { grid: 'datum;mw', solar: 'datum;kwh' },
+      fileNames: { grid: 'net.csv' },
+      scenarios: [scenario]
+    });
+    if (!('project' in result)) throw new Error(result.error);
+
+    expect(result.project.version).toBe(PROJECT_VERSION);
+    expect(result.project.settings).toEqual({});
+    expect(result.project.profiles).toEqual([
+      { type: 'grid', fileName: 'net.csv', csv: 'datum;mw', unit: 'MW' },
+      { type: 'solar', fileName: '', csv: 'datum;kwh', unit: 'kWh' }
+    ]);
+    expect(result.project.scenarios).toEqual([scenario]);
+  });
+
+  it('gives version 1 profiles the unit their type was read with', () => {
+    const result = migrateProject({
+      format: PROJECT_FORMAT,
+      version: 1,
+      savedAt: '2025-01-01T00:00:00.000Z',
+      settings: {},
+      profiles: [{ type: 'price', fileName: 'prijs.csv', csv: '' }],
+      scenarios: []
+    });
+
+    expect('project' in result && result.project.profiles[0].unit).toBeNull();
+    expect('project' in result && result.project.version).toBe(PROJECT_VERSION);
+  });
+
+  it('keeps a current project as it is', () => {
+    const project = createProjectFile({ batteryCapacityMWh: 40 } as ScenarioSettings, [{ type: 'grid', fileName: 'net.csv', csv: '', unit: 'kW' }], []);
+    expect(migrateProject(JSON.parse(JSON.stringify(project)))).toEqual({ project });
+  });
+
+  it('rejects data that is not a project of this tool or of a newer version', () => {
+    expect(getError(migrateProject('tekst'))).toBeTruthy();
+    expect(getError(migrateProject({ version: 2, format: 'ander-formaat' }))).toBeTruthy();
+    expect(getError(migrateProject({ version: PROJECT_VERSION + 1, format: PROJECT_FORMAT }))).toMatch(/nieuwere versie/);
+    expect(getError(migrateProject({ scenarios: [] }))).toBeTruthy();
+  });
+
+  it('rejects a damaged project before it is applied', () => {
+    const valid = { format: PROJECT_FORMAT, version: PROJECT_VERSION, savedAt: '', settings: {}, profiles: [], scenarios: [] };
+
+    expect(getError(migrateProject({ ...valid, settings: undefined }))).toMatch(/instellingen/);
+    expect(getError(migrateProject({ ...valid, settings: { gridCapacitySteps: 10 } }))).toMatch(/gridCapacitySteps/);
+    expect(getError(migrateProject({ ...valid, settings: { batteryPowerMW: null } }))).toMatch(/batteryPowerMW/);
+    expect(getError(migrateProject({ ...valid, scenarios: undefined }))).toMatch(/scenario/);
+    expect(getError(migrateProject({ ...valid, profiles: [{ type: 'wind', fileName: '', csv: '', unit: null }] }))).toMatch(/type/);
+    expect(getError(migrateProject({ ...valid, profiles: [{ type: 'grid', fileName: '', csv: '', unit: 'GW' }] }))).toMatch(/eenheid/);
+    expect(getError(migrateProject({ ...valid, scenarios: [{ ...scenario, settings: null }] }))).toMatch(/Basis/);
+  });
+});
@@ -0,0 +1,179 @@
+import { ValueUnit, getDefaultUnit } from './csv';
+import { ScenarioSettings } from './settings';
+
+export type CsvType = 'grid' | 'solar' | 'price' | 'ancillary' | 'dcload' | 'logisticsload' | 'emission';
+
+// Profile a scenario was saved with; the fingerprint (FNV-1a hash of the CSV text)
+// shows whether the same file is loaded when the scenario is compared later.
+export type ProfileReference = {
+  type: CsvType;
+  fileName: string;
+  rows: number;
+  fingerprint: string;
+};
+
+export type SavedScenario = {
+  id: string;
+  name: string;
+  createdAt: string;
+  settings: ScenarioSettings;
+  profiles: ProfileReference[];
+};
+
+export const PROJECT_FORMAT = 'bess-project';
+export const PROJECT_VERSION = 2;
+
+// Profile as CSV with the name of the file it came from. The unit tells how the values
+// are converted to MW on loading (null for prices and intensities).
+export type ProjectProfile = {
+  type: CsvType;
+  fileName: string;
+  csv: string;
+  unit: ValueUnit | null;
+};
+
+// Everything needed to reopen an analysis: the inputs, the uploaded profiles and the
+// saved scenarios. Files from older versions may lack inputs that were added later;
+// those keep their current value when the project is loaded.
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  settings: Partial<ScenarioSettings>;
+  profiles: ProjectProfile[];
+  scenarios: SavedScenario[];
+};
+
+// Version 0: the browser storage before project files, with one raw CSV string per
+// profile (bess_<type>_csv_v<n>) and the saved scenarios. The inputs were not stored.
+export type LegacyStorage = {
+  profiles: Partial<Record<CsvType, string>>;
+  fileNames: Partial<Record<CsvType, string>>;
+  scenarios: SavedScenario[];
+};
+
+// Version 1: the first project file, with the CSV as uploaded and no unit per profile.
+type ProjectFileV1 = Omit<ProjectFile, 'version' | 'profiles'> & {
+  version: 1;
+  profiles: Omit<ProjectProfile, 'unit'>[];
+};
+
+// A migrated project, or why the data cannot be opened.
+export type ProjectLoadResult = { project: ProjectFile } | { error: string };
+
+type StoredObject = Record<string, unknown>;
+
+const CSV_TYPES: CsvType[] = ['grid', 'solar', 'price', 'ancillary', 'dcload', 'logisticsload', 'emission'];
+const VALUE_UNITS: ValueUnit[] = ['W', 'kW', 'MW', 'Wh', 'kWh', 'MWh'];
+// Settings that the inputs read as lists or as objects; all others are single values
+const LIST_SETTINGS: string[] = ['growthProfile', 'gridCapacitySteps', 'gensetFuelCurve', 'ancillaryProducts'];
+const OBJECT_SETTINGS: string[] = ['logisticsSchedule', 'gridContract'];
+
+const isObject = (value: unknown): value is StoredObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCsvType = (value: unknown): value is CsvType => CSV_TYPES.includes(value as CsvType);
+
+const isLegacyStorage = (data: StoredObject): data is LegacyStorage =>
+  isObject(data.profiles) && (data.fileNames === undefined || isObject(data.fileNames)) &&
+  (data.scenarios === undefined || Array.isArray(data.scenarios));
+
+const isProjectFileV1 = (data: StoredObject): data is ProjectFileV1 =>
+  Array.isArray(data.profiles) && data.profiles.every(p => isObject(p) && isCsvType(p.type));
+
+// --- HELPER: MIGRATIONS ---
+// PROJECT_MIGRATIONS[n] turns a version n project into version n + 1, or null when the
+// data does not have the shape of version n. When the stored shape changes, add a type
+// for the old shape and a step, and bump PROJECT_VERSION instead of starting a new
+// storage key, so older files and browser storage keep loading.
+const PROJECT_MIGRATIONS: ((data: StoredObject) => StoredObject | null)[] = [
+  (data): ProjectFileV1 | null => isLegacyStorage(data) ? {
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: new Date().toISOString(),
+    settings: {},
+    profiles: (Object.keys(data.profiles) as CsvType[]).filter(isCsvType).map(type => ({
+      type,
+      fileName: data.fileNames?.[type] || '',
+      csv: data.profiles[type] || ''
+    })),
+    scenarios: data.scenarios || []
+  } : null,
+  // Version 1 held the CSV as uploaded, read with the unit each type was assumed to have
+  (data): ProjectFile | null => isProjectFileV1(data) ? {
+    ...data,
+    version: 2,
+    profiles: data.profiles.map(p => ({ ...p, unit: getDefaultUnit(p.type) }))
+  } : null
+];
+
+// Why stored settings cannot be applied: a list or object input of another kind, or a
+// missing value (null) where the inputs expect one.
+const getSettingsError = (settings: unknown): string | null => {
+  if (!isObject(settings)) return 'de instellingen ontbreken';
+  const invalid = Object.keys(settings).find(key => {
+    const value = settings[key];
+    if (LIST_SETTINGS.includes(key)) return !Array.isArray(value);
+    if (OBJECT_SETTINGS.includes(key)) return !isObject(value);
+    return value === null || typeof value === 'object';
+  });
+  return invalid ? `de instelling ${invalid} is ongeldig` : null;
+};
+
+const getProfileError = (profile: unknown): string | null => {
+  if (!isObject(profile) || !isCsvType(profile.type)) return 'een profiel heeft een onbekend type';
+  if (typeof profile.fileName !== 'string' || typeof profile.csv !== 'string') return `het ${profile.type}-profiel mist de bestandsnaam of de gegevens`;
+  if (profile.unit !== null && !VALUE_UNITS.includes(profile.unit as ValueUnit)) return `het ${profile.type}-profiel heeft een onbekende eenheid`;
+  return null;
+};
+
+const getScenarioError = (scenario: unknown): string | null => {
+  if (!isObject(scenario) || typeof scenario.id !== 'string' || typeof scenario.name !== 'string') return 'een scenario mist zijn naam';
+  const settingsError = getSettingsError(scenario.settings);
+  if (settingsError) return `scenario "${scenario.name}": ${settingsError}`;
+  const profilesValid = Array.isArray(scenario.profiles) && scenario.profiles.every(p =>
+    isObject(p) && isCsvType(p.type) && typeof p.fileName === 'string' && typeof p.fingerprint === 'string');
+  return profilesValid ? null : `scenario "${scenario.name}": de profielverwijzingen zijn ongeldig`;
+};
+
+// Checks a migrated project against the current shape, so a damaged file is rejected
+// before any of it is applied.
+const getProjectError = (project: StoredObject): string | null => {
+  const settingsError = getSettingsError(project.settings);
+  if (settingsError) return settingsError;
+  if (!Array.isArray(project.profiles)) return 'de profielen ontbreken';
+  if (!Array.isArray(project.scenarios)) return 'de scenario\'s ontbreken';
+  return project.profiles.map(getProfileError).find(Boolean) || project.scenarios.map(getScenarioError).find(Boolean) || null;
+};
+
+// Brings a parsed project file (or the legacy storage) to the current version and checks
+// it; an error when the data is not a project, is damaged or was written by a newer
+// version of the tool.
+export const migrateProject = (data: unknown): ProjectLoadResult => {
+  if (!isObject(data)) return { error: 'Het bestand is geen projectbestand.' };
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > 0 && data.format !== PROJECT_FORMAT) return { error: 'Het bestand is geen projectbestand van deze tool.' };
+  if (version > PROJECT_VERSION) return { error: `Het project is gemaakt met een nieuwere versie van deze tool (formaat ${version}, ondersteund t/m ${PROJECT_VERSION}).` };
+
+  let project: StoredObject = data;
+  for (; version < PROJECT_VERSION; version++) {
+    const next = PROJECT_MIGRATIONS[version](project);
+    if (!next) return { error: `Het projectbestand (formaat ${version}) is onvolledig en kan niet worden omgezet.` };
+    project = next;
+  }
+  const error = getProjectError(project);
+  return error ? { error: `Het projectbestand is beschadigd: ${error}.` } : { project: project as ProjectFile };
+};
+
+export const createProjectFile = (
+  settings: ScenarioSettings,
+  profiles: ProjectProfile[],
+  scenarios: SavedScenario[]
+): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  settings,
+  profiles,
+  scenarios
+});
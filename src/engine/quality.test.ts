@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeProfileQuality } from './quality';
+import { createTestYear } from './testing';
+import { formatLocalDateTime } from './time';
+import { DataPoint } from './types';
+
+const analyze = (rows: DataPoint[], upperLimit: number | null = null) =>
+  analyzeProfileQuality(rows.map(r => r.datetime.getTime()), rows.map(r => r.limitMW), upperLimit);
+
+describe('analyzeProfileQuality', () => {
+  it('finds nothing wrong in a complete hourly year', () => {
+    const report = analyze(createTestYear(2025, () => 5), 10);
+
+    expect(report).toMatchObject({
+      rows: 8760,
+      timestepHours: 1,
+      unsortedRows: 0,
+      duplicateRows: 0,
+      gapCount: 0,
+      missingSteps: 0,
+      negativeRows: 0,
+      aboveLimitRows: 0
+    });
+    expect(report.dstAnomalies).toEqual([]);
+    expect(report.coverage).toEqual([{ year: 2025, rows: 8760, expectedRows: 8760, percent: 100 }]);
+  });
+
+  it('reports a gap with the steps around it and lowers the coverage', () => {
+    const rows = createTestYear(2025, () => 5).filter((_, i) => i < 100 || i >= 110);
+    const report = analyze(rows);
+
+    expect(report.gapCount).toBe(1);
+    expect(report.missingSteps).toBe(10);
+    expect(formatLocalDateTime(report.gaps[0].from)).toBe('2025-01-05 03:00:00');
+    expect(formatLocalDateTime(report.gaps[0].to)).toBe('2025-01-05 14:00:00');
+    expect(report.coverage[0]).toMatchObject({ rows: 8750, expectedRows: 8760 });
+  });
+
+  it('counts repeated and out-of-order rows without counting them as coverage', () => {
+    const rows = createTestYear(2025, () => 5);
+    rows.push(rows[5], rows[6]);
+    const report = analyze(rows);
+
+    expect(report.duplicateRows).toBe(2);
+    expect(report.unsortedRows).toBe(1);
+    expect(report.gapCount).toBe(0);
+    expect(report.coverage[0].rows).toBe(8760);
+  });
+
+  it('flags DST change days that were written with 24 rows', () => {
+    const year = createTestYear(2025, () => 5);
+    // Autumn: the repeated 02:00 hour left out
+    const secondTwoOClock = year.findIndex((r, i) => i > 0 && formatLocalDateTime(r.datetime) === formatLocalDateTime(year[i - 1].datetime));
+    // Spring: a row repeated to fill the missing hour
+    const threeOClock = year.findIndex(r => formatLocalDateTime(r.datetime) === '2025-03-30 03:00:00');
+    const rows = year.filter((_, i) => i !== secondTwoOClock);
+    rows.splice(threeOClock, 0, year[threeOClock]);
+    const report = analyze(rows);
+
+    expect(report.dstAnomalies).toEqual([
+      { date: '2025-03-30', expectedRows: 23, rows: 24 },
+      { date: '2025-10-26', expectedRows: 25, rows: 24 }
+    ]);
+  });
+
+  it('counts negative values and values above the connection', () => {
+    const rows = createTestYear(2025, i => (i === 0 ? -1 : i < 4 ? 12 : 5));
+
+    expect(analyze(rows, 10)).toMatchObject({ negativeRows: 1, aboveLimitRows: 3, upperLimit: 10 });
+    expect(analyze(rows).aboveLimitRows).toBe(0);
+  });
+
+  it('detects a quarter-hour timestep and reports coverage per year', () => {
+    const rows = [
+      ...createTestYear(2025, () => 5, 0.25),
+      ...createTestYear(2026, () => 5, 0.25).slice(0, 35040 / 4)
+    ];
+    const report = analyze(rows);
+
+    expect(report.timestepHours).toBe(0.25);
+    expect(report.coverage).toEqual([
+      { year: 2025, rows: 35040, expectedRows: 35040, percent: 100 },
+      { year: 2026, rows: 8760, expectedRows: 35040, percent: 25 }
+    ]);
+  });
+
+  it('returns an empty report for a profile without rows', () => {
+    expect(analyzeProfileQuality([], [])).toMatchObject({ rows: 0, gapCount: 0, coverage: [] });
+  });
+});
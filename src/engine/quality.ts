@@ -0,0 +1,151 @@
+import { detectTimestepHours } from './profiles';
+import { formatLocalDateTime, getUtcOffsetHours, startOfLocalYear } from './time';
+
+const HOUR_MS = 3600000;
+const MAX_LISTED = 100;
+
+export type ProfileGap = {
+  from: Date; // last step before the gap
+  to: Date; // first step after it
+  missingSteps: number;
+};
+
+// A DST change day whose row count does not match its local length (23 or 25 hours),
+// typically a file written in 24-hour days or with the repeated hour left out.
+export type DstAnomaly = {
+  date: string; // local date, YYYY-MM-DD
+  expectedRows: number;
+  rows: number;
+};
+
+export type YearCoverage = {
+  year: number;
+  rows: number; // distinct timestamps
+  expectedRows: number;
+  percent: number;
+};
+
+// Findings of analyzeProfileQuality; the gap and DST lists keep the first MAX_LISTED.
+export type DataQualityReport = {
+  rows: number;
+  timestepHours: number;
+  unsortedRows: number;
+  duplicateRows: number;
+  gapCount: number;
+  missingSteps: number;
+  gaps: ProfileGap[];
+  dstAnomalies: DstAnomaly[];
+  negativeRows: number;
+  aboveLimitRows: number;
+  upperLimit: number | null;
+  coverage: YearCoverage[];
+};
+
+// Local DST change days of a year as UTC [start, end) with their length in hours
+const getDstDays = (year: number): { start: number; end: number; hours: number }[] => {
+  const days: { start: number; end: number; hours: number }[] = [];
+  const yearStart = startOfLocalYear(year).getTime();
+  const yearEnd = startOfLocalYear(year + 1).getTime();
+  let dayStart = yearStart;
+  let offset = getUtcOffsetHours(dayStart);
+  while (dayStart < yearEnd) {
+    const nominalEnd = dayStart + 24 * HOUR_MS;
+    const endOffset = getUtcOffsetHours(nominalEnd);
+    // Local midnight of the next day shifts by the change in offset
+    const dayEnd = nominalEnd - (endOffset - offset) * HOUR_MS;
+    if (endOffset !== offset) days.push({ start: dayStart, end: dayEnd, hours: (dayEnd - dayStart) / HOUR_MS });
+    dayStart = dayEnd;
+    offset = endOffset;
+  }
+  return days;
+};
+
+// --- HELPER: DATA QUALITY ---
+// Checks an imported profile: rows out of order, repeated timestamps, gaps against the
+// detected timestep, DST change days with the wrong number of rows, negative values and
+// values above upperLimit (the grid connection for grid profiles), and the share of each
+// calendar year that the file covers.
+export const analyzeProfileQuality = (
+  times: ArrayLike<number>,
+  values: ArrayLike<number>,
+  upperLimit: number | null = null
+): DataQualityReport => {
+  const report: DataQualityReport = {
+    rows: times.length,
+    timestepHours: 1,
+    unsortedRows: 0,
+    duplicateRows: 0,
+    gapCount: 0,
+    missingSteps: 0,
+    gaps: [],
+    dstAnomalies: [],
+    negativeRows: 0,
+    aboveLimitRows: 0,
+    upperLimit,
+    coverage: []
+  };
+  if (times.length === 0) return report;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i > 0 && times[i] < times[i - 1]) report.unsortedRows++;
+    if (values[i] < 0) report.negativeRows++;
+    if (upperLimit !== null && values[i] > upperLimit + 1e-6) report.aboveLimitRows++;
+  }
+
+  const sorted = Float64Array.from(times).sort();
+  report.timestepHours = detectTimestepHours(Array.from(sorted.subarray(0, 2000), t => ({ datetime: new Date(t) })));
+  const stepMs = report.timestepHours * HOUR_MS;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const diff = sorted[i] - sorted[i - 1];
+    if (diff === 0) {
+      report.duplicateRows++;
+    } else if (diff > stepMs * 1.5) {
+      const missingSteps = Math.round(diff / stepMs) - 1;
+      report.gapCount++;
+      report.missingSteps += missingSteps;
+      if (report.gaps.length < MAX_LISTED) report.gaps.push({ from: new Date(sorted[i - 1]), to: new Date(sorted[i]), missingSteps });
+    }
+  }
+
+  // Rows (with repeats) and distinct timestamps in [start, end) of the sorted times
+  const lowerBound = (t: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const countRows = (start: number, end: number) => {
+    const from = lowerBound(start);
+    const to = lowerBound(end);
+    let distinct = 0;
+    for (let i = from; i < to; i++) {
+      if (i === from || sorted[i] !== sorted[i - 1]) distinct++;
+    }
+    return { rows: to - from, distinct };
+  };
+
+  const firstYear = new Date(sorted[0] + getUtcOffsetHours(sorted[0]) * HOUR_MS).getUTCFullYear();
+  const last = sorted[sorted.length - 1];
+  const lastYear = new Date(last + getUtcOffsetHours(last) * HOUR_MS).getUTCFullYear();
+  for (let year = firstYear; year <= lastYear; year++) {
+    const start = startOfLocalYear(year).getTime();
+    const end = startOfLocalYear(year + 1).getTime();
+    const expectedRows = Math.round((end - start) / stepMs);
+    const { distinct } = countRows(start, end);
+    report.coverage.push({ year, rows: distinct, expectedRows, percent: Math.min(100, (distinct / expectedRows) * 100) });
+
+    getDstDays(year).forEach(day => {
+      const { rows, distinct: dayDistinct } = countRows(day.start, day.end);
+      const expected = Math.round((day.hours * HOUR_MS) / stepMs);
+      if (rows > 0 && (rows !== expected || dayDistinct !== expected) && report.dstAnomalies.length < MAX_LISTED) {
+        report.dstAnomalies.push({ date: formatLocalDateTime(new Date(day.start)).slice(0, 10), expectedRows: expected, rows });
+      }
+    });
+  }
+  return report;
+};
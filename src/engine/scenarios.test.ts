@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, fitRestrictionModel, generateRestrictionYear, getPercentile, runMonteCarlo } from './scenarios';
+import { createTestMultiYearParams, createTestYear } from './testing';
+import { getLocalParts } from './time';
+import { DataPoint } from './types';
+
+// Two years of history: deep evening restrictions in winter, shallow ones in summer
+const history = [2023, 2024].flatMap(year => createTestYear(year, () => 10).map(row => {
+  const { month, hour, day } = getLocalParts(row.datetime);
+  const evening = hour >= 17 && hour < 20 && day % 3 === 0;
+  if (evening && (month <= 1 || month === 11)) return { ...row, limitMW: 4 };
+  if (evening && month >= 5 && month <= 7) return { ...row, limitMW: 8 };
+  return row;
+}));
+const model = fitRestrictionModel(history, 10);
+
+const depthsByMonth = (rows: DataPoint[]) => {
+  const depths = new Map<number, Set<number>>();
+  rows.filter(r => r.limitMW < 10).forEach(r => {
+    const { month } = getLocalParts(r.datetime);
+    depths.set(month, (depths.get(month) || new Set()).add(10 - r.limitMW));
+  });
+  return depths;
+};
+
+describe('createRandom', () => {
+  it('gives the same numbers for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+    const first = Array.from({ length: 5 }, a);
+
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(Array.from({ length: 5 }, c)).not.toEqual(first);
+    expect(first.every(v => v >= 0 && v < 1)).toBe(true);
+  });
+});
+
+describe('fitRestrictionModel', () => {
+  it('keeps the depths of the events per season', () => {
+    expect(model.observedYears).toBe(2);
+    expect(new Set(model.depthsMW[0])).toEqual(new Set([6]));
+    expect(model.depthsMW[1]).toEqual([]);
+    expect(new Set(model.depthsMW[2])).toEqual(new Set([2]));
+    expect(model.startRatePerHour[3]).toBe(0);
+  });
+});
+
+describe('generateRestrictionYear', () => {
+  it('reproduces a year from the same seed', () => {
+    const a = generateRestrictionYear(model, 2026, createRandom(7));
+    const b = generateRestrictionYear(model, 2026, createRandom(7));
+
+    expect(b.map(r => r.limitMW)).toEqual(a.map(r => r.limitMW));
+    expect(a).toHaveLength(8760);
+  });
+
+  it('draws the depth from the season the event starts in', () => {
+    const depths = depthsByMonth(generateRestrictionYear(model, 2026, createRandom(7)));
+
+    expect(depths.get(0)).toEqual(new Set([6]));
+    expect(depths.get(6)).toEqual(new Set([2]));
+  });
+});
+
+describe('getPercentile', () => {
+  it('interpolates between the sorted values', () => {
+    expect(getPercentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(getPercentile([0, 10], 0.9)).toBe(9);
+    expect(getPercentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  const params = createTestMultiYearParams({ startYear: 2026 });
+
+  it('gives the same bands for the same seed, ordered P10 <= P50 <= P90', () => {
+    const first = runMonteCarlo(model, 6, 11, [2025, 2026], [], params);
+    const second = runMonteCarlo(model, 6, 11, [2025, 2026], [], params);
+
+    expect(second).toEqual(first);
+    expect(first.map(y => y.year)).toEqual([2026]);
+    const { deficitMWh, netExtraCost } = first[0];
+    expect(deficitMWh.p10).toBeLessThanOrEqual(deficitMWh.p50);
+    expect(deficitMWh.p50).toBeLessThanOrEqual(deficitMWh.p90);
+    expect(netExtraCost.p10).toBeLessThanOrEqual(netExtraCost.p90);
+    expect(deficitMWh.p90).toBeGreaterThan(0);
+  });
+});
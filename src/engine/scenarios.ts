@@ -0,0 +1,215 @@
+import { detectTimestepHours } from './profiles';
+import { getLocalParts, getLocalYear, startOfLocalYear } from './time';
+import { MultiYearParams, runMultiYear } from './yearly';
+import { AncillaryPricePoint, DataPoint, EmissionPoint, LoadProfiles, PricePoint, SolarPoint } from './types';
+
+// Statistics of the restriction events in a grid profile, used to generate new
+// profiles. A restriction event is a run of consecutive steps below the nominal value.
+export type RestrictionModel = {
+  nominalMW: number;
+  stepHours: number;
+  // Per month (0-11): events started per unrestricted hour
+  startRatePerHour: number[];
+  // Per local hour (0-23): relative likelihood of an event starting, mean 1
+  hourWeights: number[];
+  // Per month: mean event duration in hours
+  meanDurationHours: number[];
+  // Per season (winter, spring, summer, autumn): mean curtailment (MW below nominal) of
+  // every observed event starting in it, sampled as a whole
+  depthsMW: number[][];
+  // Relative change of the event rate per year, around referenceYear
+  trendPerYear: number;
+  referenceYear: number;
+  // Summary of the history the model was fitted to
+  observedEvents: number;
+  observedYears: number;
+};
+
+// Summary of a Monte Carlo output over the scenarios (10th, 50th and 90th percentile).
+export type Percentiles = {
+  p10: number;
+  p50: number;
+  p90: number;
+};
+
+export type MonteCarloYear = {
+  year: number;
+  deficitMWh: Percentiles;
+  dieselLiters: Percentiles;
+  netExtraCost: Percentiles;
+};
+
+// Seeded uniform random numbers in [0, 1) (mulberry32), so scenarios can be reproduced.
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Value below which a fraction q of the sorted values lies (linear interpolation).
+export const getPercentile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+// Meteorological season of a month (0-11): 0 = winter (December-February) to 3 = autumn
+const getSeason = (month: number) => Math.floor(((month + 1) % 12) / 3);
+
+const toPercentiles = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: getPercentile(sorted, 0.1), p50: getPercentile(sorted, 0.5), p90: getPercentile(sorted, 0.9) };
+};
+
+// --- HELPER: RESTRICTION MODEL FIT ---
+// Counts the events in the history per month and start hour, with their duration
+// and mean depth per season. The year trend is the least-squares slope of the yearly event
+// rate, relative to the average rate; it stays 0 with less than two years of data.
+export const fitRestrictionModel = (history: DataPoint[], nominalMW: number): RestrictionModel => {
+  const rows = [...history].sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+  const dt = detectTimestepHours(rows);
+
+  const startsPerMonth = new Array(12).fill(0);
+  const freeHoursPerMonth = new Array(12).fill(0);
+  const durationPerMonth = new Array(12).fill(0);
+  const startsPerHour = new Array(24).fill(0);
+  const depthsMW: number[][] = [[], [], [], []];
+  const yearly = new Map<number, { events: number, hours: number }>();
+
+  let event: { month: number, steps: number, curtailment: number } | null = null;
+  const closeEvent = () => {
+    if (!event) return;
+    durationPerMonth[event.month] += event.steps * dt;
+    depthsMW[getSeason(event.month)].push(event.curtailment / event.steps);
+    event = null;
+  };
+
+  rows.forEach(row => {
+    const { year, month, hour } = getLocalParts(row.datetime);
+    const stats = yearly.get(year) || { events: 0, hours: 0 };
+    stats.hours += dt;
+    yearly.set(year, stats);
+
+    const curtailment = Math.max(0, nominalMW - Math.max(0, row.limitMW));
+    if (curtailment > 0.01) {
+      if (!event) {
+        event = { month, steps: 0, curtailment: 0 };
+        startsPerMonth[month]++;
+        startsPerHour[hour]++;
+        stats.events++;
+      }
+      event.steps++;
+      event.curtailment += curtailment;
+    } else {
+      closeEvent();
+      freeHoursPerMonth[month] += dt;
+    }
+  });
+  closeEvent();
+
+  const totalStarts = startsPerMonth.reduce((sum, n) => sum + n, 0);
+  const overallDuration = totalStarts > 0 ? durationPerMonth.reduce((sum, h) => sum + h, 0) / totalStarts : dt;
+
+  // Least-squares slope of the yearly event rate (events per hour)
+  const years = Array.from(yearly.entries()).filter(([, s]) => s.hours > 24 * 30);
+  const meanYear = years.reduce((sum, [y]) => sum + y, 0) / Math.max(1, years.length);
+  const rates = years.map(([y, s]) => ({ y, rate: s.events / s.hours }));
+  const meanRate = rates.reduce((sum, r) => sum + r.rate, 0) / Math.max(1, rates.length);
+  const sxx = rates.reduce((sum, r) => sum + (r.y - meanYear) ** 2, 0);
+  const slope = sxx > 0 ? rates.reduce((sum, r) => sum + (r.y - meanYear) * (r.rate - meanRate), 0) / sxx : 0;
+
+  return {
+    nominalMW,
+    stepHours: dt,
+    startRatePerHour: startsPerMonth.map((n, m) => freeHoursPerMonth[m] > 0 ? n / freeHoursPerMonth[m] : 0),
+    hourWeights: startsPerHour.map(n => 24 * (n + 1) / (totalStarts + 24)),
+    meanDurationHours: startsPerMonth.map((n, m) => n > 0 ? durationPerMonth[m] / n : overallDuration),
+    depthsMW,
+    trendPerYear: meanRate > 0 ? Math.max(-0.5, Math.min(0.5, slope / meanRate)) : 0,
+    referenceYear: years.length > 0 ? meanYear : getLocalYear(rows[0]?.datetime || new Date()),
+    observedEvents: totalStarts,
+    observedYears: years.length
+  };
+};
+
+// --- HELPER: RESTRICTION SCENARIOS ---
+// Generates one year of the profile: in every unrestricted step an event starts
+// with the fitted rate of the month, weighted by the hour of day and scaled by the
+// trend; its duration is drawn from an exponential distribution around the mean
+// of the month, its depth from the observed events of the season it starts in (all
+// events when none were seen in that season).
+export const generateRestrictionYear = (model: RestrictionModel, year: number, random: () => number): DataPoint[] => {
+  const { nominalMW, stepHours: dt, startRatePerHour, hourWeights, meanDurationHours, depthsMW, trendPerYear, referenceYear } = model;
+  const trendFactor = Math.max(0, 1 + trendPerYear * (year - referenceYear));
+  const start = startOfLocalYear(year).getTime();
+  const end = startOfLocalYear(year + 1).getTime();
+  const stepMs = dt * 3600000;
+  const allDepthsMW = depthsMW.flat();
+
+  const rows: DataPoint[] = [];
+  let remainingSteps = 0;
+  let depth = 0;
+  for (let t = start; t < end; t += stepMs) {
+    const datetime = new Date(t);
+    if (remainingSteps === 0 && allDepthsMW.length > 0) {
+      const { month, hour } = getLocalParts(datetime);
+      if (random() < startRatePerHour[month] * dt * hourWeights[hour] * trendFactor) {
+        const duration = -Math.log(1 - random()) * meanDurationHours[month];
+        remainingSteps = Math.max(1, Math.round(duration / dt));
+        const seasonDepthsMW = depthsMW[getSeason(month)];
+        const depths = seasonDepthsMW.length > 0 ? seasonDepthsMW : allDepthsMW;
+        depth = depths[Math.floor(random() * depths.length)];
+      }
+    }
+    if (remainingSteps > 0) {
+      rows.push({ datetime, limitMW: Math.max(0, nominalMW - depth) });
+      remainingSteps--;
+    } else {
+      rows.push({ datetime, limitMW: nominalMW });
+    }
+  }
+  return rows;
+};
+
+// Runs the multi-year simulation for every generated scenario. Scenario seeds are
+// drawn from the main seed, so the same seed always gives the same bands.
+export const runMonteCarlo = (
+  model: RestrictionModel,
+  scenarioCount: number,
+  seed: number,
+  years: number[],
+  solarData: SolarPoint[],
+  params: MultiYearParams,
+  priceData: PricePoint[] = [],
+  ancillaryPriceData: AncillaryPricePoint[] = [],
+  loadProfiles: LoadProfiles = { dc: [], logistics: [] },
+  emissionData: EmissionPoint[] = []
+): MonteCarloYear[] => {
+  const simulatedYears = years.filter(y => y >= params.startYear);
+  const seeds = createRandom(seed);
+  const outcomes = simulatedYears.map(() => ({ deficitMWh: [] as number[], dieselLiters: [] as number[], netExtraCost: [] as number[] }));
+
+  for (let s = 0; s < scenarioCount; s++) {
+    const random = createRandom(Math.floor(seeds() * 4294967296));
+    const profile = simulatedYears.flatMap(year => generateRestrictionYear(model, year, random));
+    runMultiYear(simulatedYears, profile, solarData, params, priceData, ancillaryPriceData, loadProfiles, emissionData).forEach((stat, i) => {
+      outcomes[i].deficitMWh.push(stat.dcDeficitWithBat);
+      outcomes[i].dieselLiters.push(stat.dieselLiters);
+      outcomes[i].netExtraCost.push(stat.netExtraCost);
+    });
+  }
+
+  return simulatedYears.map((year, i) => ({
+    year,
+    deficitMWh: toPercentiles(outcomes[i].deficitMWh),
+    dieselLiters: toPercentiles(outcomes[i].dieselLiters),
+    netExtraCost: toPercentiles(outcomes[i].netExtraCost)
+  }));
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { getDutchHolidays, getEasterSunday, getLogisticsDemand, getScheduleAverageMW, getSchedulePeakMW, isDutchHoliday } from './schedule';
+import { getLocalParts, localToUtc } from './time';
+import { LogisticsSchedule, LogisticsShift } from './types';
+
+// The same shifts every day of the week
+const everyDay = (shifts: LogisticsShift[], holiday: LogisticsShift[] = [], holidaysEnabled = false): LogisticsSchedule => ({
+  weekdays: Array.from({ length: 7 }, () => shifts),
+  holiday,
+  holidaysEnabled
+});
+const at = (month: number, day: number, hour: number, year = 2025) => getLocalParts(localToUtc(year, month, day, hour));
+
+describe('getEasterSunday', () => {
+  it('matches known Easter dates', () => {
+    expect(getEasterSunday(2024)).toEqual({ month: 2, day: 31 });
+    expect(getEasterSunday(2025)).toEqual({ month: 3, day: 20 });
+    expect(getEasterSunday(2026)).toEqual({ month: 3, day: 5 });
+  });
+});
+
+describe('Dutch holidays', () => {
+  it('derives Easter Monday, Ascension Day and Whit Monday from Easter', () => {
+    expect(isDutchHoliday(2025, 3, 21)).toBe(true);
+    expect(isDutchHoliday(2025, 4, 29)).toBe(true);
+    expect(isDutchHoliday(2025, 5, 9)).toBe(true);
+    expect(isDutchHoliday(2024, 3, 1)).toBe(true);
+    expect(isDutchHoliday(2025, 3, 22)).toBe(false);
+    expect(getDutchHolidays(2025).size).toBe(10);
+  });
+
+  it('moves King\'s Day to Saturday 26 April when the 27th is a Sunday', () => {
+    expect(isDutchHoliday(2025, 3, 26)).toBe(true);
+    expect(isDutchHoliday(2025, 3, 27)).toBe(false);
+    expect(isDutchHoliday(2026, 3, 27)).toBe(true);
+    expect(isDutchHoliday(2026, 3, 26)).toBe(false);
+  });
+
+  it('uses the holiday pattern only when holidays are enabled', () => {
+    const day = [{ startHour: 8, endHour: 16, powerMW: 2 }];
+    const holiday = [{ startHour: 10, endHour: 12, powerMW: 0.5 }];
+
+    // Christmas Day 2025 at noon
+    expect(getLogisticsDemand(everyDay(day, holiday, true), at(11, 25, 11))).toBe(0.5);
+    expect(getLogisticsDemand(everyDay(day, holiday, false), at(11, 25, 11))).toBe(2);
+    expect(getLogisticsDemand(everyDay(day, holiday, true), at(11, 24, 11))).toBe(2);
+  });
+});
+
+describe('getLogisticsDemand', () => {
+  it('counts the hours after midnight of an overnight shift to the day it started', () => {
+    const weekdays: LogisticsShift[][] = Array.from({ length: 7 }, () => []);
+    // Friday from 22:00 until Saturday 06:00
+    weekdays[5] = [{ startHour: 22, endHour: 6, powerMW: 3 }];
+    const schedule: LogisticsSchedule = { weekdays, holiday: [], holidaysEnabled: false };
+
+    // Friday 3 January 2025
+    expect(getLogisticsDemand(schedule, at(0, 3, 3))).toBe(0);
+    expect(getLogisticsDemand(schedule, at(0, 3, 22))).toBe(3);
+    expect(getLogisticsDemand(schedule, at(0, 4, 3))).toBe(3);
+    expect(getLogisticsDemand(schedule, at(0, 4, 6))).toBe(0);
+    expect(getLogisticsDemand(schedule, at(0, 4, 22))).toBe(0);
+  });
+
+  it('adds up overlapping shifts and carries an overnight shift past New Year', () => {
+    const schedule = everyDay([
+      { startHour: 6, endHour: 18, powerMW: 2 },
+      { startHour: 14, endHour: 2, powerMW: 1 }
+    ]);
+    expect(getLogisticsDemand(schedule, at(0, 1, 1, 2026))).toBe(1);
+    expect(getLogisticsDemand(schedule, at(0, 1, 10, 2026))).toBe(2);
+    expect(getLogisticsDemand(schedule, at(0, 1, 15, 2026))).toBe(3);
+    expect(getLogisticsDemand(schedule, at(0, 1, 20, 2026))).toBe(1);
+  });
+});
+
+describe('getSchedulePeakMW', () => {
+  it('adds an overnight shift of the previous day to the shifts of the next morning', () => {
+    const weekdays: LogisticsShift[][] = Array.from({ length: 7 }, () => []);
+    weekdays[1] = [{ startHour: 20, endHour: 8, powerMW: 2 }];
+    weekdays[2] = [{ startHour: 6, endHour: 14, powerMW: 3 }];
+    expect(getSchedulePeakMW({ weekdays, holiday: [], holidaysEnabled: false })).toBe(5);
+  });
+
+  it('includes a holiday next to any weekday only when holidays are enabled', () => {
+    const weekdays: LogisticsShift[][] = Array.from({ length: 7 }, () => []);
+    weekdays[3] = [{ startHour: 22, endHour: 4, powerMW: 1 }];
+    const holiday = [{ startHour: 0, endHour: 6, powerMW: 4 }];
+    expect(getSchedulePeakMW({ weekdays, holiday, holidaysEnabled: false })).toBe(1);
+    expect(getSchedulePeakMW({ weekdays, holiday, holidaysEnabled: true })).toBe(5);
+  });
+
+  it('returns 0 for an empty schedule', () => {
+    expect(getSchedulePeakMW(everyDay([]))).toBe(0);
+  });
+});
+
+describe('getScheduleAverageMW', () => {
+  it('averages day and overnight shifts over the week', () => {
+    const schedule = everyDay([
+      { startHour: 8, endHour: 16, powerMW: 3 },
+      { startHour: 22, endHour: 6, powerMW: 3 }
+    ]);
+    expect(getScheduleAverageMW(schedule)).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,121 @@
+import { LocalParts } from './time';
+import { LogisticsSchedule, LogisticsShift } from './types';
+
+// --- HELPER: DUTCH PUBLIC HOLIDAYS ---
+// The generally recognised holidays of the Algemene termijnenwet: New Year, Easter
+// Sunday and Monday, King's Day (26 April when the 27th is a Sunday), Liberation
+// Day, Ascension Day, Whit Sunday and Monday and both Christmas days.
+const holidayCache = new Map<number, Set<string>>();
+
+const dayKey = (month: number, day: number) => `${month}-${day}`;
+
+// Easter Sunday (Gregorian, anonymous algorithm) as month 0-11 and day.
+export const getEasterSunday = (year: number): { month: number, day: number } => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { month: month - 1, day };
+};
+
+export const getDutchHolidays = (year: number): Set<string> => {
+  let holidays = holidayCache.get(year);
+  if (holidays) return holidays;
+
+  const easter = getEasterSunday(year);
+  const fromEaster = (offset: number) => {
+    const d = new Date(Date.UTC(year, easter.month, easter.day + offset));
+    return dayKey(d.getUTCMonth(), d.getUTCDate());
+  };
+  const kingsDay = new Date(Date.UTC(year, 3, 27)).getUTCDay() === 0 ? 26 : 27;
+
+  holidays = new Set([
+    dayKey(0, 1),
+    fromEaster(0),
+    fromEaster(1),
+    dayKey(3, kingsDay),
+    dayKey(4, 5),
+    fromEaster(39),
+    fromEaster(49),
+    fromEaster(50),
+    dayKey(11, 25),
+    dayKey(11, 26)
+  ]);
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+export const isDutchHoliday = (year: number, month: number, day: number): boolean =>
+  getDutchHolidays(year).has(dayKey(month, day));
+
+// --- HELPER: LOGISTICS SCHEDULE ---
+// A shift whose end is not after its start runs overnight: the part after
+// midnight belongs to the pattern of the day the shift started. Overlapping
+// shifts add up.
+const isOvernight = (shift: LogisticsShift) => shift.endHour <= shift.startHour;
+
+const shiftsOfDay = (schedule: LogisticsSchedule, year: number, month: number, day: number, weekday: number): LogisticsShift[] =>
+  schedule.holidaysEnabled && isDutchHoliday(year, month, day) ? schedule.holiday : schedule.weekdays[weekday] || [];
+
+const demandAt = (today: LogisticsShift[], yesterday: LogisticsShift[], time: number): number => {
+  let demand = 0;
+  today.forEach(shift => {
+    const active = isOvernight(shift) ? time >= shift.startHour : time >= shift.startHour && time < shift.endHour;
+    if (active) demand += shift.powerMW;
+  });
+  yesterday.forEach(shift => {
+    if (isOvernight(shift) && time < shift.endHour) demand += shift.powerMW;
+  });
+  return demand;
+};
+
+// Logistics demand (MW) at a local time.
+export const getLogisticsDemand = (schedule: LogisticsSchedule, parts: LocalParts): number => {
+  const { year, month, day, hour, minute, weekday } = parts;
+  const prev = new Date(Date.UTC(year, month, day - 1));
+  const today = shiftsOfDay(schedule, year, month, day, weekday);
+  const yesterday = shiftsOfDay(schedule, prev.getUTCFullYear(), prev.getUTCMonth(), prev.getUTCDate(), prev.getUTCDay());
+  return demandAt(today, yesterday, hour + minute / 60);
+};
+
+// Highest simultaneous logistics demand over every pair of consecutive days (a
+// holiday can follow or precede any weekday); used as the connected logistics capacity.
+export const getSchedulePeakMW = (schedule: LogisticsSchedule): number => {
+  const { weekdays, holiday, holidaysEnabled } = schedule;
+  const pairs: [LogisticsShift[], LogisticsShift[]][] = weekdays.map((today, w) => [today, weekdays[(w + 6) % 7]]);
+  if (holidaysEnabled) {
+    weekdays.forEach(other => pairs.push([holiday, other], [other, holiday]));
+    pairs.push([holiday, holiday]);
+  }
+
+  let peak = 0;
+  pairs.forEach(([today, yesterday]) => {
+    // The sum of active shifts only rises at a shift start (or at midnight)
+    [0, ...today.map(s => s.startHour)].forEach(time => {
+      peak = Math.max(peak, demandAt(today, yesterday, time));
+    });
+  });
+  return peak;
+};
+
+// Average logistics demand over one week without holidays (MW).
+export const getScheduleAverageMW = (schedule: LogisticsSchedule): number => {
+  let energy = 0;
+  schedule.weekdays.forEach(shifts => {
+    shifts.forEach(({ startHour, endHour, powerMW }) => {
+      const duration = endHour > startHour ? endHour - startHour : 24 - startHour + endHour;
+      energy += duration * powerMW;
+    });
+  });
+  return energy / (7 * 24);
+};
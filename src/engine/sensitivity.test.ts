@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { applySensitivityValue, getSensitivityBaseValue, runTornado, runTwoWaySweep } from './sensitivity';
+import { createTestMultiYearParams } from './testing';
+
+// Time-based transport right: 3 MW left in a fifth of the hours, no uploaded profile
+const params = createTestMultiYearParams({
+  gridContract: { ...createTestMultiYearParams().gridContract, mode: 'availability', guaranteedMW: 3, availabilityPercent: 80 }
+});
+
+describe('applySensitivityValue', () => {
+  it('replaces one input and reads it back', () => {
+    const changed = applySensitivityValue(params, 'batteryCapacityMWh', 60, 0);
+    expect(getSensitivityBaseValue(changed, 'batteryCapacityMWh', 0)).toBe(60);
+    expect(changed.batteryPowerMW).toBe(params.batteryPowerMW);
+  });
+});
+
+describe('runTornado', () => {
+  it('returns no bars without grid data when the uploaded profile is used', () => {
+    const bars = runTornado([{ parameter: 'batteryCapacityMWh', low: 20, high: 60 }], [2025], [], [], createTestMultiYearParams(), 0);
+    expect(bars).toEqual([]);
+  });
+
+  it('varies a time-based transport right without an uploaded profile', () => {
+    const [bar] = runTornado([{ parameter: 'batteryCapacityMWh', low: 20, high: 60 }], [2025], [], [], params, 0);
+
+    expect(bar.atLow.deficitMWh).toBeGreaterThan(0);
+    expect(bar.atHigh.deficitMWh).toBeLessThanOrEqual(bar.atLow.deficitMWh);
+  });
+});
+
+describe('runTwoWaySweep', () => {
+  it('runs every combination of a contract grid without an uploaded profile', () => {
+    const cells = runTwoWaySweep(
+      { parameter: 'batteryPowerMW', values: [5, 10] },
+      { parameter: 'batteryCapacityMWh', values: [20, 40] },
+      [2025], [], [], params, 0
+    );
+
+    expect(cells.map(c => [c.x, c.y])).toEqual([[5, 20], [5, 40], [10, 20], [10, 40]]);
+  });
+});
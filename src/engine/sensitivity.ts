@@ -0,0 +1,147 @@
+import { getLocalParts, startOfLocalYear } from './time';
+import { MultiYearParams, hasGridInput, runMultiYear } from './yearly';
+import { AncillaryPricePoint, DataPoint, EmissionPoint, LoadProfiles, PricePoint, SolarPoint } from './types';
+
+// Inputs the sensitivity analysis can vary. solarMWp is the installed PV size
+// (a scale on the uploaded profile), cscEndYear the year the CSC ends (1 January),
+// logisticsPercent the logistics schedule as a percentage of the current one.
+export type SensitivityParameter =
+  | 'dieselPrice'
+  | 'electricityPrice'
+  | 'dcUtilizationFactor'
+  | 'batteryPowerMW'
+  | 'batteryCapacityMWh'
+  | 'solarMWp'
+  | 'cscEndYear'
+  | 'logisticsPercent';
+
+export type SensitivityRange = {
+  parameter: SensitivityParameter;
+  low: number;
+  high: number;
+};
+
+// Horizon totals of one multi-year run.
+export type SensitivityOutcome = {
+  netExtraCost: number;
+  deficitMWh: number;
+};
+
+export type TornadoBar = {
+  parameter: SensitivityParameter;
+  low: number;
+  high: number;
+  atLow: SensitivityOutcome;
+  atHigh: SensitivityOutcome;
+};
+
+export type TwoWayCell = SensitivityOutcome & {
+  x: number;
+  y: number;
+};
+
+// Current value of a parameter in the (multi-year) parameter set.
+export const getSensitivityBaseValue = (params: MultiYearParams, parameter: SensitivityParameter, baseSolarMWp: number): number => {
+  switch (parameter) {
+    case 'solarMWp': return params.solarScaleFactor * baseSolarMWp;
+    case 'cscEndYear': return getLocalParts(params.cscEndDate).year;
+    case 'logisticsPercent': return 100;
+    default: return params[parameter];
+  }
+};
+
+// Parameter set with one input replaced by the given value.
+export const applySensitivityValue = (
+  params: MultiYearParams,
+  parameter: SensitivityParameter,
+  value: number,
+  baseSolarMWp: number
+): MultiYearParams => {
+  switch (parameter) {
+    case 'solarMWp':
+      return { ...params, solarScaleFactor: baseSolarMWp > 0 ? value / baseSolarMWp : 0 };
+    case 'cscEndYear':
+      return { ...params, cscEndDate: startOfLocalYear(Math.round(value)) };
+    case 'logisticsPercent': {
+      const scale = (shifts: typeof params.logisticsSchedule.holiday) => shifts.map(s => ({ ...s, powerMW: s.powerMW * value / 100 }));
+      const { weekdays, holiday } = params.logisticsSchedule;
+      return { ...params, logisticsSchedule: { ...params.logisticsSchedule, weekdays: weekdays.map(scale), holiday: scale(holiday) } };
+    }
+    default:
+      return { ...params, [parameter]: value };
+  }
+};
+
+// --- HELPER: SENSITIVITY RUNS ---
+// Every variant is a full runMultiYear over the same horizon as the main results,
+// summarised as the total net extra cost and shortage.
+const createOutcomeRunner = (
+  years: number[],
+  rawData: DataPoint[],
+  solarData: SolarPoint[],
+  priceData: PricePoint[],
+  ancillaryPriceData: AncillaryPricePoint[],
+  loadProfiles: LoadProfiles,
+  emissionData: EmissionPoint[]
+) => (params: MultiYearParams): SensitivityOutcome => {
+  const yearly = runMultiYear(years, rawData, solarData, params, priceData, ancillaryPriceData, loadProfiles, emissionData);
+  return {
+    netExtraCost: yearly.reduce((sum, y) => sum + y.netExtraCost, 0),
+    deficitMWh: yearly.reduce((sum, y) => sum + y.dcDeficitWithBat, 0)
+  };
+};
+
+// One-at-a-time runs at the low and high bound of every range, sorted by their
+// effect on the net cost (widest bar first).
+export const runTornado = (
+  ranges: SensitivityRange[],
+  years: number[],
+  rawData: DataPoint[],
+  solarData: SolarPoint[],
+  params: MultiYearParams,
+  baseSolarMWp: number,
+  priceData: PricePoint[] = [],
+  ancillaryPriceData: AncillaryPricePoint[] = [],
+  loadProfiles: LoadProfiles = { dc: [], logistics: [] },
+  emissionData: EmissionPoint[] = []
+): TornadoBar[] => {
+  if (!hasGridInput(rawData, params)) return [];
+  const run = createOutcomeRunner(years, rawData, solarData, priceData, ancillaryPriceData, loadProfiles, emissionData);
+
+  return ranges
+    .map(({ parameter, low, high }) => ({
+      parameter,
+      low,
+      high,
+      atLow: run(applySensitivityValue(params, parameter, low, baseSolarMWp)),
+      atHigh: run(applySensitivityValue(params, parameter, high, baseSolarMWp))
+    }))
+    .sort((a, b) => Math.abs(b.atHigh.netExtraCost - b.atLow.netExtraCost) - Math.abs(a.atHigh.netExtraCost - a.atLow.netExtraCost));
+};
+
+// Every combination of two parameters (x outer, y inner).
+export const runTwoWaySweep = (
+  x: { parameter: SensitivityParameter, values: number[] },
+  y: { parameter: SensitivityParameter, values: number[] },
+  years: number[],
+  rawData: DataPoint[],
+  solarData: SolarPoint[],
+  params: MultiYearParams,
+  baseSolarMWp: number,
+  priceData: PricePoint[] = [],
+  ancillaryPriceData: AncillaryPricePoint[] = [],
+  loadProfiles: LoadProfiles = { dc: [], logistics: [] },
+  emissionData: EmissionPoint[] = []
+): TwoWayCell[] => {
+  if (!hasGridInput(rawData, params)) return [];
+  const run = createOutcomeRunner(years, rawData, solarData, priceData, ancillaryPriceData, loadProfiles, emissionData);
+
+  return x.values.flatMap(xValue => {
+    const withX = applySensitivityValue(params, x.parameter, xValue, baseSolarMWp);
+    return y.values.map(yValue => ({
+      x: xValue,
+      y: yValue,
+      ...run(applySensitivityValue(withX, y.parameter, yValue, baseSolarMWp))
+    }));
+  });
+};
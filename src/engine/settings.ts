@@ -0,0 +1,49 @@
+import { getContractLookAheadHours } from './contract';
+import { parseLocalDateTime } from './time';
+import { MultiYearParams } from './yearly';
+import { FinanceParams } from './types';
+
+// Every user input that affects the results, in the form the inputs hold them:
+// the CSC end date as text and the solar park as base (profile) and target size.
+// Plain JSON, so a set of settings can be stored and restored as a scenario.
+export type ScenarioSettings = Omit<MultiYearParams, 'solarScaleFactor' | 'cscEndDate'> & FinanceParams & {
+  cscEndDateStr: string;
+  baseSolarMWp: number;
+  targetSolarMWp: number;
+};
+
+// The uploaded solar profile is scaled from its measured size to the target size.
+export const getSolarScaleFactor = (baseSolarMWp: number, targetSolarMWp: number): number =>
+  (targetSolarMWp >= 0 && baseSolarMWp > 0) ? targetSolarMWp / baseSolarMWp : 0;
+
+export const getCscEndDate = (cscEndDateStr: string): Date =>
+  parseLocalDateTime(cscEndDateStr) || new Date(cscEndDateStr);
+
+// Engine inputs for runMultiYear (and, with a year's grid and DC capacity, runSimulation).
+export const getMultiYearParams = (settings: ScenarioSettings): MultiYearParams => {
+  const {
+    cscEndDateStr, baseSolarMWp, targetSolarMWp,
+    batteryCapexPerMW, batteryCapexPerMWh, solarCapexPerMWp, solarInInvestment, fixedOpexPercent,
+    variableOpexPerMWh, batteryReplacementYear, batteryReplacementPercent, discountRatePercent, inflationPercent,
+    ...params
+  } = settings;
+  return {
+    ...params,
+    lookAheadHours: getContractLookAheadHours(params),
+    solarScaleFactor: getSolarScaleFactor(baseSolarMWp, targetSolarMWp),
+    cscEndDate: getCscEndDate(cscEndDateStr)
+  };
+};
+
+export const getFinanceParams = (settings: ScenarioSettings): FinanceParams => ({
+  batteryCapexPerMW: settings.batteryCapexPerMW,
+  batteryCapexPerMWh: settings.batteryCapexPerMWh,
+  solarCapexPerMWp: settings.solarCapexPerMWp,
+  solarInInvestment: settings.solarInInvestment,
+  fixedOpexPercent: settings.fixedOpexPercent,
+  variableOpexPerMWh: settings.variableOpexPerMWh,
+  batteryReplacementYear: settings.batteryReplacementYear,
+  batteryReplacementPercent: settings.batteryReplacementPercent,
+  discountRatePercent: settings.discountRatePercent,
+  inflationPercent: settings.inflationPercent
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from './scenarios';
+import { runSimulation } from './simulation';
+import { createTestParams, createTestYear } from './testing';
+import { DispatchStrategy } from './types';
+import { runMultiYear } from './yearly';
+
+// Evening restrictions to 3 MW on most days and a few multi-day ones the battery cannot bridge
+const random = createRandom(7);
+const yearData = createTestYear(2025, i => {
+  const hour = i % 24;
+  if (i > 1000 && i < 1072) return 3;
+  return hour >= 17 && hour < 21 && random() < 0.6 ? 3 : 10;
+});
+const EPSILON = 1e-6;
+
+describe('runSimulation', () => {
+  const strategies: DispatchStrategy[] = ['greedy', 'forecast', 'optimal'];
+
+  it.each(strategies)('balances the demand in every step (%s)', (dispatchStrategy) => {
+    const res = runSimulation(yearData, [], createTestParams({ dispatchStrategy }));
+    expect(res.simulationSteps).toHaveLength(8760);
+    res.simulationSteps.forEach(s => {
+      expect(s.solarUsedByLoad + s.gridToLoad + s.batToLoad + s.shortage).toBeCloseTo(s.totalDemand, 6);
+      expect(s.gridToLoad + s.gridToBat).toBeLessThanOrEqual(s.gridLimit + EPSILON);
+      expect(s.shortage).toBeGreaterThanOrEqual(-EPSILON);
+    });
+  });
+
+  it.each(strategies)('keeps the SoC within the window (%s)', (dispatchStrategy) => {
+    const res = runSimulation(yearData, [], createTestParams({ dispatchStrategy, minSoCPercent: 10, maxSoCPercent: 90, auxiliaryMW: 0.05 }));
+    res.simulationSteps.forEach(s => {
+      expect(s.socEnd).toBeGreaterThanOrEqual(4 - EPSILON);
+      expect(s.socEnd).toBeLessThanOrEqual(36 + EPSILON);
+    });
+  });
+
+  it('changes the SoC by the flows and the efficiencies', () => {
+    const params = createTestParams();
+    const res = runSimulation(yearData, [], params);
+    let soc = 40 * 0.95;
+    res.simulationSteps.forEach(s => {
+      soc += ((s.gridToBat + s.solarToBat) * 0.95 - s.batToLoad / 0.95) * s.durationHours;
+      expect(s.socEnd).toBeCloseTo(soc, 6);
+    });
+    expect(res.totalBatteryLossMWh).toBeCloseTo(res.chargeLossMWh + res.dischargeLossMWh, 6);
+  });
+
+  it('leaves a deficit only where the battery is empty', () => {
+    const res = runSimulation(yearData, [], createTestParams());
+    expect(res.loadDeficitMWhNoBat).toBeGreaterThan(res.loadDeficitMWhWithBat);
+    expect(res.loadDeficitMWhWithBat).toBeGreaterThan(0);
+    res.simulationSteps.filter(s => s.shortage > 0.001).forEach(s => {
+      expect(s.socEnd).toBeCloseTo(2, 6);
+    });
+    expect(Math.min(...res.simulationSteps.map(s => s.socEnd))).toBeCloseTo(2, 6);
+  });
+
+  it('returns an empty result for an empty yearData', () => {
+    const res = runSimulation([], [], createTestParams());
+    expect(res.simulationSteps).toEqual([]);
+    expect(res.events).toEqual([]);
+    expect(res.outageEvents).toEqual([]);
+    expect(res.totalLoadConsumption).toBe(0);
+    expect(res.loadDeficitMWhWithBat).toBe(0);
+    expect(res.tradingVolumePotentialMWh).toBe(res.tradingHoursAvailable * 10);
+  });
+
+  it('counts the hours of the given year when yearData is empty', () => {
+    expect(runSimulation([], [], createTestParams(), [], [], undefined, [], 2028).tradingHoursAvailable).toBe(8784);
+    expect(runSimulation([], [], createTestParams(), [], [], undefined, [], 2027).tradingHoursAvailable).toBe(8760);
+  });
+});
+
+describe('optimal dispatch', () => {
+  it('covers at least the deficit greedy covers without a genset', () => {
+    const greedy = runSimulation(yearData, [], createTestParams({ dispatchStrategy: 'greedy' }));
+    const optimal = runSimulation(yearData, [], createTestParams({ dispatchStrategy: 'optimal' }));
+    expect(greedy.loadDeficitMWhNoBat).toBeGreaterThan(0);
+    expect(optimal.totalBatToLoad).toBeGreaterThan(0);
+    expect(optimal.loadDeficitMWhWithBat).toBeLessThanOrEqual(greedy.loadDeficitMWhWithBat + EPSILON);
+  });
+
+  it('leaves no more load unserved than greedy once the permit hours run out', () => {
+    const params = { gensetUnits: 1, gensetRatedMW: 4, gensetMaxRunHoursPerYear: 20 };
+    const greedy = runSimulation(yearData, [], createTestParams({ ...params, dispatchStrategy: 'greedy' }));
+    const optimal = runSimulation(yearData, [], createTestParams({ ...params, dispatchStrategy: 'optimal' }));
+    expect(greedy.gensetUnservedMWh).toBeGreaterThan(0);
+    expect(optimal.gensetUnservedMWh).toBeLessThanOrEqual(greedy.gensetUnservedMWh + EPSILON);
+  });
+});
+
+describe('runMultiYear', () => {
+  it('returns no years without grid data or contract', () => {
+    const params = {
+      ...createTestParams(),
+      startYear: 2027,
+      growthProfile: [10],
+      gridCapacitySteps: [{ fromYear: 2024, connectionMW: 10, contractedMW: 10, firmMW: 0 }],
+      yearFillStrategy: 'unrestricted' as const,
+      referenceYear: 2024,
+      gridContract: { mode: 'off' as const, windows: [], guaranteedMW: 0, maxActivationsPerYear: 0, maxHoursPerYear: 0, leadTimeHours: 24, availabilityPercent: 100, allocation: 'worst' as const }
+    };
+    expect(runMultiYear([2027, 2028], [], [], params)).toEqual([]);
+  });
+});
@@ -0,0 +1,551 @@
+import { planAncillaryServices } from './ancillary';
+import { simulateArbitrage } from './arbitrage';
+import { computeForecastTargets, getPreBatteryBalance } from './dispatch';
+import { calculateEmissions } from './emissions';
+import { buildDistribution, groupOutageEvents, groupRestrictionEvents } from './events';
+import { VALUE_OF_LOST_LOAD, dispatchGensets, getGensetCostPerMWh, getGensetCoverMW } from './genset';
+import { createLoadShapeLookup } from './load';
+import { solveOptimalDispatch } from './optimizer';
+import { detectTimestepHours, hoursInYear } from './profiles';
+import { getLogisticsDemand, getSchedulePeakMW } from './schedule';
+import { createProfileLookup, createSolarLookup } from './solar';
+import { getLocalParts, getLocalYear } from './time';
+import { AlignmentReport, AncillaryPricePoint, AncillaryProduct, AnalysisResult, DataPoint, EmissionPoint, LoadProfiles, MonthlyStat, PricePoint, SimulationParams, SimulationStep, SolarPoint, StepInput } from './types';
+
+// Result of a year without grid data: no steps, the battery free to trade all year
+const emptyResult = (batteryPowerMW: number, year: number): AnalysisResult => {
+  const yearHours = hoursInYear(year);
+  const totalTradingPotential = yearHours * batteryPowerMW;
+
+  return {
+    totalHoursRestricted: 0,
+    totalMWhRestrictedGrid: 0,
+    curtailmentPercentageVolume: 0,
+    loadDeficitMWhNoBat: 0,
+    loadDeficitMWhWithBat: 0,
+    totalSolarGeneration: 0,
+    totalSolarUsed: 0,
+    totalLoadConsumption: 0,
+    deficitAfterSolar: 0,
+    restrictedVolumeLoad: 0,
+    totalGridToLoad: 0,
+    totalSolarToLoad: 0,
+    totalBatToLoad: 0,
+    totalGridToBat: 0,
+    events: [],
+    outageEvents: [],
+    distribution: [],
+    monthlyStats: [],
+    simulationSteps: [],
+    worstWeekData: [],
+    batteryAutonomyHours: 0,
+    tradingHoursAvailable: yearHours,
+    tradingVolumePotentialMWh: totalTradingPotential,
+    timestepHours: 1,
+    solarAlignment: { matchedHours: 0, interpolatedHours: 0, missingHours: 0 },
+    chargeLossMWh: 0,
+    dischargeLossMWh: 0,
+    auxiliaryLossMWh: 0,
+    totalBatteryLossMWh: 0,
+    arbitrageRevenue: 0,
+    arbitrageBoughtMWh: 0,
+    arbitrageSoldMWh: 0,
+    fcrRevenue: 0,
+    afrrRevenue: 0,
+    fcrHours: 0,
+    afrrHours: 0,
+    gensetFuelLiters: 0,
+    gensetStarts: 0,
+    gensetRunHours: 0,
+    gensetMaxUnitRunHours: 0,
+    gensetUnservedMWh: 0,
+    gensetDumpedMWh: 0,
+    dieselCo2Tonnes: 0,
+    dieselNoxKg: 0,
+    dieselPmKg: 0,
+    gridCo2Tonnes: 0
+  };
+};
+
+// Three days before and four days after the lowest state of charge.
+export const getWorstWeek = (steps: SimulationStep[], batteryCapacityMWh: number, timestepHours = 1): SimulationStep[] => {
+  let minSoC = batteryCapacityMWh;
+  let minIndex = 0;
+  for (let i = 0; i < steps.length; i++) {
+    if (steps[i].socEnd < minSoC) {
+      minSoC = steps[i].socEnd;
+      minIndex = i;
+    }
+  }
+  const stepsPerDay = Math.round(24 / timestepHours);
+  const startIndex = Math.max(0, minIndex - (stepsPerDay * 3));
+  const endIndex = Math.min(steps.length, minIndex + (stepsPerDay * 4));
+  return steps.slice(startIndex, endIndex);
+};
+
+const NO_LOAD_PROFILES: LoadProfiles = { dc: [], logistics: [] };
+
+// --- HELPER: STEP INPUTS ---
+// Everything per step that does not depend on the battery: the CSC-limited grid
+// capacity, the demand (flat or from a load profile) and the aligned solar generation.
+export const prepareStepInputs = (
+  gridRows: DataPoint[],
+  solarData: SolarPoint[],
+  params: SimulationParams,
+  dt: number,
+  loadProfiles: LoadProfiles = NO_LOAD_PROFILES
+): { inputs: StepInput[], alignment: AlignmentReport } => {
+  const {
+    dcCapacityMW,
+    dcUtilizationFactor,
+    logisticsSchedule,
+    solarScaleFactor,
+    solarAlignment,
+    loadAlignment,
+    cscEndDate,
+    connectionMW,
+    contractedMW,
+    firmMW,
+    profileNominalMW
+  } = params;
+
+  const hasSolar = solarData.length > 0;
+  const solarLookup = createSolarLookup(solarData, solarAlignment, dt);
+  const dcShape = createLoadShapeLookup(loadProfiles.dc, 'mean', loadAlignment, dt);
+  const logisticsShape = createLoadShapeLookup(loadProfiles.logistics, 'peak', loadAlignment, dt);
+  const alignment: AlignmentReport = { matchedHours: 0, interpolatedHours: 0, missingHours: 0 };
+
+  const connectionMax = Math.max(0, connectionMW);
+  const contractMax = Math.min(Math.max(0, contractedMW), connectionMax);
+  const firmMax = Math.min(Math.max(0, firmMW), contractMax);
+  const cscEndTime = cscEndDate.getTime();
+  const effectiveDcDemandMW = dcCapacityMW * (dcUtilizationFactor / 100);
+  const logisticsPeakMW = getSchedulePeakMW(logisticsSchedule);
+
+  const inputs = gridRows.map(point => {
+    const parts = getLocalParts(point.datetime);
+    const { month: monthIndex, hour } = parts;
+
+    // The profile curtails the non-firm part of the contract; after the CSC ends the full
+    // contract is available, except where the grid contract itself sets the limit
+    let gridLimit = contractMax;
+    if (point.fromContract || point.datetime.getTime() < cscEndTime) {
+      const curtailment = Math.max(0, profileNominalMW - Math.max(0, point.limitMW));
+      gridLimit = Math.max(firmMax, contractMax - curtailment);
+    }
+
+    let rawSolarGen = 0;
+    if (hasSolar) {
+      const solar = solarLookup(point.datetime);
+      rawSolarGen = solar.value;
+      if (solar.status === 'matched') alignment.matchedHours += dt;
+      else if (solar.status === 'interpolated') alignment.interpolatedHours += dt;
+      else alignment.missingHours += dt;
+    }
+
+    const dcFactor = dcShape ? dcShape(point.datetime) : null;
+    const dcDemand = dcFactor !== null ? effectiveDcDemandMW * dcFactor : effectiveDcDemandMW;
+
+    const logisticsFactor = logisticsShape ? logisticsShape(point.datetime) : null;
+    const logisticsDemand = logisticsFactor !== null
+      ? logisticsPeakMW * logisticsFactor
+      : getLogisticsDemand(logisticsSchedule, parts);
+
+    return {
+      datetime: point.datetime,
+      monthIndex,
+      hour,
+      gridLimit,
+      restrictedMW: contractMax - gridLimit,
+      availableGrid: Math.min(gridLimit, connectionMax),
+      solarGeneration: rawSolarGen * solarScaleFactor,
+      dcDemand,
+      logisticsDemand,
+      totalDemand: dcDemand + logisticsDemand
+    };
+  });
+
+  return { inputs, alignment };
+};
+
+// --- HELPER: SIMULATION LOGIC ---
+// Step-by-step energy balance of one year: solar first, then grid up to the CSC
+// limit, then the battery. Whatever remains is a shortage covered by diesel.
+// The timestep (hourly, 15-minute PTU, ...) is detected from the grid profile;
+// flows are MW averaged over the step, energies are flow * timestep. With
+// day-ahead prices the idle battery also trades (see simulateArbitrage), after
+// any balancing capacity has been reserved (see planAncillaryServices). emptyYear is
+// the year reported when yearData is empty.
+export const runSimulation = (
+  yearData: DataPoint[],
+  solarData: SolarPoint[],
+  params: SimulationParams,
+  priceData: PricePoint[] = [],
+  ancillaryPriceData: AncillaryPricePoint[] = [],
+  loadProfiles: LoadProfiles = NO_LOAD_PROFILES,
+  emissionData: EmissionPoint[] = [],
+  emptyYear: number = getLocalYear(new Date())
+): AnalysisResult => {
+  const {
+    batteryCapacityMWh,
+    batteryPowerMW,
+    chargeEfficiency,
+    dischargeEfficiency,
+    minSoCPercent,
+    maxSoCPercent,
+    initialSoCPercent,
+    auxiliaryMW,
+    dispatchStrategy,
+    lookAheadHours,
+    standbySoCPercent,
+    connectionMW,
+    contractedMW,
+    dieselPrice,
+    electricityPrice,
+    arbitrageEnabled,
+    priceAlignment,
+    ancillaryProducts,
+    ancillaryBlockHours,
+    ancillaryConflictRule
+  } = params;
+
+  if (yearData.length === 0) return emptyResult(batteryPowerMW, emptyYear);
+
+  const gridRows = [...yearData].sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+  const dt = detectTimestepHours(gridRows);
+  const { inputs, alignment } = prepareStepInputs(gridRows, solarData, params, dt, loadProfiles);
+
+  // Efficiencies are applied on the battery side: charging X MWh stores X * etaCharge,
+  // delivering Y MWh to the load takes Y / etaDischarge out of the battery.
+  const etaCharge = Math.min(1, Math.max(0.01, chargeEfficiency / 100));
+  const etaDischarge = Math.min(1, Math.max(0.01, dischargeEfficiency / 100));
+  const maxSoC = batteryCapacityMWh * Math.min(100, Math.max(0, maxSoCPercent)) / 100;
+  const minSoC = Math.min(maxSoC, batteryCapacityMWh * Math.max(0, minSoCPercent) / 100);
+  const initialSoC = Math.min(maxSoC, Math.max(minSoC, batteryCapacityMWh * initialSoCPercent / 100));
+
+  let currentSoC = initialSoC;
+  const maxChargeRate = batteryPowerMW;
+  const maxDischargeRate = batteryPowerMW;
+  const contractMax = Math.min(Math.max(0, contractedMW), Math.max(0, connectionMW));
+
+  const batteryLimits = {
+    minSoC,
+    maxSoC,
+    etaCharge,
+    etaDischarge,
+    powerMW: batteryPowerMW,
+    auxiliaryMW: batteryCapacityMWh > 0 ? auxiliaryMW : 0
+  };
+
+  // Highest SoC the battery is charged to in each step (forecast), or the full LP plan (optimal)
+  const chargeCeiling = dispatchStrategy === 'forecast'
+    ? computeForecastTargets(inputs, batteryLimits, lookAheadHours, batteryCapacityMWh * standbySoCPercent / 100, dt)
+    : null;
+  const optimalPlan = dispatchStrategy === 'optimal'
+    ? solveOptimalDispatch(inputs, batteryLimits, initialSoC, {
+      dieselPerMWh: getGensetCostPerMWh(params, dieselPrice),
+      lostLoadPerMWh: VALUE_OF_LOST_LOAD,
+      gridPerMWh: electricityPrice
+    }, dt, getGensetCoverMW(inputs.map(input => getPreBatteryBalance(input).shortage), params, dt))
+    : null;
+
+  const totalAvgDemandMW = inputs.reduce((sum, input) => sum + input.totalDemand, 0) / inputs.length;
+
+  const usableEnergyMWh = (maxSoC - minSoC) * etaDischarge;
+  const batteryAutonomyHours = totalAvgDemandMW > 0 ? usableEnergyMWh / totalAvgDemandMW : 999;
+
+  let totalHoursRestricted = 0;
+  let totalMWhRestrictedGrid = 0;
+  let loadDeficitMWhNoBat = 0;
+  let loadDeficitMWhWithBat = 0;
+  let totalSolarGeneration = 0;
+  let totalSolarUsed = 0;
+  let totalLoadConsumption = 0;
+  let deficitAfterSolarTotal = 0;
+  let restrictedVolumeLoadTotal = 0;
+  let totalGridToLoad = 0;
+  let totalSolarToLoad = 0;
+  let totalBatToLoad = 0;
+  let totalGridToBat = 0;
+  let batteryBusyHours = 0;
+  let tradingVolumePotentialMWh = 0;
+  let chargeLossMWh = 0;
+  let dischargeLossMWh = 0;
+  let auxiliaryLossMWh = 0;
+
+  const steps: SimulationStep[] = [];
+
+  const monthlyData: MonthlyStat[] = Array.from({ length: 12 }, (_, i) => ({
+    month: new Date(2000, i, 1).toLocaleString('nl-NL', { month: 'short' }),
+    restrictedMWh: 0,
+    restrictedHours: 0,
+    solarGeneration: 0,
+    solarUsed: 0,
+    deficitMitigatedBySolar: 0,
+    deficitMitigatedByBat: 0,
+    deficitNet: 0
+  }));
+
+  for (let i = 0; i < inputs.length; i++) {
+    const { datetime, monthIndex, gridLimit, restrictedMW, availableGrid, solarGeneration: solarGen, dcDemand, logisticsDemand, totalDemand } = inputs[i];
+    totalLoadConsumption += totalDemand * dt;
+
+    const theoreticalDeficitNoSolar = Math.max(0, totalDemand - availableGrid);
+
+    const balance = getPreBatteryBalance(inputs[i]);
+    const { solarToLoad, shortage: shortagePreBat } = balance;
+    let gridToLoad = balance.gridToLoad;
+
+    const deficitMitigatedBySolar = Math.max(0, theoreticalDeficitNoSolar - shortagePreBat);
+
+    loadDeficitMWhNoBat += shortagePreBat * dt;
+    deficitAfterSolarTotal += shortagePreBat * dt;
+    totalSolarToLoad += solarToLoad * dt;
+
+    if (restrictedMW > 0.01) {
+      const restrictedAmount = restrictedMW * dt;
+      totalHoursRestricted += dt;
+      totalMWhRestrictedGrid += restrictedAmount;
+      monthlyData[monthIndex].restrictedHours += dt;
+      monthlyData[monthIndex].restrictedMWh += restrictedAmount;
+
+      restrictedVolumeLoadTotal += theoreticalDeficitNoSolar * dt;
+    }
+
+    let batToLoad = 0;
+    let gridToBat = 0;
+    let solarToBat = 0;
+    let finalShortage = 0;
+    let isBatteryActive = false;
+    let batteryLoss = 0;
+    const plan = optimalPlan ? optimalPlan[i] : null;
+
+    if (plan) {
+      // Planned flows from the LP; battery discharge may also replace grid energy
+      batToLoad = plan.batToShortage + plan.batToGridLoad;
+      gridToLoad -= plan.batToGridLoad;
+      solarToBat = plan.solarToBat;
+      gridToBat = plan.gridToBat;
+      finalShortage = Math.max(0, shortagePreBat - plan.batToShortage);
+      currentSoC = Math.min(maxSoC, Math.max(minSoC, currentSoC + ((solarToBat + gridToBat) * etaCharge - batToLoad / etaDischarge) * dt));
+      const chargeLoss = (solarToBat + gridToBat) * (1 - etaCharge);
+      const dischargeLoss = batToLoad / etaDischarge - batToLoad;
+      chargeLossMWh += chargeLoss * dt;
+      dischargeLossMWh += dischargeLoss * dt;
+      batteryLoss += chargeLoss + dischargeLoss;
+      if (batToLoad > 1e-9 || solarToBat > 1e-9 || gridToBat > 1e-9) isBatteryActive = true;
+    } else if (shortagePreBat > 0) {
+      const deliverable = Math.max(0, currentSoC - minSoC) * etaDischarge / dt;
+      const dischargePotential = Math.min(shortagePreBat, deliverable, maxDischargeRate);
+      batToLoad = dischargePotential;
+      currentSoC -= dischargePotential * dt / etaDischarge;
+      finalShortage = shortagePreBat - dischargePotential;
+      const loss = dischargePotential / etaDischarge - dischargePotential;
+      dischargeLossMWh += loss * dt;
+      batteryLoss += loss;
+      if (batToLoad > 0) isBatteryActive = true;
+    } else {
+      const solarSurplus = solarGen - solarToLoad;
+      const gridSurplus = availableGrid - gridToLoad;
+      // Space expressed as power drawn from solar/grid over this step, before charge losses
+      const ceiling = chargeCeiling ? chargeCeiling[i] : maxSoC;
+      const spaceInBat = Math.max(0, ceiling - currentSoC) / etaCharge / dt;
+
+      if (spaceInBat > 1e-9) {
+        const chargeFromSolar = Math.min(solarSurplus, spaceInBat, maxChargeRate);
+        solarToBat = chargeFromSolar;
+
+        const remainingChargeCap = Math.min(spaceInBat - solarToBat, maxChargeRate - solarToBat);
+        const chargeFromGrid = Math.min(gridSurplus, remainingChargeCap);
+        gridToBat = chargeFromGrid;
+
+        currentSoC += (solarToBat + gridToBat) * etaCharge * dt;
+        const loss = (solarToBat + gridToBat) * (1 - etaCharge);
+        chargeLossMWh += loss * dt;
+        batteryLoss += loss;
+
+        if (solarToBat > 0 || gridToBat > 0) isBatteryActive = true;
+      }
+    }
+
+    // Standby consumption (cooling, BMS, inverters) is drawn from the battery itself
+    if (auxiliaryMW > 0 && batteryCapacityMWh > 0) {
+      const auxDraw = Math.min(plan ? plan.auxDrawMWh : auxiliaryMW * dt, Math.max(0, currentSoC - minSoC));
+      currentSoC -= auxDraw;
+      auxiliaryLossMWh += auxDraw;
+      batteryLoss += auxDraw / dt;
+    }
+
+    const deficitMitigatedByBat = Math.max(0, shortagePreBat - finalShortage);
+
+    monthlyData[monthIndex].deficitMitigatedBySolar += deficitMitigatedBySolar * dt;
+    monthlyData[monthIndex].deficitMitigatedByBat += deficitMitigatedByBat * dt;
+    monthlyData[monthIndex].deficitNet += finalShortage * dt;
+
+    totalBatToLoad += batToLoad * dt;
+    totalGridToBat += gridToBat * dt;
+    totalGridToLoad += gridToLoad * dt;
+
+    if (isBatteryActive) {
+      batteryBusyHours += dt;
+    } else {
+      const unusedGridCapacity = Math.max(0, gridLimit - gridToLoad);
+      const tradingPotential = Math.min(batteryPowerMW, unusedGridCapacity);
+      tradingVolumePotentialMWh += tradingPotential * dt;
+    }
+
+    loadDeficitMWhWithBat += finalShortage * dt;
+
+    const usedSolarThisStep = (solarToLoad + solarToBat) * dt;
+    totalSolarGeneration += solarGen * dt;
+    totalSolarUsed += usedSolarThisStep;
+
+    monthlyData[monthIndex].solarGeneration += solarGen * dt;
+    monthlyData[monthIndex].solarUsed += usedSolarThisStep;
+
+    steps.push({
+      datetime,
+      durationHours: dt,
+      gridLimit,
+      restrictedMW,
+      dcDemand,
+      logisticsDemand,
+      totalDemand,
+      solarGeneration: solarGen,
+      solarUsedByLoad: solarToLoad,
+      gridToLoad,
+      batToLoad,
+      gridToBat,
+      solarToBat,
+      shortage: finalShortage,
+      socEnd: currentSoC,
+      isBatteryActive,
+      batteryLoss,
+      arbitrageCharge: 0,
+      arbitrageDischarge: 0,
+      reservedMW: 0,
+      gensetMW: 0,
+      gensetUnitsRunning: 0,
+      gensetStarts: 0,
+      unservedMW: 0
+    });
+  }
+
+  // Balancing capacity (FCR/aFRR) in the blocks the congestion duty leaves free
+  const activeProducts = batteryCapacityMWh > 0 ? ancillaryProducts.filter(p => p.powerMW > 0) : [];
+  const capacityPrices: Record<AncillaryProduct, number[]> = { fcr: [], afrr: [] };
+  activeProducts.forEach(({ product, capacityPriceEurMWh }) => {
+    const lookup = ancillaryPriceData.length > 0
+      ? createProfileLookup(ancillaryPriceData, product === 'fcr' ? 'fcrEurMWh' : 'afrrEurMWh', priceAlignment, dt)
+      : null;
+    capacityPrices[product] = inputs.map(input => {
+      const price = lookup ? lookup(input.datetime) : null;
+      return price && price.status !== 'missing' ? price.value : capacityPriceEurMWh;
+    });
+  });
+  const ancillary = planAncillaryServices(inputs, steps, activeProducts, capacityPrices, ancillaryBlockHours, ancillaryConflictRule, batteryLimits, dt);
+  ancillary.reservations.forEach((res, i) => { steps[i].reservedMW = res.powerMW; });
+
+  // Day-ahead arbitrage in the idle steps, on top of the congestion dispatch
+  let arbitrageRevenue = 0;
+  let arbitrageBoughtMWh = 0;
+  let arbitrageSoldMWh = 0;
+  if (arbitrageEnabled && priceData.length > 0 && batteryCapacityMWh > 0) {
+    const priceLookup = createProfileLookup(priceData, 'priceEurMWh', priceAlignment, dt);
+    const prices = inputs.map(input => {
+      const price = priceLookup(input.datetime);
+      return price.status === 'missing' ? null : price.value;
+    });
+    simulateArbitrage(inputs, steps, prices, batteryLimits, dt, ancillary.reservations).forEach((arb, i) => {
+      const step = steps[i];
+      const chargeLoss = arb.charge * (1 - etaCharge);
+      const dischargeLoss = arb.discharge / etaDischarge - arb.discharge;
+      step.arbitrageCharge = arb.charge;
+      step.arbitrageDischarge = arb.discharge;
+      step.socEnd += arb.socOffset;
+      step.batteryLoss += chargeLoss + dischargeLoss;
+      chargeLossMWh += chargeLoss * dt;
+      dischargeLossMWh += dischargeLoss * dt;
+      arbitrageRevenue += (prices[i] || 0) * (arb.discharge - arb.charge) * dt;
+      arbitrageBoughtMWh += arb.charge * dt;
+      arbitrageSoldMWh += arb.discharge * dt;
+    });
+  }
+
+  // Diesel gensets cover what is left, unit by unit
+  const genset = dispatchGensets(steps.map(s => s.shortage), params, dt);
+  let gensetFuelLiters = 0;
+  let gensetStarts = 0;
+  let gensetUnservedMWh = 0;
+  let gensetDumpedMWh = 0;
+  genset.steps.forEach((g, i) => {
+    const step = steps[i];
+    step.gensetMW = g.outputMW;
+    step.gensetUnitsRunning = g.unitsRunning;
+    step.gensetStarts = g.starts;
+    step.unservedMW = g.unservedMW;
+    gensetFuelLiters += g.fuelLiters;
+    gensetStarts += g.starts;
+    gensetUnservedMWh += g.unservedMW * dt;
+    gensetDumpedMWh += g.dumpedMW * dt;
+  });
+  const fleetCapacityMW = Math.max(0, Math.floor(params.gensetUnits)) * Math.max(0, params.gensetRatedMW);
+  const emissions = calculateEmissions(steps, gensetFuelLiters, emissionData, params, dt);
+
+  const events = groupRestrictionEvents(steps, initialSoC);
+  const outageEvents = groupOutageEvents(steps, fleetCapacityMW);
+  const distribution = buildDistribution(events);
+  const worstWeekData = getWorstWeek(steps, batteryCapacityMWh, dt);
+
+  const yearHours = hoursInYear(getLocalParts(gridRows[0].datetime).year);
+  const totalYearlyCapacityMWh = contractMax * yearHours;
+  const volumePercentage = totalYearlyCapacityMWh > 0 ? (totalMWhRestrictedGrid / totalYearlyCapacityMWh) * 100 : 0;
+
+  const tradingHoursAvailable = Math.max(0, yearHours - batteryBusyHours);
+
+  return {
+    totalHoursRestricted,
+    totalMWhRestrictedGrid,
+    curtailmentPercentageVolume: volumePercentage,
+    loadDeficitMWhNoBat,
+    loadDeficitMWhWithBat,
+    totalSolarGeneration,
+    totalSolarUsed,
+    totalLoadConsumption,
+    deficitAfterSolar: deficitAfterSolarTotal,
+    restrictedVolumeLoad: restrictedVolumeLoadTotal,
+    totalGridToLoad,
+    totalSolarToLoad,
+    totalBatToLoad,
+    totalGridToBat,
+    events,
+    outageEvents,
+    distribution,
+    monthlyStats: monthlyData,
+    simulationSteps: steps,
+    worstWeekData,
+    batteryAutonomyHours,
+    tradingHoursAvailable,
+    tradingVolumePotentialMWh,
+    timestepHours: dt,
+    solarAlignment: alignment,
+    chargeLossMWh,
+    dischargeLossMWh,
+    auxiliaryLossMWh,
+    totalBatteryLossMWh: chargeLossMWh + dischargeLossMWh + auxiliaryLossMWh,
+    arbitrageRevenue,
+    arbitrageBoughtMWh,
+    arbitrageSoldMWh,
+    fcrRevenue: ancillary.revenue.fcr,
+    afrrRevenue: ancillary.revenue.afrr,
+    fcrHours: ancillary.hours.fcr,
+    afrrHours: ancillary.hours.afrr,
+    gensetFuelLiters,
+    gensetStarts,
+    gensetRunHours: genset.unitRunHours.reduce((sum, h) => sum + h, 0),
+    gensetMaxUnitRunHours: Math.max(0, ...genset.unitRunHours),
+    gensetUnservedMWh,
+    gensetDumpedMWh,
+    ...emissions
+  };
+};
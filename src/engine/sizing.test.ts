@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { getRangeValues, runSizingSweep } from './sizing';
+import { createTestMultiYearParams } from './testing';
+import { FinanceParams } from './types';
+
+const finance: FinanceParams = {
+  batteryCapexPerMW: 100000,
+  batteryCapexPerMWh: 250000,
+  solarCapexPerMWp: 600000,
+  solarInInvestment: false,
+  fixedOpexPercent: 1.5,
+  variableOpexPerMWh: 2,
+  batteryReplacementYear: 0,
+  batteryReplacementPercent: 0,
+  discountRatePercent: 7,
+  inflationPercent: 2
+};
+const grid = { powerMW: [5, 10], capacityMWh: [20], solarMWp: [0] };
+
+describe('getRangeValues', () => {
+  it('includes both ends of the range', () => {
+    expect(getRangeValues({ min: 10, max: 30, step: 10 })).toEqual([10, 20, 30]);
+  });
+
+  it('returns the minimum alone without a usable step', () => {
+    expect(getRangeValues({ min: 10, max: 30, step: 0 })).toEqual([10]);
+  });
+});
+
+describe('runSizingSweep', () => {
+  it('returns no sizes without grid data when the uploaded profile is used', () => {
+    expect(runSizingSweep(grid, [2025], [], [], createTestMultiYearParams(), finance, 0)).toEqual([]);
+  });
+
+  it('sizes a time-based transport right without an uploaded profile', () => {
+    const params = createTestMultiYearParams({
+      gridContract: { ...createTestMultiYearParams().gridContract, mode: 'availability', guaranteedMW: 3, availabilityPercent: 99 }
+    });
+    const points = runSizingSweep(grid, [2025], [], [], params, finance, 0);
+
+    expect(points.map(p => p.batteryPowerMW)).toEqual([5, 10]);
+    expect(points.every(p => p.totalCapex > 0)).toBe(true);
+  });
+});
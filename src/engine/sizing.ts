@@ -0,0 +1,102 @@
+import { buildInvestmentCase, getBaselineParams } from './finance';
+import { MultiYearParams, hasGridInput, runMultiYear } from './yearly';
+import { AncillaryPricePoint, DataPoint, EmissionPoint, FinanceParams, LoadProfiles, PricePoint, SolarPoint, YearlyResult } from './types';
+
+export type SizingRange = {
+  min: number;
+  max: number;
+  step: number;
+};
+
+// Sizes to evaluate; every combination is simulated over the full horizon.
+export type SizingGrid = {
+  powerMW: number[];
+  capacityMWh: number[];
+  solarMWp: number[];
+};
+
+// Horizon totals of one battery (and PV) size.
+export type SizingPoint = {
+  batteryPowerMW: number;
+  batteryCapacityMWh: number;
+  solarMWp: number;
+  netExtraCost: number;
+  deficitMWh: number;
+  totalCapex: number;
+  npv: number;
+  // Not dominated by another size with a higher NPV and a lower shortage
+  isPareto: boolean;
+};
+
+// Values min, min + step, ... up to max (inclusive); a single value when step <= 0.
+export const getRangeValues = ({ min, max, step }: SizingRange): number[] => {
+  if (step <= 0 || max <= min) return [Math.max(0, min)];
+  const count = Math.min(50, Math.floor((max - min) / step + 1e-9) + 1);
+  return Array.from({ length: count }, (_, i) => Math.round((min + i * step) * 1000) / 1000);
+};
+
+// Marks the sizes no other size beats on both NPV and shortage.
+export const markParetoFront = (points: Omit<SizingPoint, 'isPareto'>[]): SizingPoint[] =>
+  points.map(p => ({
+    ...p,
+    isPareto: !points.some(q =>
+      q.npv >= p.npv && q.deficitMWh <= p.deficitMWh && (q.npv > p.npv || q.deficitMWh < p.deficitMWh))
+  }));
+
+// --- HELPER: SIZING SWEEP ---
+// Runs the multi-year simulation for every size in the grid and values it with the
+// investment case. The solar size is applied as a scale on the uploaded profile
+// (baseSolarMWp is the size the profile was measured at). The baseline only
+// depends on the solar size when the solar park is not part of the investment,
+// so it is run once per solar size at most.
+export const runSizingSweep = (
+  grid: SizingGrid,
+  years: number[],
+  rawData: DataPoint[],
+  solarData: SolarPoint[],
+  params: MultiYearParams,
+  finance: FinanceParams,
+  baseSolarMWp: number,
+  priceData: PricePoint[] = [],
+  ancillaryPriceData: AncillaryPricePoint[] = [],
+  loadProfiles: LoadProfiles = { dc: [], logistics: [] },
+  emissionData: EmissionPoint[] = []
+): SizingPoint[] => {
+  if (!hasGridInput(rawData, params)) return [];
+
+  const scaleFor = (solarMWp: number) => baseSolarMWp > 0 ? solarMWp / baseSolarMWp : 0;
+  const run = (p: MultiYearParams) => runMultiYear(years, rawData, solarData, p, priceData, ancillaryPriceData, loadProfiles, emissionData);
+
+  const baselines = new Map<number, YearlyResult[]>();
+  const getBaseline = (solarMWp: number) => {
+    const key = finance.solarInInvestment ? 0 : solarMWp;
+    let baseline = baselines.get(key);
+    if (!baseline) {
+      baseline = run(getBaselineParams({ ...params, solarScaleFactor: scaleFor(solarMWp) }, finance.solarInInvestment));
+      baselines.set(key, baseline);
+    }
+    return baseline;
+  };
+
+  const points: Omit<SizingPoint, 'isPareto'>[] = [];
+  grid.solarMWp.forEach(solarMWp => {
+    const baseline = getBaseline(solarMWp);
+    grid.capacityMWh.forEach(batteryCapacityMWh => {
+      grid.powerMW.forEach(batteryPowerMW => {
+        const yearly = run({ ...params, batteryPowerMW, batteryCapacityMWh, solarScaleFactor: scaleFor(solarMWp) });
+        const investment = buildInvestmentCase(yearly, baseline, { batteryPowerMW, batteryCapacityMWh, solarMWp }, finance);
+        points.push({
+          batteryPowerMW,
+          batteryCapacityMWh,
+          solarMWp,
+          netExtraCost: yearly.reduce((sum, y) => sum + y.netExtraCost, 0),
+          deficitMWh: yearly.reduce((sum, y) => sum + y.dcDeficitWithBat, 0),
+          totalCapex: investment.totalCapex,
+          npv: investment.npv
+        });
+      });
+    });
+  });
+
+  return markParetoFront(points);
+};
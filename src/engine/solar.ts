@@ -0,0 +1,131 @@
+import { detectTimestepHours } from './profiles';
+import { getLocalParts } from './time';
+import { SolarAlignmentMode, SolarPoint } from './types';
+
+// --- HELPER: PROFILE ALIGNMENT ---
+// 'exact' matches a profile (solar, prices) on the UTC timestamp of each grid
+// step (a solar file for 2025 only fills 2025). 'typical' replays the profile as
+// a typical year on every grid year, keyed on Dutch wall-clock time and averaged
+// over all years in the file; 29 February falls back to 28 February.
+type ProfileIndex = {
+  stepMs: number;
+  anchor: number;
+  stepMinutes: number;
+  exact: Map<number, number>;
+  typical: Map<string, { sum: number, count: number }>;
+};
+
+export type SolarLookupStatus = 'matched' | 'interpolated' | 'missing';
+
+const MAX_INTERPOLATION_STEPS = 3;
+
+type TimedPoint = { datetime: Date };
+
+type NumericField<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T] & string;
+
+// One index per series and value field (a price file holds several columns)
+const indexCache = new WeakMap<TimedPoint[], Map<string, ProfileIndex>>();
+
+const typicalKey = (month: number, day: number, hour: number, minute: number) => `${month}-${day}-${hour}-${minute}`;
+
+const buildProfileIndex = <T extends TimedPoint>(points: T[], field: NumericField<T>): ProfileIndex => {
+  const byField = indexCache.get(points) || new Map<string, ProfileIndex>();
+  const cached = byField.get(field);
+  if (cached) return cached;
+
+  const sorted = [...points].sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+  const stepHours = detectTimestepHours(sorted);
+  const stepMs = stepHours * 3600000;
+  const stepMinutes = Math.max(1, Math.round(stepHours * 60));
+  const exact = new Map<number, number>();
+  const typical = new Map<string, { sum: number, count: number }>();
+
+  sorted.forEach(s => {
+    const value = s[field] as number;
+    exact.set(s.datetime.getTime(), value);
+    const p = getLocalParts(s.datetime);
+    const key = typicalKey(p.month, p.day, p.hour, Math.floor(p.minute / stepMinutes) * stepMinutes);
+    const entry = typical.get(key) || { sum: 0, count: 0 };
+    typical.set(key, { sum: entry.sum + value, count: entry.count + 1 });
+  });
+
+  const index: ProfileIndex = {
+    stepMs,
+    anchor: sorted.length > 0 ? sorted[0].datetime.getTime() : 0,
+    stepMinutes,
+    exact,
+    typical
+  };
+  byField.set(field, index);
+  indexCache.set(points, byField);
+  return index;
+};
+
+const lookupExact = (index: ProfileIndex, t: number): { value: number, status: SolarLookupStatus } => {
+  const bucket = index.anchor + Math.floor((t - index.anchor) / index.stepMs) * index.stepMs;
+  const value = index.exact.get(bucket);
+  if (value !== undefined) return { value, status: 'matched' };
+
+  // Short gaps (e.g. a missing DST hour) are bridged linearly
+  for (let before = 1; before <= MAX_INTERPOLATION_STEPS; before++) {
+    const prev = index.exact.get(bucket - before * index.stepMs);
+    if (prev === undefined) continue;
+    for (let after = 1; after <= MAX_INTERPOLATION_STEPS; after++) {
+      const next = index.exact.get(bucket + after * index.stepMs);
+      if (next === undefined) continue;
+      const weight = before / (before + after);
+      return { value: prev + (next - prev) * weight, status: 'interpolated' };
+    }
+    break;
+  }
+  return { value: 0, status: 'missing' };
+};
+
+const lookupTypical = (index: ProfileIndex, d: Date): { value: number, status: SolarLookupStatus } => {
+  const p = getLocalParts(d);
+  const minute = Math.floor(p.minute / index.stepMinutes) * index.stepMinutes;
+  const entry = index.typical.get(typicalKey(p.month, p.day, p.hour, minute));
+  if (entry) return { value: entry.sum / entry.count, status: 'matched' };
+
+  if (p.month === 1 && p.day === 29) {
+    const feb28 = index.typical.get(typicalKey(1, 28, p.hour, minute));
+    if (feb28) return { value: feb28.sum / feb28.count, status: 'interpolated' };
+  }
+
+  // The spring DST hour is absent in the solar year but may exist in the grid year
+  const prev = index.typical.get(typicalKey(p.month, p.day, p.hour - 1, minute));
+  const next = index.typical.get(typicalKey(p.month, p.day, p.hour + 1, minute));
+  if (prev && next) return { value: (prev.sum / prev.count + next.sum / next.count) / 2, status: 'interpolated' };
+  return { value: 0, status: 'missing' };
+};
+
+// Returns a lookup giving the average profile value over one grid step. When the
+// grid step is longer than the profile step (hourly grid, 15-minute solar), all
+// profile steps inside it are averaged.
+export const createProfileLookup = <T extends TimedPoint>(
+  points: T[],
+  field: NumericField<T>,
+  mode: SolarAlignmentMode,
+  gridStepHours: number
+) => {
+  const index = buildProfileIndex(points, field);
+  const subSteps = Math.max(1, Math.round((gridStepHours * 3600000) / index.stepMs));
+
+  return (d: Date): { value: number, status: SolarLookupStatus } => {
+    let sum = 0;
+    let matched = 0;
+    let missing = 0;
+    for (let k = 0; k < subSteps; k++) {
+      const t = new Date(d.getTime() + k * index.stepMs);
+      const res = mode === 'exact' ? lookupExact(index, t.getTime()) : lookupTypical(index, t);
+      sum += res.value;
+      if (res.status === 'matched') matched++;
+      if (res.status === 'missing') missing++;
+    }
+    const status: SolarLookupStatus = matched === subSteps ? 'matched' : missing === subSteps ? 'missing' : 'interpolated';
+    return { value: sum / subSteps, status };
+  };
+};
+
+export const createSolarLookup = (solarData: SolarPoint[], mode: SolarAlignmentMode, gridStepHours: number) =>
+  createProfileLookup(solarData, 'generationMW', mode, gridStepHours);
@@ -0,0 +1,79 @@
+import { startOfLocalYear } from './time';
+import { DataPoint, SimulationParams } from './types';
+import { MultiYearParams } from './yearly';
+
+// --- HELPER: TEST INPUTS ---
+// Inputs shared by the engine tests: a 10 MW connection, a 40 MWh / 10 MW battery,
+// flat 6.5 MW datacenter demand (10 MW at 65%) and no logistics, genset, solar or trading.
+export const createTestParams = (overrides: Partial<SimulationParams> = {}): SimulationParams => ({
+  connectionMW: 10,
+  contractedMW: 10,
+  firmMW: 0,
+  dcCapacityMW: 10,
+  profileNominalMW: 10,
+  batteryCapacityMWh: 40,
+  batteryPowerMW: 10,
+  chargeEfficiency: 95,
+  dischargeEfficiency: 95,
+  minSoCPercent: 5,
+  maxSoCPercent: 95,
+  initialSoCPercent: 95,
+  auxiliaryMW: 0,
+  dispatchStrategy: 'greedy',
+  lookAheadHours: 24,
+  standbySoCPercent: 30,
+  dcUtilizationFactor: 65,
+  logisticsSchedule: { weekdays: Array.from({ length: 7 }, () => []), holiday: [], holidaysEnabled: false },
+  solarScaleFactor: 1,
+  solarAlignment: 'typical',
+  loadAlignment: 'typical',
+  arbitrageEnabled: false,
+  priceAlignment: 'typical',
+  ancillaryProducts: [],
+  ancillaryBlockHours: 4,
+  ancillaryConflictRule: 'exclude-block',
+  cscEndDate: new Date('2036-01-01'),
+  dieselPrice: 1.5,
+  electricityPrice: 100,
+  co2PricePerTonne: 80,
+  gensetUnits: 0,
+  gensetRatedMW: 0,
+  gensetMinLoadPercent: 30,
+  gensetFuelCurve: [{ loadPercent: 25, litersPerHour: 115 }, { loadPercent: 50, litersPerHour: 205 }, { loadPercent: 75, litersPerHour: 295 }, { loadPercent: 100, litersPerHour: 390 }],
+  gensetStartFuelL: 5,
+  gensetStartCost: 25,
+  gensetMaintenancePerRunHour: 15,
+  gensetMaxRunHoursPerYear: 0,
+  dieselCo2KgPerL: 2.68,
+  dieselNoxGPerL: 40,
+  dieselPmGPerL: 1,
+  gridCo2KgPerMWh: 270,
+  emissionAlignment: 'typical',
+  ...overrides
+});
+
+// The same site over a horizon from 2025: 10 MW datacenter throughout, one grid step,
+// no year filling and no contract.
+export const createTestMultiYearParams = (overrides: Partial<MultiYearParams> = {}): MultiYearParams => {
+  const { dcCapacityMW, connectionMW, contractedMW, firmMW, ...base } = createTestParams();
+  return {
+    ...base,
+    startYear: 2025,
+    growthProfile: [dcCapacityMW, dcCapacityMW, dcCapacityMW, dcCapacityMW],
+    gridCapacitySteps: [{ fromYear: 2025, connectionMW, contractedMW, firmMW }],
+    yearFillStrategy: 'none',
+    referenceYear: 2025,
+    gridContract: { mode: 'off', windows: [], guaranteedMW: 0, maxActivationsPerYear: 0, maxHoursPerYear: 0, leadTimeHours: 0, availabilityPercent: 85, allocation: 'worst' },
+    ...overrides
+  };
+};
+
+// Grid profile of one local year in steps of stepHours, with the limit per step index
+export const createTestYear = (year: number, getLimit: (index: number) => number, stepHours = 1): DataPoint[] => {
+  const rows: DataPoint[] = [];
+  const end = startOfLocalYear(year + 1).getTime();
+  for (let t = startOfLocalYear(year).getTime(); t < end; t += stepHours * 3600000) {
+    rows.push({ datetime: new Date(t), limitMW: getLimit(rows.length) });
+  }
+  return rows;
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { formatLocalDateTime, getLocalParts, getUtcOffsetHours, localToUtc, parseLocalDateTime } from './time';
+
+const HOUR_MS = 3600000;
+
+// Local hours of a calendar day, walking it in UTC hour steps from local midnight
+const localHoursOfDay = (year: number, month: number, day: number) => {
+  const start = localToUtc(year, month, day, 0).getTime();
+  const end = localToUtc(year, month, day + 1, 0).getTime();
+  const hours: number[] = [];
+  for (let t = start; t < end; t += HOUR_MS) hours.push(getLocalParts(new Date(t)).hour);
+  return hours;
+};
+
+describe('getLocalParts', () => {
+  it('uses winter time in January and summer time in July', () => {
+    expect(getLocalParts(new Date('2025-01-15T12:00:00Z'))).toEqual({ year: 2025, month: 0, day: 15, hour: 13, minute: 0, weekday: 3 });
+    expect(getLocalParts(new Date('2025-07-15T12:00:00Z'))).toEqual({ year: 2025, month: 6, day: 15, hour: 14, minute: 0, weekday: 2 });
+  });
+
+  it('skips from 02:00 to 03:00 on the last Sunday of March', () => {
+    expect(getLocalParts(new Date('2025-03-30T00:59:00Z')).hour).toBe(1);
+    expect(getLocalParts(new Date('2025-03-30T01:00:00Z')).hour).toBe(3);
+    expect(getUtcOffsetHours(Date.parse('2025-03-30T01:00:00Z'))).toBe(2);
+  });
+
+  it('shows 02:00 twice on the last Sunday of October', () => {
+    const first = getLocalParts(new Date('2025-10-26T00:00:00Z'));
+    const second = getLocalParts(new Date('2025-10-26T01:00:00Z'));
+    expect([first.day, first.hour]).toEqual([26, 2]);
+    expect([second.day, second.hour]).toEqual([26, 2]);
+    expect(getUtcOffsetHours(Date.parse('2025-10-26T00:59:00Z'))).toBe(2);
+    expect(getUtcOffsetHours(Date.parse('2025-10-26T01:00:00Z'))).toBe(1);
+  });
+
+  it('rolls the local date over before UTC midnight', () => {
+    const parts = getLocalParts(new Date('2025-12-31T23:30:00Z'));
+    expect([parts.year, parts.month, parts.day, parts.hour, parts.minute]).toEqual([2026, 0, 1, 0, 30]);
+  });
+});
+
+describe('localToUtc', () => {
+  it('gives the last Sunday of March 23 hours without a 02:00 hour', () => {
+    const hours = localHoursOfDay(2025, 2, 30);
+    expect(hours).toHaveLength(23);
+    expect(hours).not.toContain(2);
+    expect(hours.slice(0, 4)).toEqual([0, 1, 3, 4]);
+  });
+
+  it('gives the last Sunday of October 25 hours with 02:00 twice', () => {
+    const hours = localHoursOfDay(2025, 9, 26);
+    expect(hours).toHaveLength(25);
+    expect(hours.filter(h => h === 2)).toHaveLength(2);
+    expect(hours.slice(0, 5)).toEqual([0, 1, 2, 2, 3]);
+  });
+
+  it('moves a time in the spring gap forward by the missing hour', () => {
+    const d = localToUtc(2025, 2, 30, 2, 30);
+    expect(d.toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    expect(formatLocalDateTime(d)).toBe('2025-03-30 03:30:00');
+  });
+
+  it('returns the summer-time 02:00 first and the winter-time one after it', () => {
+    const first = localToUtc(2025, 9, 26, 2);
+    const second = localToUtc(2025, 9, 26, 2, 0, 0, first);
+    expect(first.toISOString()).toBe('2025-10-26T00:00:00.000Z');
+    expect(second.toISOString()).toBe('2025-10-26T01:00:00.000Z');
+    expect(formatLocalDateTime(first)).toBe('2025-10-26 02:00:00');
+    expect(formatLocalDateTime(second)).toBe('2025-10-26 02:00:00');
+  });
+
+  it('round-trips every local hour of the year through getLocalParts', () => {
+    const start = localToUtc(2025, 0, 1, 0).getTime();
+    const end = localToUtc(2026, 0, 1, 0).getTime();
+    expect((end - start) / HOUR_MS).toBe(8760);
+    let previous: Date | undefined;
+    for (let t = start; t < end; t += HOUR_MS) {
+      const p = getLocalParts(new Date(t));
+      const back = localToUtc(p.year, p.month, p.day, p.hour, p.minute, 0, previous);
+      expect(back.getTime()).toBe(t);
+      previous = back;
+    }
+  });
+});
+
+describe('parseLocalDateTime', () => {
+  it('reads a repeated 02:00 row as the next hour', () => {
+    const first = parseLocalDateTime('2025-10-26 02:00');
+    const second = parseLocalDateTime('2025-10-26 02:00', first!);
+    expect(second!.getTime() - first!.getTime()).toBe(HOUR_MS);
+    const next = parseLocalDateTime('2025-10-26 03:00', second!);
+    expect(next!.getTime() - second!.getTime()).toBe(HOUR_MS);
+  });
+
+  it('keeps timestamps with an explicit zone as-is', () => {
+    expect(parseLocalDateTime('2025-03-30T02:30:00Z')!.toISOString()).toBe('2025-03-30T02:30:00.000Z');
+  });
+});
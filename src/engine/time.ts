@@ -0,0 +1,154 @@
+// --- HELPER: TIME ZONE HANDLING ---
+// All timestamps are stored as UTC instants (Date). Calendar logic (year, month,
+// hour of day, logistics windows) and display use Dutch local time. The EU rule
+// is applied directly: summer time runs from the last Sunday of March 01:00 UTC
+// until the last Sunday of October 01:00 UTC.
+export const TIME_ZONE = 'Europe/Amsterdam';
+
+const HOUR_MS = 3600000;
+
+export type LocalParts = {
+  year: number;
+  month: number; // 0-11
+  day: number; // 1-31
+  hour: number; // 0-23
+  minute: number;
+  weekday: number; // 0 = Sunday
+};
+
+const lastSundayUtc = (year: number, month: number): number => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  return Date.UTC(year, month, lastDay.getUTCDate() - lastDay.getUTCDay(), 1);
+};
+
+const dstCache = new Map<number, [number, number]>();
+const getDstWindow = (year: number): [number, number] => {
+  let window = dstCache.get(year);
+  if (!window) {
+    window = [lastSundayUtc(year, 2), lastSundayUtc(year, 9)];
+    dstCache.set(year, window);
+  }
+  return window;
+};
+
+// UTC offset of Dutch local time in hours (1 in winter, 2 in summer).
+export const getUtcOffsetHours = (utcMs: number): number => {
+  const [start, end] = getDstWindow(new Date(utcMs).getUTCFullYear());
+  return utcMs >= start && utcMs < end ? 2 : 1;
+};
+
+export const getLocalParts = (d: Date): LocalParts => {
+  const shifted = new Date(d.getTime() + getUtcOffsetHours(d.getTime()) * HOUR_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    weekday: shifted.getUTCDay()
+  };
+};
+
+export const getLocalYear = (d: Date): number => getLocalParts(d).year;
+
+// Converts a Dutch wall-clock time to a UTC instant. During the autumn change the
+// wall-clock hour 02:00-03:00 exists twice: the first occurrence (summer time) is
+// returned unless `after` is given and that instant is not later than `after`.
+// A wall-clock time inside the spring gap is moved forward by the missing hour.
+export const localToUtc = (
+  year: number, month: number, day: number, hour: number, minute = 0, second = 0,
+  after?: Date
+): Date => {
+  const wall = Date.UTC(year, month, day, hour, minute, second);
+  const summer = wall - 2 * HOUR_MS;
+  const winter = wall - HOUR_MS;
+  const summerValid = getUtcOffsetHours(summer) === 2;
+  const winterValid = getUtcOffsetHours(winter) === 1;
+
+  if (summerValid && winterValid) {
+    if (after && summer <= after.getTime()) return new Date(winter);
+    return new Date(summer);
+  }
+  if (summerValid) return new Date(summer);
+  return new Date(winter);
+};
+
+// Start of a local calendar year as UTC instant.
+export const startOfLocalYear = (year: number): Date => localToUtc(year, 0, 1, 0);
+
+const ISO_WITH_ZONE = /(Z|[+-]\d{2}:?\d{2})$/i;
+const YMD = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const DMY = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+// Parses a timestamp from a CSV file. Strings with an explicit zone (ISO with Z or
+// offset) are taken as-is, wall-clock strings are read as Dutch local time.
+// `previous` disambiguates the repeated hour when the autumn DST change is written
+// twice as 02:00.
+export const parseLocalDateTime = (value: string, previous?: Date): Date | null => {
+  const str = value.trim();
+  if (!str) return null;
+
+  if (ISO_WITH_ZONE.test(str) && str.includes('T')) {
+    const d = new Date(str);
+    return isNaN(d.getTime()) ? null : d;
+  }
+
+  const ymd = YMD.exec(str);
+  if (ymd) {
+    return localToUtc(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]), Number(ymd[4] || 0), Number(ymd[5] || 0), Number(ymd[6] || 0), previous);
+  }
+  const dmy = DMY.exec(str);
+  if (dmy) {
+    return localToUtc(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1]), Number(dmy[4] || 0), Number(dmy[5] || 0), Number(dmy[6] || 0), previous);
+  }
+
+  const fallback = new Date(str);
+  return isNaN(fallback.getTime()) ? null : fallback;
+};
+
+// Date order of a timestamp column; 'auto' reads a leading four-digit year as
+// year-month-day and anything else as day-month-year, like parseLocalDateTime.
+export type DateFormat = 'auto' | 'ymd' | 'dmy' | 'mdy';
+// Zone of wall-clock timestamps; strings with an explicit zone are always taken as-is.
+export type TimestampZone = 'local' | 'utc';
+
+const DATE_PARTS = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(am|pm)?)?$/i;
+
+// Parses a timestamp in a given date order and zone, for the CSV import where the
+// user can set both. Two-digit years below 70 are taken as 20xx, others as 19xx
+// (PVsyst writes its reference year as 90); a 12-hour clock with AM/PM is accepted.
+export const parseDateTime = (value: string, format: DateFormat, zone: TimestampZone, previous?: Date): Date | null => {
+  const str = value.trim().replace(/^"|"$/g, '');
+  if (!str) return null;
+  if (ISO_WITH_ZONE.test(str) && str.includes('T')) {
+    const d = new Date(str);
+    return isNaN(d.getTime()) ? null : d;
+  }
+
+  const m = DATE_PARTS.exec(str);
+  if (!m) return format === 'auto' && zone === 'local' ? parseLocalDateTime(str, previous) : null;
+  const [a, b, c] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const order = format === 'auto' ? (m[1].length === 4 ? 'ymd' : 'dmy') : format;
+  let year = order === 'ymd' ? a : c;
+  const month = order === 'ymd' ? b : order === 'dmy' ? b : a;
+  const day = order === 'ymd' ? c : order === 'dmy' ? a : b;
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  let hour = Number(m[4] || 0);
+  const ampm = m[7]?.toLowerCase();
+  if (ampm === 'pm' && hour < 12) hour += 12;
+  if (ampm === 'am' && hour === 12) hour = 0;
+  const minute = Number(m[5] || 0);
+  const second = Number(m[6] || 0);
+  // Hour 24 (written by some exports for the end of the day) rolls over to the next day
+  if (zone === 'utc') return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return localToUtc(year, month - 1, day, hour, minute, second, previous);
+};
+
+// Formats an instant as Dutch wall-clock "YYYY-MM-DD HH:mm:ss".
+export const formatLocalDateTime = (d: Date): string => {
+  const p = getLocalParts(d);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month + 1)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(d.getUTCSeconds())}`;
+};
@@ -0,0 +1,469 @@
+// --- TYPES ---
+export type DataPoint = {
+  datetime: Date;
+  limitMW: number;
+  // Limit set by the grid contract (see applyGridContract) rather than the CSC profile;
+  // it keeps applying after the CSC ends
+  fromContract?: boolean;
+};
+
+export type SolarPoint = {
+  datetime: Date;
+  generationMW: number;
+};
+
+// Day-ahead (EPEX NL) price in EUR/MWh for the hour starting at datetime.
+export type PricePoint = {
+  datetime: Date;
+  priceEurMWh: number;
+};
+
+// Capacity prices for balancing products in EUR per MW per hour.
+export type AncillaryPricePoint = {
+  datetime: Date;
+  fcrEurMWh: number;
+  afrrEurMWh: number;
+};
+
+// Grid emission intensity (kg CO2 per MWh, equal to g/kWh) for the step starting at datetime.
+export type EmissionPoint = {
+  datetime: Date;
+  co2KgPerMWh: number;
+};
+
+// Measured or forecast load (MW averaged over the step starting at datetime).
+export type LoadPoint = {
+  datetime: Date;
+  loadMW: number;
+};
+
+// Flows are MW averaged over the step; multiply by durationHours for MWh.
+export type SimulationStep = {
+  datetime: Date;
+  durationHours: number;
+  gridLimit: number;
+  restrictedMW: number;
+  dcDemand: number;
+  logisticsDemand: number;
+  totalDemand: number;
+  solarGeneration: number;
+  solarUsedByLoad: number;
+  gridToLoad: number;
+  batToLoad: number;
+  gridToBat: number;
+  solarToBat: number;
+  shortage: number;
+  socEnd: number;
+  isBatteryActive: boolean;
+  batteryLoss: number;
+  // Day-ahead arbitrage on top of the congestion dispatch (MW at the grid side)
+  arbitrageCharge: number;
+  arbitrageDischarge: number;
+  // Battery power reserved for FCR/aFRR in this step (MW)
+  reservedMW: number;
+  // Diesel gensets covering the shortage; unservedMW is what even they could not supply
+  gensetMW: number;
+  gensetUnitsRunning: number;
+  gensetStarts: number;
+  unservedMW: number;
+};
+
+export type RestrictionEvent = {
+  start: Date;
+  end: Date;
+  durationHours: number;
+  totalDeficitMWh: number;
+  totalGridRestrictedMWh: number;
+  mitigated: boolean;
+  batteryStartSoC: number;
+};
+
+export type OutageEvent = {
+  start: Date;
+  end: Date;
+  durationHours: number;
+  totalMissedMWh: number;
+  maxShortageMW: number;
+  // Genset operation during the outage; fleetSufficient is false when the rated
+  // fleet is smaller than the peak shortage
+  gensetStarts: number;
+  gensetRunHours: number;
+  unservedMWh: number;
+  fleetSufficient: boolean;
+};
+
+export type DistributionBucket = {
+  duration: number;
+  frequency: number;
+  avgMWhCurtailed: number;
+  totalMWhCurtailed: number;
+};
+
+export type MonthlyStat = {
+  month: string;
+  restrictedMWh: number;
+  restrictedHours: number;
+  solarGeneration: number;
+  solarUsed: number;
+  deficitMitigatedBySolar: number;
+  deficitMitigatedByBat: number;
+  deficitNet: number;
+};
+
+export type YearlyResult = {
+  year: number;
+  dcDeficitWithBat: number;
+  totalHoursRestricted: number;
+  totalMWhRestricted: number;
+  cscPercentage: number;
+  dcCapacityUsed: number;
+  grossDieselCost: number;
+  lostLoadCost: number;
+  avoidedGridCost: number;
+  netExtraCost: number;
+  solarSelfConsumption: number;
+  totalSolarGeneration: number;
+  totalLoadConsumption: number;
+  deficitAfterSolar: number;
+  restrictedVolumeLoad: number;
+  dieselPercentage: number;
+  dieselLiters: number;
+  // Genset fleet: starts, unit run hours (total and busiest unit) and energy it could not supply
+  gensetStarts: number;
+  gensetRunHours: number;
+  gensetMaxUnitRunHours: number;
+  gensetUnservedMWh: number;
+  // Emissions of diesel and grid import; carbonCost prices all CO2 at co2PricePerTonne
+  dieselCo2Tonnes: number;
+  gridCo2Tonnes: number;
+  totalCo2Tonnes: number;
+  dieselNoxKg: number;
+  dieselPmKg: number;
+  carbonCost: number;
+  tradingVolumePotentialMWh: number;
+  tradingVolumePercent: number;
+  // Mix data for table
+  totalGridToLoad: number;
+  totalSolarToLoad: number;
+  totalBatToLoad: number;
+  totalBatteryLoss: number;
+  // Genset costs, lost load and grid energy bought for the load and for charging (EUR)
+  energyCost: number;
+  // Capacity Trend Data (MW)
+  capLogisticsMW: number;
+  capDcActualMW: number;
+  capDcContractMW: number;
+  capBatterySpaceMW: number;
+  capConnectionMW: number;
+  capContractedMW: number;
+  capFirmMW: number;
+  // Solar alignment quality (hours)
+  solarMatchedHours: number;
+  solarInterpolatedHours: number;
+  solarMissingHours: number;
+  // Day-ahead arbitrage
+  arbitrageRevenue: number;
+  arbitrageBoughtMWh: number;
+  arbitrageSoldMWh: number;
+  // Balancing capacity revenue (EUR) and hours with a reservation
+  fcrRevenue: number;
+  afrrRevenue: number;
+  fcrHours: number;
+  afrrHours: number;
+  // Where the year's grid profile came from (see getYearData) and the share of its steps in the file (%)
+  dataStatus: YearDataStatus;
+  dataCoverage: number;
+};
+
+export type AnalysisResult = {
+  totalHoursRestricted: number;
+  totalMWhRestrictedGrid: number;
+  curtailmentPercentageVolume: number;
+  loadDeficitMWhNoBat: number;
+  loadDeficitMWhWithBat: number;
+  totalSolarGeneration: number;
+  totalSolarUsed: number;
+  totalLoadConsumption: number;
+  deficitAfterSolar: number;
+  restrictedVolumeLoad: number;
+  totalGridToLoad: number;
+  totalSolarToLoad: number;
+  totalBatToLoad: number;
+  totalGridToBat: number;
+  events: RestrictionEvent[];
+  outageEvents: OutageEvent[];
+  distribution: DistributionBucket[];
+  monthlyStats: MonthlyStat[];
+  simulationSteps: SimulationStep[];
+  worstWeekData: SimulationStep[];
+  batteryAutonomyHours: number;
+  tradingHoursAvailable: number;
+  tradingVolumePotentialMWh: number;
+  timestepHours: number;
+  solarAlignment: AlignmentReport;
+  // Battery losses (MWh)
+  chargeLossMWh: number;
+  dischargeLossMWh: number;
+  auxiliaryLossMWh: number;
+  totalBatteryLossMWh: number;
+  // Day-ahead arbitrage: net revenue (EUR) and energy bought/sold at the grid side (MWh)
+  arbitrageRevenue: number;
+  arbitrageBoughtMWh: number;
+  arbitrageSoldMWh: number;
+  // Genset fleet: fuel (L), starts, unit run hours, shortage it could not
+  // supply and output above the shortage forced by the minimum loading (MWh)
+  gensetFuelLiters: number;
+  gensetStarts: number;
+  gensetRunHours: number;
+  gensetMaxUnitRunHours: number;
+  gensetUnservedMWh: number;
+  gensetDumpedMWh: number;
+  // Emissions of the diesel backup and of the net grid import
+  dieselCo2Tonnes: number;
+  dieselNoxKg: number;
+  dieselPmKg: number;
+  gridCo2Tonnes: number;
+  // Balancing capacity revenue (EUR) and hours with a reservation
+  fcrRevenue: number;
+  afrrRevenue: number;
+  fcrHours: number;
+  afrrHours: number;
+};
+
+// Hours of a simulated year for which solar data was found, bridged or absent.
+export type AlignmentReport = {
+  matchedHours: number;
+  interpolatedHours: number;
+  missingHours: number;
+};
+
+// --- TYPES: ENGINE INPUT ---
+export type SolarAlignmentMode = 'typical' | 'exact';
+
+// How steps missing from the grid profile are filled: not at all, with the unrestricted
+// profile level, by linear interpolation between the nearest values, or with the same
+// local date and time of a reference year.
+export type YearFillStrategy = 'none' | 'unrestricted' | 'interpolate' | 'reference';
+
+// 'measured' years come from the file, 'partial' years are missing part of their steps,
+// 'synthetic' years are the unrestricted profile, 'extrapolated' years are filled from
+// other years, 'missing' years have no rows at all (fill strategy 'none') and
+// 'contract' years are generated from the contract rules alone.
+export type YearDataStatus = 'measured' | 'partial' | 'synthetic' | 'extrapolated' | 'missing' | 'contract';
+
+export type YearFillParams = {
+  yearFillStrategy: YearFillStrategy;
+  referenceYear: number;
+};
+
+// Local period in which the operator may restrict the contract. Like a logistics
+// shift, a window with endHour <= startHour runs overnight into the next day.
+export type ContractWindow = {
+  months: number[]; // 0-11
+  weekdays: number[]; // 0 = Sunday
+  startHour: number;
+  endHour: number;
+};
+
+// 'off' uses the uploaded profile; 'contract' generates the profile from the rules;
+// 'combined' adds the contract activations to the uploaded profile; 'availability' is a
+// time-based transport right with the full contract for availabilityPercent of the year.
+export type GridContractMode = 'off' | 'contract' | 'combined' | 'availability';
+
+// Which hours the operator takes for a time-based transport right: those with the
+// highest site demand after solar ('worst'), random blocks ('random') or winter peaks
+// ('seasonal').
+export type AvailabilityAllocation = 'worst' | 'random' | 'seasonal';
+
+// Capacity-limiting contract as offered by the grid operator. Every uninterrupted
+// stretch of window time is one possible activation; during an activation only
+// guaranteedMW of the contract remains. Zero limits mean no limit.
+export type GridContract = {
+  mode: GridContractMode;
+  windows: ContractWindow[];
+  guaranteedMW: number;
+  maxActivationsPerYear: number;
+  maxHoursPerYear: number;
+  leadTimeHours: number; // notice before an activation; caps the forecast look-ahead
+  availabilityPercent: number;
+  allocation: AvailabilityAllocation;
+};
+
+export type GridContractParams = {
+  gridContract: GridContract;
+};
+
+// 'greedy' only reacts to the current step; 'forecast' looks ahead over the
+// announced restrictions and charges to the SoC they require; 'optimal' solves
+// the cost-minimizing dispatch for the whole year with perfect foresight.
+export type DispatchStrategy = 'greedy' | 'forecast' | 'optimal';
+
+export type AncillaryProduct = 'fcr' | 'afrr';
+
+// 'exclude-block' skips every block in which the battery has congestion duty;
+// 'reduce-power' offers whatever power and SoC headroom the congestion duty leaves.
+export type AncillaryConflictRule = 'exclude-block' | 'reduce-power';
+
+// One balancing product the battery bids into. The reserved power is symmetric
+// (up and down); headroomHours is the energy per reserved MW that must stay
+// available on both sides of the SoC (e.g. 0.25 h for the FCR 15-minute rule).
+export type AncillaryProductConfig = {
+  product: AncillaryProduct;
+  powerMW: number;
+  capacityPriceEurMWh: number;
+  headroomHours: number;
+};
+
+// One logistics shift in local hours (fractions allowed). A shift with
+// endHour <= startHour runs overnight into the next day.
+export type LogisticsShift = {
+  startHour: number;
+  endHour: number;
+  powerMW: number;
+};
+
+// Shifts per weekday (index 0 = Sunday, as LocalParts.weekday). With
+// holidaysEnabled, Dutch public holidays use the holiday pattern instead.
+export type LogisticsSchedule = {
+  weekdays: LogisticsShift[][];
+  holiday: LogisticsShift[];
+  holidaysEnabled: boolean;
+};
+
+// Uploaded load profiles; an empty series keeps the flat demand model.
+export type LoadProfiles = {
+  dc: LoadPoint[];
+  logistics: LoadPoint[];
+};
+
+// Physical connection size and contracted transport capacity. The firm part is
+// always available; only the non-firm part (contracted - firm) can be restricted.
+export type GridCapacity = {
+  connectionMW: number;
+  contractedMW: number;
+  firmMW: number;
+};
+
+// Grid capacity that applies from a given year onwards (e.g. a connection upgrade).
+export type GridCapacityStep = GridCapacity & {
+  fromYear: number;
+};
+
+export type SimulationParams = GridCapacity & CostParams & GensetParams & EmissionParams & {
+  dcCapacityMW: number;
+  // Value of the uploaded profile when there is no restriction; lower values are
+  // applied as a curtailment of the contracted capacity.
+  profileNominalMW: number;
+  batteryCapacityMWh: number;
+  batteryPowerMW: number;
+  // Battery technology: efficiencies and SoC window in %, standby consumption in MW
+  chargeEfficiency: number;
+  dischargeEfficiency: number;
+  minSoCPercent: number;
+  maxSoCPercent: number;
+  initialSoCPercent: number;
+  auxiliaryMW: number;
+  // Dispatch: look-ahead window and the SoC held outside pre-charge windows (forecast only)
+  dispatchStrategy: DispatchStrategy;
+  lookAheadHours: number;
+  standbySoCPercent: number;
+  dcUtilizationFactor: number;
+  logisticsSchedule: LogisticsSchedule;
+  solarScaleFactor: number;
+  solarAlignment: SolarAlignmentMode;
+  // Alignment of uploaded load profiles (only their shape is used, see createLoadShapeLookup)
+  loadAlignment: SolarAlignmentMode;
+  // Day-ahead arbitrage in the steps the battery is idle for congestion
+  arbitrageEnabled: boolean;
+  priceAlignment: SolarAlignmentMode;
+  // Balancing products, bid per block of ancillaryBlockHours (local time from midnight)
+  ancillaryProducts: AncillaryProductConfig[];
+  ancillaryBlockHours: number;
+  ancillaryConflictRule: AncillaryConflictRule;
+  cscEndDate: Date;
+};
+
+// Battery-independent inputs of one step, derived from the grid, demand and solar profiles.
+export type StepInput = {
+  datetime: Date;
+  monthIndex: number;
+  hour: number;
+  gridLimit: number;
+  restrictedMW: number;
+  availableGrid: number;
+  solarGeneration: number;
+  dcDemand: number;
+  logisticsDemand: number;
+  totalDemand: number;
+};
+
+// Inputs that are the same for every simulated year.
+export type BaseSimulationParams = Omit<SimulationParams, 'dcCapacityMW' | keyof GridCapacity | keyof CostParams | keyof GensetParams>;
+
+// Diesel price per liter, grid energy price per MWh, CO2 (ETS) price per tonne.
+export type CostParams = {
+  dieselPrice: number;
+  electricityPrice: number;
+  co2PricePerTonne: number;
+};
+
+// Emission factors of the diesel fuel and the annual grid intensity; an imported
+// hourly intensity series (aligned with emissionAlignment) takes precedence.
+export type EmissionParams = {
+  dieselCo2KgPerL: number;
+  dieselNoxGPerL: number;
+  dieselPmGPerL: number;
+  gridCo2KgPerMWh: number;
+  emissionAlignment: SolarAlignmentMode;
+};
+
+// Fuel use of one unit at a load point of its rating (datasheet part-load curve).
+export type GensetFuelPoint = {
+  loadPercent: number;
+  litersPerHour: number;
+};
+
+// Backup fleet of identical diesel gensets. Costs are per start and per unit run
+// hour; the permit limits the run hours of each unit per year (0 = no limit).
+export type GensetParams = {
+  gensetUnits: number;
+  gensetRatedMW: number;
+  gensetMinLoadPercent: number;
+  gensetFuelCurve: GensetFuelPoint[];
+  gensetStartFuelL: number;
+  gensetStartCost: number;
+  gensetMaintenancePerRunHour: number;
+  gensetMaxRunHoursPerYear: number;
+};
+
+// Genset operating cost split into fuel, starts and maintenance (gross = sum).
+export type DieselCostResult = {
+  dieselLiters: number;
+  fuelCost: number;
+  startCost: number;
+  maintenanceCost: number;
+  grossDieselCost: number;
+  // Shortage the gensets could not supply, at the value of lost load
+  lostLoadCost: number;
+  avoidedGridCost: number;
+  netExtraCost: number;
+};
+
+// Investment inputs of the business case. CAPEX is paid at the start of the
+// horizon, fixed OPEX is a yearly percentage of it and variable OPEX applies to
+// the energy discharged by the battery. The battery is replaced after
+// batteryReplacementYear years at a percentage of its CAPEX (0 = never). Cash
+// flows rise with inflation and are discounted at the (nominal) discount rate.
+export type FinanceParams = {
+  batteryCapexPerMW: number;
+  batteryCapexPerMWh: number;
+  solarCapexPerMWp: number;
+  // Whether the solar park is part of the investment (otherwise it exists in the baseline too)
+  solarInInvestment: boolean;
+  fixedOpexPercent: number;
+  variableOpexPerMWh: number;
+  batteryReplacementYear: number;
+  batteryReplacementPercent: number;
+  discountRatePercent: number;
+  inflationPercent: number;
+};
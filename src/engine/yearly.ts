@@ -0,0 +1,152 @@
+import { applyGridContract } from './contract';
+import { calculateDieselCost } from './costs';
+import { YearData, detectTimestepHours, getDcCapacityForYear, getGridCapacityForYear, getYearData, hoursInYear } from './profiles';
+import { getSchedulePeakMW } from './schedule';
+import { prepareStepInputs, runSimulation } from './simulation';
+import { AncillaryPricePoint, AnalysisResult, BaseSimulationParams, CostParams, DataPoint, EmissionPoint, GensetParams, GridCapacity, GridCapacityStep, LoadProfiles, PricePoint, SolarPoint, GridContractParams, YearFillParams, YearlyResult } from './types';
+
+export type MultiYearParams = BaseSimulationParams & CostParams & GensetParams & YearFillParams & GridContractParams & {
+  startYear: number;
+  growthProfile: number[];
+  gridCapacitySteps: GridCapacityStep[];
+};
+
+// --- HELPER: YEARLY AGGREGATION ---
+// Condenses one year's AnalysisResult into the row shown in the multi-year tables and charts.
+export const buildYearlyResult = (
+  year: number,
+  res: AnalysisResult,
+  dcCapacityMW: number,
+  grid: GridCapacity,
+  params: MultiYearParams,
+  yearData: Pick<YearData, 'status' | 'coverage'>
+): YearlyResult => {
+  const { batteryPowerMW, dcUtilizationFactor, logisticsSchedule, startYear } = params;
+  const { dieselLiters, grossDieselCost, lostLoadCost, avoidedGridCost, netExtraCost } = calculateDieselCost(res, params);
+
+  const totalCo2Tonnes = res.dieselCo2Tonnes + res.gridCo2Tonnes;
+
+  const dieselPercentage = res.totalLoadConsumption > 0 ? (res.loadDeficitMWhWithBat / res.totalLoadConsumption) * 100 : 0;
+
+  const maxTradingVolume = hoursInYear(year) * batteryPowerMW;
+  const tradingVolumePercent = maxTradingVolume > 0 ? (res.tradingVolumePotentialMWh / maxTradingVolume) * 100 : 0;
+
+  const contractMax = Math.min(grid.contractedMW, grid.connectionMW);
+  const dcActual = dcCapacityMW * (dcUtilizationFactor / 100);
+  const logisticsActual = year >= startYear ? getSchedulePeakMW(logisticsSchedule) : 0;
+
+  return {
+    year,
+    dcDeficitWithBat: res.loadDeficitMWhWithBat,
+    totalHoursRestricted: res.totalHoursRestricted,
+    totalMWhRestricted: res.totalMWhRestrictedGrid,
+    cscPercentage: res.curtailmentPercentageVolume,
+    dcCapacityUsed: dcCapacityMW,
+    grossDieselCost,
+    lostLoadCost,
+    avoidedGridCost,
+    netExtraCost,
+    dieselLiters,
+    gensetStarts: res.gensetStarts,
+    gensetRunHours: res.gensetRunHours,
+    gensetMaxUnitRunHours: res.gensetMaxUnitRunHours,
+    gensetUnservedMWh: res.gensetUnservedMWh,
+    dieselCo2Tonnes: res.dieselCo2Tonnes,
+    gridCo2Tonnes: res.gridCo2Tonnes,
+    totalCo2Tonnes,
+    dieselNoxKg: res.dieselNoxKg,
+    dieselPmKg: res.dieselPmKg,
+    carbonCost: totalCo2Tonnes * params.co2PricePerTonne,
+    solarSelfConsumption: res.totalSolarUsed,
+    totalSolarGeneration: res.totalSolarGeneration,
+    totalLoadConsumption: res.totalLoadConsumption,
+    deficitAfterSolar: res.deficitAfterSolar,
+    restrictedVolumeLoad: res.restrictedVolumeLoad,
+    dieselPercentage,
+    tradingVolumePotentialMWh: res.tradingVolumePotentialMWh,
+    tradingVolumePercent,
+    totalGridToLoad: res.totalGridToLoad,
+    totalSolarToLoad: res.totalSolarToLoad,
+    totalBatToLoad: res.totalBatToLoad,
+    totalBatteryLoss: res.totalBatteryLossMWh,
+    energyCost: grossDieselCost + lostLoadCost + (res.totalGridToLoad + res.totalGridToBat) * params.electricityPrice,
+    capLogisticsMW: logisticsActual,
+    capDcActualMW: dcActual,
+    capBatterySpaceMW: Math.max(0, contractMax - logisticsActual - dcActual),
+    capDcContractMW: dcCapacityMW,
+    capConnectionMW: grid.connectionMW,
+    capContractedMW: grid.contractedMW,
+    capFirmMW: grid.firmMW,
+    solarMatchedHours: res.solarAlignment.matchedHours,
+    solarInterpolatedHours: res.solarAlignment.interpolatedHours,
+    solarMissingHours: res.solarAlignment.missingHours,
+    arbitrageRevenue: res.arbitrageRevenue,
+    arbitrageBoughtMWh: res.arbitrageBoughtMWh,
+    arbitrageSoldMWh: res.arbitrageSoldMWh,
+    fcrRevenue: res.fcrRevenue,
+    afrrRevenue: res.afrrRevenue,
+    fcrHours: res.fcrHours,
+    afrrHours: res.afrrHours,
+    dataStatus: yearData.status,
+    dataCoverage: yearData.coverage
+  };
+};
+
+// Grid profile of one year as simulated: the uploaded profile, filled per
+// yearFillStrategy, with the contract rules applied for that year's contract. Solar and
+// load give the site demand that a worst-case transport right restricts.
+export const getGridYearData = (
+  year: number,
+  rawData: DataPoint[],
+  params: MultiYearParams,
+  solarData: SolarPoint[] = [],
+  loadProfiles: LoadProfiles = { dc: [], logistics: [] }
+): YearData => {
+  const grid = getGridCapacityForYear(year, params.gridCapacitySteps);
+  const simParams = { ...params, ...grid, dcCapacityMW: getDcCapacityForYear(year, params.startYear, params.growthProfile) };
+  const getNetDemand = (rows: DataPoint[]) => prepareStepInputs(rows, solarData, simParams, detectTimestepHours(rows), loadProfiles)
+    .inputs.map(input => input.totalDemand - input.solarGeneration);
+  return applyGridContract(getYearData(year, rawData, params), year, params, Math.min(grid.contractedMW, grid.connectionMW), getNetDemand);
+};
+
+// Simulates one year of the horizon with that year's grid profile, grid capacity and
+// DC capacity from the growth path.
+export const simulateYear = (
+  year: number,
+  rawData: DataPoint[],
+  solarData: SolarPoint[],
+  params: MultiYearParams,
+  priceData: PricePoint[] = [],
+  ancillaryPriceData: AncillaryPricePoint[] = [],
+  loadProfiles: LoadProfiles = { dc: [], logistics: [] },
+  emissionData: EmissionPoint[] = []
+): { res: AnalysisResult; yearData: YearData; dcCapacityMW: number; grid: GridCapacity } => {
+  const yearData = getGridYearData(year, rawData, params, solarData, loadProfiles);
+  const dcCapacityMW = getDcCapacityForYear(year, params.startYear, params.growthProfile);
+  const grid = getGridCapacityForYear(year, params.gridCapacitySteps);
+  const res = runSimulation(yearData.rows, solarData, { ...params, ...grid, dcCapacityMW }, priceData, ancillaryPriceData, loadProfiles, emissionData, year);
+  return { res, yearData, dcCapacityMW, grid };
+};
+
+// Whether there is a grid to simulate: the uploaded profile, or a contract that replaces it.
+export const hasGridInput = (rawData: DataPoint[], params: MultiYearParams): boolean =>
+  rawData.length > 0 || params.gridContract.mode === 'contract' || params.gridContract.mode === 'availability';
+
+// Runs every year from startYear onwards with the DC capacity taken from the growth path.
+export const runMultiYear = (
+  years: number[],
+  rawData: DataPoint[],
+  solarData: SolarPoint[],
+  params: MultiYearParams,
+  priceData: PricePoint[] = [],
+  ancillaryPriceData: AncillaryPricePoint[] = [],
+  loadProfiles: LoadProfiles = { dc: [], logistics: [] },
+  emissionData: EmissionPoint[] = []
+): YearlyResult[] => {
+  if (!hasGridInput(rawData, params)) return [];
+
+  return years.filter(y => y >= params.startYear).map(year => {
+    const { res, yearData, dcCapacityMW, grid } = simulateYear(year, rawData, solarData, params, priceData, ancillaryPriceData, loadProfiles, emissionData);
+    return buildYearlyResult(year, res, dcCapacityMW, grid, params, yearData);
+  });
+};
@@ -0,0 +1,166 @@
+import { CsvType, detectTimestepHours, formatLocalDateTime } from './engine';
+
+// Parsed profile as typed arrays: timestamps (UTC ms) and one or more value columns
+// (ancillary prices have FCR and aFRR). Grid, solar and load values are in MW, prices
+// and intensities as read from the file.
+export type ProfileData = {
+  times: Float64Array;
+  columns: Float32Array[];
+};
+
+export type StoredProfileInfo = {
+  id: string;
+  type: CsvType;
+  fileName: string;
+  savedAt: string;
+  rows: number;
+  bytes: number;
+  fingerprint: string;
+};
+
+// Browser storage usage of the whole site (all stores), when the browser reports it
+export type StorageEstimate = {
+  usage: number;
+  quota: number;
+};
+
+// --- HELPER: INDEXEDDB ---
+// Two object stores keyed by profile id: the small info records (listed in the UI)
+// and the typed arrays, which are only read when a profile is used.
+// Version 2: solar profiles are stored in MW instead of kWh per interval.
+const DB_NAME = 'bess-profiles';
+const DB_VERSION = 2;
+const INFO_STORE = 'info';
+const DATA_STORE = 'data';
+
+// Converts the stored solar profiles of a version 1 database in the upgrade transaction
+const convertSolarToMW = (tx: IDBTransaction) => {
+  const infoStore = tx.objectStore(INFO_STORE);
+  const dataStore = tx.objectStore(DATA_STORE);
+  infoStore.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const info: StoredProfileInfo = cursor.value;
+    if (info.type === 'solar') {
+      dataStore.get(info.id).onsuccess = (e) => {
+        const data: ProfileData | undefined = (e.target as IDBRequest<ProfileData>).result;
+        if (!data) return;
+        const sorted = Array.from(data.times.slice(0, 2000)).sort((a, b) => a - b).map(t => ({ datetime: new Date(t) }));
+        const stepHours = detectTimestepHours(sorted);
+        const converted: ProfileData = { times: data.times, columns: data.columns.map(c => c.map(v => v / 1000 / stepHours)) };
+        dataStore.put(converted, info.id);
+        infoStore.put({ ...info, fingerprint: getProfileFingerprint(converted) });
+      };
+    }
+    cursor.continue();
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    if (event.oldVersion < 1) {
+      request.result.createObjectStore(INFO_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(DATA_STORE);
+    } else if (event.oldVersion < 2 && request.transaction) {
+      convertSolarToMW(request.transaction);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs fn in one transaction and resolves with its result once the transaction has committed.
+const withStores = async <T>(mode: IDBTransactionMode, fn: (info: IDBObjectStore, data: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([INFO_STORE, DATA_STORE], mode);
+    const request = fn(tx.objectStore(INFO_STORE), tx.objectStore(DATA_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error || new Error('Transaction aborted'));
+    };
+  });
+};
+
+export const toProfileData = (times: number[], columns: number[][]): ProfileData => ({
+  times: Float64Array.from(times),
+  columns: columns.map(values => Float32Array.from(values))
+});
+
+export const getProfileBytes = (data: ProfileData): number =>
+  data.times.byteLength + data.columns.reduce((sum, c) => sum + c.byteLength, 0);
+
+// FNV-1a hash of the stored arrays; equal for the same data in any CSV layout
+export const getProfileFingerprint = (data: ProfileData): string => {
+  let hash = 0x811c9dc5;
+  [data.times, ...data.columns].forEach(array => {
+    const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+    for (let i = 0; i < bytes.length; i++) {
+      hash ^= bytes[i];
+      hash = Math.imul(hash, 0x01000193);
+    }
+  });
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Semicolon CSV in Dutch local time that the import reads back into the same data (with
+// unit MW for grid, solar and load profiles).
+export const formatProfileCsv = (data: ProfileData): string => {
+  const header = data.columns.length > 1 ? 'datetime;fcr;afrr' : 'datetime;waarde';
+  const lines = [header];
+  for (let i = 0; i < data.times.length; i++) {
+    lines.push([formatLocalDateTime(new Date(data.times[i])), ...data.columns.map(c => parseFloat(c[i].toPrecision(7)))].join(';'));
+  }
+  return lines.join('\n');
+};
+
+export const saveProfile = async (type: CsvType, fileName: string, data: ProfileData): Promise<StoredProfileInfo> => {
+  const info: StoredProfileInfo = {
+    id: `${type}-${Date.now()}`,
+    type,
+    fileName,
+    savedAt: new Date().toISOString(),
+    rows: data.times.length,
+    bytes: getProfileBytes(data),
+    fingerprint: getProfileFingerprint(data)
+  };
+  await withStores('readwrite', (infoStore, dataStore) => {
+    infoStore.put(info);
+    dataStore.put(data, info.id);
+  });
+  return info;
+};
+
+export const loadProfile = async (id: string): Promise<ProfileData | undefined> =>
+  withStores<ProfileData>('readonly', (_, dataStore) => dataStore.get(id));
+
+export const listProfiles = async (): Promise<StoredProfileInfo[]> =>
+  (await withStores<StoredProfileInfo[]>('readonly', infoStore => infoStore.getAll())) || [];
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  await withStores('readwrite', (infoStore, dataStore) => {
+    infoStore.delete(id);
+    dataStore.delete(id);
+  });
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const clearProfileStore = (): Promise<void> => new Promise((resolve, reject) => {
+  const request = indexedDB.deleteDatabase(DB_NAME);
+  request.onsuccess = () => resolve();
+  request.onerror = () => reject(request.error);
+});